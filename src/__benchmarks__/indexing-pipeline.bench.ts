@@ -2,6 +2,7 @@ import { bench, describe, vi } from "vitest";
 import { IndexCodeService } from "../application/index-code.js";
 import { InMemoryJobStore } from "../application/job-store.js";
 import { JavaScriptParser } from "../domain/parsers/javascript.js";
+import { ParserRegistry } from "../domain/parsers/parser-registry.js";
 import type { GraphRepository, FileSystem, Logger } from "../domain/ports.js";
 
 // ── Sample source code ──────────────────────────────────────────
@@ -48,6 +49,14 @@ module.exports = { Logger, DataService, processData };
 
 let sessionCount = 0;
 
+/** Simulated network round-trip to Neo4j, paid once per statement. */
+const ROUND_TRIP_MS = 0.2;
+
+function roundTrip(): Promise<void> {
+  sessionCount++;
+  return new Promise((resolve) => setTimeout(resolve, ROUND_TRIP_MS));
+}
+
 function createCountingGraph(): GraphRepository {
   return {
     ensureVectorIndex: async () => { },
@@ -56,13 +65,17 @@ function createCountingGraph(): GraphRepository {
     getContentHash: async () => null,
     verifyConnectivity: async () => { },
     ensureSchema: async () => { },
-    runQuery: async () => { sessionCount++; return []; },
-    mergeNode: async () => { sessionCount++; },
-    mergeRelationship: async () => { sessionCount++; },
-    deleteFileNodes: async () => { sessionCount++; },
+    runQuery: async () => { await roundTrip(); return []; },
+    mergeNode: async () => { await roundTrip(); },
+    mergeRelationship: async () => { await roundTrip(); },
+    mergeNodes: async (_label, rows) => { if (rows.length > 0) await roundTrip(); },
+    mergeRelationships: async (_from, _to, _rel, rows) => { if (rows.length > 0) await roundTrip(); },
+    setFilePhase: async () => { await roundTrip(); },
+    deleteFileNodes: async () => { await roundTrip(); },
     deleteRepository: async () => { },
     deleteAll: async () => { },
     getRepositoryFileHashes: async () => ({}),
+    getRepositoryFilePhases: async () => ({}),
     getImportsMapForFiles: async () => new Map(),
     close: async () => { },
     executeBatch: async (fn) => {
@@ -72,10 +85,30 @@ function createCountingGraph(): GraphRepository {
   };
 }
 
+/**
+ * Same graph, but bulk writes are replayed row by row — the cost of the
+ * previous one-MERGE-per-node write path.
+ */
+function createPerRowGraph(): GraphRepository {
+  const graph = createCountingGraph();
+  return {
+    ...graph,
+    mergeNodes: async (label, rows) => {
+      for (const row of rows) await graph.mergeNode(label, row.key, row.props);
+    },
+    mergeRelationships: async (fromLabel, toLabel, relType, rows) => {
+      for (const row of rows) {
+        await graph.mergeRelationship(fromLabel, row.from, toLabel, row.to, relType, row.props);
+      }
+    },
+  };
+}
+
 function createMockFs(): FileSystem {
   return {
     readFile: async () => JS_MEDIUM,
     exists: () => false,
+    fileSize: async () => JS_MEDIUM.length,
     glob: async () => ["/project/src/index.js"],
   };
 }
@@ -96,16 +129,17 @@ const mockDescribeCode = {
 
 describe("Indexing Pipeline", () => {
   const parser = new JavaScriptParser();
+  const parsers = new ParserRegistry([parser]);
 
   bench("indexFile (single file, mock graph)", async () => {
     const graph = createCountingGraph();
-    const service = new IndexCodeService(createMockFs(), graph, parser, mockDescribeCode, new InMemoryJobStore(), noopLogger);
+    const service = new IndexCodeService(createMockFs(), graph, parsers, mockDescribeCode, new InMemoryJobStore(), noopLogger);
     await service.indexFile("/project/src/index.js", "/project", new Map());
   });
 
   bench("indexDirectory (1 file, full pipeline)", async () => {
     const graph = createCountingGraph();
-    const service = new IndexCodeService(createMockFs(), graph, parser, mockDescribeCode, new InMemoryJobStore(), noopLogger);
+    const service = new IndexCodeService(createMockFs(), graph, parsers, mockDescribeCode, new InMemoryJobStore(), noopLogger);
     await service.indexDirectory("/project");
   });
 
@@ -114,15 +148,32 @@ describe("Indexing Pipeline", () => {
   });
 });
 
+describe("Graph writes per indexFile", () => {
+  const parser = new JavaScriptParser();
+  const parsers = new ParserRegistry([parser]);
+
+  bench("batched UNWIND writes", async () => {
+    const service = new IndexCodeService(createMockFs(), createCountingGraph(), parsers, mockDescribeCode, new InMemoryJobStore(), noopLogger);
+    await service.indexFile("/project/src/index.js", "/project", new Map());
+  });
+
+  bench("one MERGE per node (baseline)", async () => {
+    const service = new IndexCodeService(createMockFs(), createPerRowGraph(), parsers, mockDescribeCode, new InMemoryJobStore(), noopLogger);
+    await service.indexFile("/project/src/index.js", "/project", new Map());
+  });
+});
+
 describe("Session count measurement", () => {
   const parser = new JavaScriptParser();
+  const parsers = new ParserRegistry([parser]);
 
   bench("count graph operations per indexFile", async () => {
     sessionCount = 0;
     const graph = createCountingGraph();
-    const service = new IndexCodeService(createMockFs(), graph, parser, mockDescribeCode, new InMemoryJobStore(), noopLogger);
+    const service = new IndexCodeService(createMockFs(), graph, parsers, mockDescribeCode, new InMemoryJobStore(), noopLogger);
     await service.indexFile("/project/src/index.js", "/project", new Map());
-    // With executeBatch: sessionCount should be ~1 (the batch) + inner calls
-    // Without: would be ~40+ individual sessions
+    // Batched: one statement per label / relationship type (~16),
+    // independent of how many symbols the file contains.
+    // One MERGE per node: ~56 for this sample, growing with file size.
   });
 });
@@ -1,7 +1,11 @@
-import { bench, describe } from "vitest";
+import { afterAll, bench, describe } from "vitest";
+import { existsSync } from "node:fs";
+import { fileURLToPath } from "node:url";
 import { JavaScriptParser } from "../domain/parsers/javascript.js";
 import { TypeScriptParser } from "../domain/parsers/typescript.js";
 import { PHPParser } from "../domain/parsers/php.js";
+import { createDefaultParserRegistry } from "../domain/parsers/parser-registry.js";
+import { WorkerParserPool } from "../infrastructure/worker-parser-pool.js";
 
 // ── Sample sources ──────────────────────────────────────────────
 
@@ -236,6 +240,37 @@ describe("PHP Parser", () => {
   });
 });
 
+// Cold index of a mixed repo: the old pipeline pre-scanned every file and
+// parsed it again; now each file is parsed once, optionally on worker threads.
+// The worker pool needs the compiled worker (`npm run build`).
+describe("Cold index parsing (60 files)", () => {
+  const registry = createDefaultParserRegistry();
+  const files = Array.from({ length: 60 }, (_, i) => {
+    const [ext, sourceCode] = ([[".js", JS_MEDIUM], [".ts", TS_MEDIUM], [".php", PHP_MEDIUM]] as const)[i % 3];
+    return { filePath: `/bench/file${i}${ext}`, sourceCode };
+  });
+  const workerUrl = new URL("../../dist/infrastructure/parser-worker.js", import.meta.url);
+  const pool = new WorkerParserPool({ workerUrl });
+  afterAll(() => pool.close());
+
+  bench("preScan + parse on main thread (two parses per file)", () => {
+    registry.preScan(files);
+    for (const { filePath, sourceCode } of files) {
+      registry.getParserForFile(filePath)!.parse(sourceCode, filePath);
+    }
+  });
+
+  bench("parseWithSymbols on main thread (one parse per file)", () => {
+    for (const { filePath, sourceCode } of files) {
+      registry.parseWithSymbols(filePath, sourceCode);
+    }
+  });
+
+  bench.skipIf(!existsSync(fileURLToPath(workerUrl)))(`worker pool (${pool.size} threads)`, async () => {
+    await Promise.all(files.map(({ filePath, sourceCode }) => pool.parse(filePath, sourceCode)));
+  });
+});
+
 describe("Symbol Resolution", async () => {
   const { resolveSymbol } = await import("../domain/symbol-resolver.js");
   const parsed = jsParser.parse(JS_MEDIUM, "/bench/medium.js");
@@ -8,6 +8,7 @@ function createMockGraphReader(returnRows: Record<string, unknown>[] = []): Grap
     vectorSearch: vi.fn(),
     getContentHash: vi.fn(),
     getRepositoryFileHashes: vi.fn().mockResolvedValue({}),
+    getRepositoryFilePhases: vi.fn().mockResolvedValue({}),
     getImportsMapForFiles: vi.fn().mockResolvedValue(new Map()),
   };
 }
@@ -82,4 +83,98 @@ describe("AnalyzeCodeService", () => {
       expect.objectContaining({ name: "foo", path: "/src/foo.ts" }),
     );
   });
+
+  it("findTypeUsages follows USES_TYPE edges", async () => {
+    const reader = createMockGraphReader([
+      { labels: ["Function"], name: "run", path: "/src/run.ts", line_number: 3, class_name: null },
+      { labels: ["Property"], name: "job", path: "/src/worker.ts", line_number: 8, class_name: "Worker" },
+    ]);
+    const service = new AnalyzeCodeService(reader);
+    const results = await service.findTypeUsages("IndexJob", 20);
+    expect(results).toEqual([
+      { kind: "function", name: "run", path: "/src/run.ts", lineNumber: 3, className: undefined },
+      { kind: "property", name: "job", path: "/src/worker.ts", lineNumber: 8, className: "Worker" },
+    ]);
+    expect(reader.runQuery).toHaveBeenCalledWith(
+      expect.stringContaining("USES_TYPE"),
+      expect.objectContaining({ name: "IndexJob" }),
+    );
+  });
+
+  it("findRenderers follows RENDERS edges with the props passed", async () => {
+    const reader = createMockGraphReader([
+      { name: "UserList", path: "/src/UserList.tsx", line_number: 12, props: ["isOpen", "onClose"] },
+      { name: "Settings", path: "/src/Settings.tsx", line_number: 4, props: null },
+    ]);
+    const service = new AnalyzeCodeService(reader);
+    const results = await service.findRenderers("Modal", 20);
+    expect(results).toEqual([
+      { name: "UserList", path: "/src/UserList.tsx", lineNumber: 12, props: ["isOpen", "onClose"] },
+      { name: "Settings", path: "/src/Settings.tsx", lineNumber: 4, props: [] },
+    ]);
+    expect(reader.runQuery).toHaveBeenCalledWith(
+      expect.stringContaining("RENDERS"),
+      expect.objectContaining({ name: "Modal" }),
+    );
+  });
+
+  it("listRoutes returns routes with their resolved handlers", async () => {
+    const reader = createMockGraphReader([
+      {
+        method: "GET", path: "/users", framework: "express", file_path: "/src/app.ts", line_number: 4,
+        handler: "listUsers", handler_path: "/src/users.ts", handler_line: 2,
+      },
+      {
+        method: "POST", path: "/users", framework: "express", file_path: "/src/app.ts", line_number: 5,
+        handler: null, handler_path: null, handler_line: null,
+      },
+    ]);
+    const service = new AnalyzeCodeService(reader);
+    const results = await service.listRoutes(100, "/repo", "/users");
+    expect(results).toEqual([
+      {
+        method: "GET", path: "/users", framework: "express", filePath: "/src/app.ts", lineNumber: 4,
+        handler: "listUsers", handlerPath: "/src/users.ts", handlerLine: 2,
+      },
+      {
+        method: "POST", path: "/users", framework: "express", filePath: "/src/app.ts", lineNumber: 5,
+        handler: undefined, handlerPath: undefined, handlerLine: undefined,
+      },
+    ]);
+    expect(reader.runQuery).toHaveBeenCalledWith(
+      expect.stringContaining("HANDLED_BY"),
+      { limit: 100, repoPath: "/repo", path: "/users" },
+    );
+  });
+
+  it("traceRoute leads each call chain with its route", async () => {
+    const reader = createMockGraphReader([
+      { route: "GET /users", calls: ["listUsers"] },
+      { route: "GET /users", calls: ["listUsers", "findAll"] },
+    ]);
+    const service = new AnalyzeCodeService(reader);
+    const results = await service.traceRoute("/users", undefined, 3, 20);
+    expect(results).toEqual([["GET /users", "listUsers"], ["GET /users", "listUsers", "findAll"]]);
+    expect(reader.runQuery).toHaveBeenCalledWith(
+      expect.stringContaining("CALLS*0..3"),
+      { path: "/users", method: null, limit: 20 },
+    );
+  });
+
+  it("findDecorated follows DECORATED_BY edges", async () => {
+    const reader = createMockGraphReader([
+      { labels: ["Class"], name: "CatsController", path: "/src/cats.ts", line_number: 3, class_name: null, decorator: "Controller", arguments: '"cats"' },
+      { labels: ["Function"], name: "find", path: "/src/cats.ts", line_number: 7, class_name: "CatsController", decorator: "Get", arguments: null },
+    ]);
+    const service = new AnalyzeCodeService(reader);
+    const results = await service.findDecorated("Controller", 20);
+    expect(results).toEqual([
+      { kind: "class", name: "CatsController", path: "/src/cats.ts", lineNumber: 3, className: undefined, decorator: "Controller", arguments: '"cats"' },
+      { kind: "function", name: "find", path: "/src/cats.ts", lineNumber: 7, className: "CatsController", decorator: "Get", arguments: undefined },
+    ]);
+    expect(reader.runQuery).toHaveBeenCalledWith(
+      expect.stringContaining("DECORATED_BY"),
+      expect.objectContaining({ name: "Controller" }),
+    );
+  });
 });
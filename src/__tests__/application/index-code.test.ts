@@ -1,6 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import crypto from "node:crypto";
 import { IndexCodeService } from "../../application/index-code.js";
+import { gitBlobId } from "../../domain/utils.js";
 import { InMemoryJobStore } from "../../application/job-store.js";
+import { ParserRegistry } from "../../domain/parsers/parser-registry.js";
+import { VueParser } from "../../domain/parsers/sfc.js";
+import { JavaScriptParser } from "../../domain/parsers/javascript.js";
 import type { GraphRepository, FileSystem, Logger } from "../../domain/ports.js";
 import type { LanguageParser, ParsedFile, ImportsMap } from "../../domain/types.js";
 
@@ -15,10 +20,14 @@ function createMockGraph(): GraphRepository {
     runQuery: vi.fn().mockResolvedValue([]),
     mergeNode: vi.fn().mockResolvedValue(undefined),
     mergeRelationship: vi.fn().mockResolvedValue(undefined),
+    mergeNodes: vi.fn().mockResolvedValue(undefined),
+    mergeRelationships: vi.fn().mockResolvedValue(undefined),
+    setFilePhase: vi.fn().mockResolvedValue(undefined),
     deleteFileNodes: vi.fn().mockResolvedValue(undefined),
     deleteRepository: vi.fn().mockResolvedValue(undefined),
     deleteAll: vi.fn().mockResolvedValue(undefined),
     getRepositoryFileHashes: vi.fn().mockResolvedValue({}),
+    getRepositoryFilePhases: vi.fn().mockResolvedValue({}),
     getImportsMapForFiles: vi.fn().mockResolvedValue(new Map()),
     close: vi.fn().mockResolvedValue(undefined),
     executeBatch: vi.fn(async (fn: () => Promise<void>) => fn()),
@@ -29,11 +38,15 @@ function createMockFs(files: Record<string, string> = {}): FileSystem {
   return {
     readFile: vi.fn(async (path: string) => files[path] ?? ""),
     exists: vi.fn((path: string) => path in files),
+    fileSize: vi.fn(async (path: string) => (files[path] ?? "").length),
     glob: vi.fn().mockResolvedValue(Object.keys(files)),
   };
 }
 
-function createMockParser(parsedFile?: Partial<ParsedFile>): LanguageParser {
+function createMockParser(
+  parsedFile?: Partial<ParsedFile>,
+  supportedExtensions: string[] = [".js"],
+): LanguageParser {
   const defaultParsed: ParsedFile = {
     path: "/project/test.js",
     repoPath: "",
@@ -46,12 +59,17 @@ function createMockParser(parsedFile?: Partial<ParsedFile>): LanguageParser {
     ...parsedFile,
   };
 
-  return {
-    supportedExtensions: [".js"],
-    languageName: "javascript",
+  const parser: LanguageParser = {
+    supportedExtensions,
+    languageName: defaultParsed.lang,
     parse: vi.fn().mockReturnValue(defaultParsed),
     preScan: vi.fn().mockReturnValue(new Map()),
+    parseWithSymbols: vi.fn((sourceCode: string, filePath: string, isDependency?: boolean) => ({
+      parsed: parser.parse(sourceCode, filePath, isDependency),
+      symbols: parser.preScan([{ filePath, sourceCode }]),
+    })),
   };
+  return parser;
 }
 
 function createMockLogger(): Logger {
@@ -82,7 +100,7 @@ describe("IndexCodeService", () => {
     parser = createMockParser();
     jobStore = new InMemoryJobStore();
     logger = createMockLogger();
-    service = new IndexCodeService(fs, graph, parser, mockDescribeCode, jobStore, logger);
+    service = new IndexCodeService(fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger);
   });
 
   it("indexes a directory and creates a job", async () => {
@@ -105,20 +123,615 @@ describe("IndexCodeService", () => {
 
   it("inserts function nodes", async () => {
     await service.indexDirectory("/project");
-    expect(graph.mergeNode).toHaveBeenCalledWith(
-      "Function",
-      expect.objectContaining({ name: "foo" }),
-      expect.any(Object),
-    );
+    expect(graph.mergeNodes).toHaveBeenCalledWith("Function", [
+      expect.objectContaining({ key: expect.objectContaining({ name: "foo" }) }),
+    ]);
   });
 
   it("inserts repository node", async () => {
     await service.indexDirectory("/project");
-    expect(graph.mergeNode).toHaveBeenCalledWith(
-      "Repository",
-      expect.objectContaining({ path: expect.any(String) }),
-      expect.any(Object),
+    expect(graph.mergeNodes).toHaveBeenCalledWith("Repository", [
+      expect.objectContaining({ key: { path: expect.any(String) } }),
+    ]);
+  });
+
+  it("writes each label in one batch per file", async () => {
+    parser = createMockParser({
+      path: "/project/src/test.js",
+      functions: [
+        { name: "foo", lineNumber: 1, endLine: 1, args: ["a", "b"], cyclomaticComplexity: 1 },
+        { name: "bar", lineNumber: 2, endLine: 2, args: [], cyclomaticComplexity: 1 },
+      ],
+    });
+    fs = createMockFs({ "/project/src/test.js": "function foo(a, b) {}\nfunction bar() {}" });
+    service = new IndexCodeService(fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger);
+
+    await service.indexFile("/project/src/test.js", "/project", new Map());
+
+    const fnCalls = vi.mocked(graph.mergeNodes).mock.calls.filter((c) => c[0] === "Function");
+    expect(fnCalls).toHaveLength(1);
+    expect(fnCalls[0][1]).toHaveLength(2);
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("Function", "Parameter", "HAS_PARAMETER", [
+      expect.objectContaining({ to: { name: "a", function_name: "foo", path: "/project/src/test.js" } }),
+      expect.objectContaining({ to: { name: "b", function_name: "foo", path: "/project/src/test.js" } }),
+    ]);
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("Repository", "Directory", "CONTAINS_DIR", [
+      { from: { path: "/project" }, to: { path: "/project/src" } },
+    ]);
+    expect(graph.mergeNode).not.toHaveBeenCalled();
+  });
+
+  it("writes nodes before the relationships that match them", async () => {
+    const order: string[] = [];
+    vi.mocked(graph.mergeNodes).mockImplementation(async (label: string) => { order.push(`node:${label}`); });
+    vi.mocked(graph.mergeRelationships).mockImplementation(async (_from: string, to: string, rel: string) => {
+      order.push(`rel:${rel}:${to}`);
+    });
+
+    await service.indexFile("/project/test.js", "/project", new Map());
+
+    expect(order.indexOf("node:File")).toBeLessThan(order.indexOf("rel:CONTAINS:File"));
+    expect(order.indexOf("node:Function")).toBeLessThan(order.indexOf("rel:CONTAINS:Function"));
+  });
+
+  it("links all calls of a file in a single batch", async () => {
+    parser = createMockParser({
+      functions: [
+        { name: "main", lineNumber: 1, endLine: 5, args: [], cyclomaticComplexity: 1 },
+        { name: "local", lineNumber: 6, endLine: 7, args: [], cyclomaticComplexity: 1 },
+      ],
+      calls: [
+        { name: "local", lineNumber: 2, args: [], callerName: "main" },
+        { name: "remote", lineNumber: 3, args: [], callerName: "main" },
+        { name: "console.log", lineNumber: 4, args: [], callerName: "main" },
+      ],
+    });
+    vi.mocked(parser.preScan).mockReturnValue(
+      new Map([["remote", [{ filePath: "/project/other.js", lineNumber: 1 }]]]),
+    );
+    service = new IndexCodeService(fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger);
+
+    await service.indexDirectory("/project");
+
+    const callBatches = vi.mocked(graph.mergeRelationships).mock.calls.filter((c) => c[2] === "CALLS");
+    expect(callBatches).toHaveLength(1);
+    expect(callBatches[0][3]).toEqual([
+      {
+        from: { name: "main", path: "/project/test.js" },
+        to: { name: "local", path: "/project/test.js", line_number: 6 },
+        props: { line_number: 2 },
+      },
+      {
+        from: { name: "main", path: "/project/test.js" },
+        to: { name: "remote", path: "/project/other.js", line_number: 1 },
+        props: { line_number: 3 },
+      },
+    ]);
+  });
+
+  it("links calls through aliased imports and renamed re-exports to the definition's own name", async () => {
+    parser = createMockParser({
+      functions: [{ name: "main", lineNumber: 1, endLine: 5, args: [], cyclomaticComplexity: 1 }],
+      imports: [
+        { name: "read", source: "./lib/index.js", lineNumber: 1 },
+        { name: "p2", alias: "parse", source: "./parse.js", lineNumber: 2 },
+      ],
+      calls: [
+        { name: "read", lineNumber: 3, args: [], callerName: "main" },
+        { name: "p2", lineNumber: 4, args: [], callerName: "main" },
+      ],
+    });
+    vi.mocked(parser.preScan).mockReturnValue(
+      new Map([
+        ["parse", [{ filePath: "/project/parse.js", lineNumber: 5 }]],
+        ["read", [{ filePath: "/project/lib/index.js", lineNumber: 1, exportOf: "parse", from: "../parse.js" }]],
+      ]),
+    );
+    service = new IndexCodeService(fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger);
+
+    await service.indexDirectory("/project");
+
+    const callBatches = vi.mocked(graph.mergeRelationships).mock.calls.filter((c) => c[2] === "CALLS");
+    expect(callBatches[0][3]).toEqual([
+      {
+        from: { name: "main", path: "/project/test.js" },
+        to: { name: "parse", path: "/project/parse.js", line_number: 5 },
+        props: { line_number: 3 },
+      },
+      {
+        from: { name: "main", path: "/project/test.js" },
+        to: { name: "parse", path: "/project/parse.js", line_number: 5 },
+        props: { line_number: 4 },
+      },
+    ]);
+  });
+
+  it("writes single-file components and links the child components they use", async () => {
+    fs = createMockFs({
+      "/project/Profile.vue": '<template><UserCard /></template>\n<script setup>\nimport UserCard from "./UserCard.vue";\n</script>\n',
+      "/project/UserCard.vue": "<template><div /></template>\n",
+    });
+    service = new IndexCodeService(fs, graph, new ParserRegistry([new VueParser()]), mockDescribeCode, jobStore, logger);
+
+    await service.indexDirectory("/project");
+
+    expect(graph.mergeNodes).toHaveBeenCalledWith("Component", [{
+      key: { name: "Profile", path: "/project/Profile.vue" },
+      props: expect.objectContaining({ children: '["UserCard"]', lang: "vue" }),
+    }]);
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("Component", "Component", "USES_COMPONENT", [
+      { from: { name: "Profile", path: "/project/Profile.vue" }, to: { name: "UserCard", path: "/project/UserCard.vue" } },
+    ]);
+  });
+
+  it("links calls to functions assigned to exports and module.exports", async () => {
+    fs = createMockFs({
+      "/project/main.js": 'const { parse } = require("./lib");\nconst run = require("./run");\nfunction main() {\n  parse("x");\n  run();\n}\n',
+      "/project/lib.js": "exports.parse = function (input) {\n  return input;\n};\n",
+      "/project/run.js": "module.exports = function run() {};\n",
+    });
+    service = new IndexCodeService(fs, graph, new ParserRegistry([new JavaScriptParser()]), mockDescribeCode, jobStore, logger);
+
+    await service.indexDirectory("/project");
+
+    expect(graph.mergeNodes).toHaveBeenCalledWith("Function", [
+      expect.objectContaining({ key: { name: "parse", path: "/project/lib.js", line_number: 1 } }),
+    ]);
+    expect(graph.mergeNodes).toHaveBeenCalledWith("Function", [
+      expect.objectContaining({ key: { name: "run", path: "/project/run.js", line_number: 1 } }),
+    ]);
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("Function", "Function", "CALLS", [
+      {
+        from: { name: "main", path: "/project/main.js" },
+        to: { name: "parse", path: "/project/lib.js", line_number: 1 },
+        props: { line_number: 4 },
+      },
+      {
+        from: { name: "main", path: "/project/main.js" },
+        to: { name: "run", path: "/project/run.js" },
+        props: { line_number: 5 },
+      },
+    ]);
+  });
+
+  it("links child components imported under another name to the component itself", async () => {
+    fs = createMockFs({
+      "/project/Profile.vue": '<template><Card /></template>\n<script setup>\nimport Card from "./UserCard.vue";\n</script>\n',
+      "/project/UserCard.vue": "<template><div /></template>\n<script>\nexport default { props: [] };\n</script>\n",
+    });
+    service = new IndexCodeService(fs, graph, new ParserRegistry([new VueParser()]), mockDescribeCode, jobStore, logger);
+
+    await service.indexDirectory("/project");
+
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("Component", "Component", "USES_COMPONENT", [
+      { from: { name: "Profile", path: "/project/Profile.vue" }, to: { name: "UserCard", path: "/project/UserCard.vue" } },
+    ]);
+  });
+
+  it("writes TypeScript type declarations and links namespace members", async () => {
+    parser = createMockParser({
+      functions: [{ name: "area", lineNumber: 2, endLine: 2, args: [], cyclomaticComplexity: 1, namespace: "Geo" }],
+      typeAliases: [{ name: "Radius", lineNumber: 3, endLine: 3, value: "number", namespace: "Geo" }],
+      enums: [{ name: "Color", lineNumber: 5, endLine: 5, members: [{ name: "Red" }] }],
+      namespaces: [{ name: "Geo", lineNumber: 1, endLine: 4 }],
+    });
+    service = new IndexCodeService(fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger);
+
+    await service.indexFile("/project/test.js", "/project", new Map());
+
+    expect(graph.mergeNodes).toHaveBeenCalledWith("Enum", [
+      expect.objectContaining({ props: expect.objectContaining({ members: '[{"name":"Red"}]' }) }),
+    ]);
+    expect(graph.mergeNodes).toHaveBeenCalledWith("Namespace", [
+      expect.objectContaining({ key: { name: "Geo", path: "/project/test.js" } }),
+    ]);
+    const geo = { name: "Geo", path: "/project/test.js" };
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("Namespace", "Function", "CONTAINS", [
+      { from: geo, to: { name: "area", path: "/project/test.js", line_number: 2 } },
+    ]);
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("Namespace", "TypeAlias", "CONTAINS", [
+      { from: geo, to: { name: "Radius", path: "/project/test.js", line_number: 3 } },
+    ]);
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("Namespace", "Enum", "CONTAINS", []);
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("File", "Enum", "CONTAINS", [
+      { from: { path: "/project/test.js" }, to: { name: "Color", path: "/project/test.js", line_number: 5 } },
+    ]);
+  });
+
+  it("links annotated types to local and imported declarations", async () => {
+    parser = createMockParser({
+      functions: [{
+        name: "run", lineNumber: 3, endLine: 3, args: ["job"], cyclomaticComplexity: 1,
+        paramTypes: { job: "IndexJob" }, returnType: "Result", usesTypes: ["IndexJob", "Result", "Promise"],
+      }],
+      classes: [{
+        name: "Worker", lineNumber: 5, endLine: 7, bases: [],
+        properties: [{ name: "job", lineNumber: 6, type: "IndexJob", usesTypes: ["IndexJob"] }],
+      }],
+      typeAliases: [{ name: "Result", lineNumber: 1, endLine: 1 }],
+      imports: [{ name: "IndexJob", source: "./types", lineNumber: 2 }],
+    });
+    vi.mocked(parser.preScan).mockReturnValue(
+      new Map([["IndexJob", [{ filePath: "/project/types.js", lineNumber: 4 }]]]),
+    );
+    service = new IndexCodeService(fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger);
+
+    await service.indexDirectory("/project");
+
+    expect(graph.mergeNodes).toHaveBeenCalledWith("Parameter", [
+      expect.objectContaining({ props: expect.objectContaining({ type: "IndexJob" }) }),
+    ]);
+    expect(graph.mergeNodes).toHaveBeenCalledWith("Property", [
+      { key: { name: "job", class_name: "Worker", path: "/project/test.js" }, props: expect.objectContaining({ type: "IndexJob" }) },
+    ]);
+    const typeQueries = vi.mocked(graph.runQuery).mock.calls.filter((c) => c[0].includes("USES_TYPE"));
+    expect(typeQueries).toHaveLength(2);
+    expect(typeQueries[0][1]?.rows).toEqual([
+      { name: "run", line: 3, typeName: "IndexJob", typePath: "/project/types.js" },
+      { name: "run", line: 3, typeName: "Result", typePath: "/project/test.js" },
+    ]);
+    expect(typeQueries[1][1]?.rows).toEqual([
+      { name: "job", className: "Worker", typeName: "IndexJob", typePath: "/project/types.js" },
+    ]);
+  });
+
+  it("links classes to their methods and properties", async () => {
+    parser = createMockParser({
+      functions: [
+        { name: "run", lineNumber: 3, endLine: 3, args: [], cyclomaticComplexity: 1, classContext: "Worker", isMethod: true, visibility: "private", isStatic: true },
+        { name: "run", lineNumber: 6, endLine: 6, args: [], cyclomaticComplexity: 1, classContext: "Other", isMethod: true },
+        { name: "helper", lineNumber: 8, endLine: 8, args: [], cyclomaticComplexity: 1, classContext: "Worker" },
+      ],
+      classes: [
+        { name: "Worker", lineNumber: 1, endLine: 4, bases: [], properties: [{ name: "id", lineNumber: 2, visibility: "public", isReadonly: true }] },
+        { name: "Other", lineNumber: 5, endLine: 7, bases: [] },
+      ],
+    });
+    service = new IndexCodeService(fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger);
+
+    await service.indexFile("/project/test.js", "/project", new Map());
+
+    const path = "/project/test.js";
+    expect(graph.mergeNodes).toHaveBeenCalledWith("Function", expect.arrayContaining([
+      expect.objectContaining({ props: expect.objectContaining({ visibility: "private", is_static: true }) }),
+    ]));
+    expect(graph.mergeNodes).toHaveBeenCalledWith("Property", [
+      { key: { name: "id", class_name: "Worker", path }, props: expect.objectContaining({ visibility: "public", is_readonly: true }) },
+    ]);
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("Class", "Function", "HAS_METHOD", [
+      { from: { name: "Worker", path, line_number: 1 }, to: { name: "run", path, line_number: 3 } },
+      { from: { name: "Other", path, line_number: 5 }, to: { name: "run", path, line_number: 6 } },
+    ]);
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("Class", "Property", "HAS_PROPERTY", [
+      { from: { name: "Worker", path, line_number: 1 }, to: { name: "id", class_name: "Worker", path } },
+    ]);
+  });
+
+  it("writes decorators as Decorator nodes linked with their arguments", async () => {
+    parser = createMockParser({
+      functions: [
+        { name: "find", lineNumber: 4, endLine: 4, args: [], cyclomaticComplexity: 1, classContext: "Cats", isMethod: true, decorators: ['@Get(":id")'] },
+      ],
+      classes: [
+        {
+          name: "Cats", lineNumber: 2, endLine: 5, bases: [], decorators: ['@Controller("cats")'],
+          properties: [{ name: "repo", lineNumber: 3, decorators: ["@Inject()"] }],
+        },
+        { name: "Api", lineNumber: 7, endLine: 7, bases: [], decorators: ["#[Route('/api'), Cached]"] },
+      ],
+    });
+    service = new IndexCodeService(fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger);
+
+    await service.indexFile("/project/test.js", "/project", new Map());
+
+    const path = "/project/test.js";
+    expect(graph.mergeNodes).toHaveBeenCalledWith("Decorator", [
+      { key: { name: "Get" } }, { key: { name: "Controller" } }, { key: { name: "Route" } },
+      { key: { name: "Cached" } }, { key: { name: "Inject" } },
+    ]);
+    expect(graph.mergeNodes).toHaveBeenCalledWith("Class", expect.arrayContaining([
+      expect.objectContaining({ props: expect.objectContaining({ decorators: JSON.stringify(['@Controller("cats")']) }) }),
+    ]));
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("Function", "Decorator", "DECORATED_BY", [
+      { from: { name: "find", path, line_number: 4 }, to: { name: "Get" }, props: { arguments: '":id"' } },
+    ]);
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("Class", "Decorator", "DECORATED_BY", [
+      { from: { name: "Cats", path, line_number: 2 }, to: { name: "Controller" }, props: { arguments: '"cats"' } },
+      { from: { name: "Api", path, line_number: 7 }, to: { name: "Route" }, props: { arguments: "'/api'" } },
+      { from: { name: "Api", path, line_number: 7 }, to: { name: "Cached" }, props: { arguments: undefined } },
+    ]);
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("Property", "Decorator", "DECORATED_BY", [
+      { from: { name: "repo", class_name: "Cats", path }, to: { name: "Inject" }, props: { arguments: "" } },
+    ]);
+  });
+
+  it("links functions to the JSX components they render, under the components' own names", async () => {
+    parser = createMockParser({
+      path: "/project/src/Page.jsx",
+      functions: [
+        { name: "Page", lineNumber: 3, endLine: 8, args: [], cyclomaticComplexity: 1 },
+        { name: "Footer", lineNumber: 9, endLine: 9, args: [], cyclomaticComplexity: 1 },
+      ],
+      imports: [
+        { name: "Dialog", alias: "Modal", source: "./Modal", lineNumber: 1 },
+        { name: "Btn", source: "./Button", lineNumber: 2, isDefault: true },
+      ],
+      renders: [
+        { component: "Dialog", lineNumber: 4, props: ["isOpen", "onClose"], callerName: "Page", callerLineNumber: 3 },
+        { component: "Footer", lineNumber: 5, props: [], callerName: "Page", callerLineNumber: 3 },
+        { component: "Missing", lineNumber: 6, props: [], callerName: "Page", callerLineNumber: 3 },
+        { component: "Btn", lineNumber: 7, props: ["label"], callerName: "Page", callerLineNumber: 3 },
+        { component: "Dialog", lineNumber: 11, props: [] },
+      ],
+    }, [".jsx"]);
+    vi.mocked(parser.preScan).mockReturnValue(new Map([
+      ["Modal", [{ filePath: "/project/src/Modal.jsx", lineNumber: 2 }]],
+      ["Button", [{ filePath: "/project/src/Button.jsx", lineNumber: 1 }]],
+      ["default", [{ filePath: "/project/src/Button.jsx", lineNumber: 1, exportOf: "Button" }]],
+    ]));
+    fs = createMockFs({ "/project/src/Page.jsx": "" });
+    const files = ["/project/src/Page.jsx", "/project/src/Modal.jsx", "/project/src/Button.jsx"];
+    vi.mocked(fs.exists).mockImplementation((path: string) => files.includes(path));
+    service = new IndexCodeService(fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger);
+
+    await service.indexDirectory("/project");
+
+    const renderQuery = vi.mocked(graph.runQuery).mock.calls.find((c) => c[0].includes("RENDERS"));
+    expect(renderQuery?.[1]).toEqual({
+      path: "/project/src/Page.jsx",
+      rows: [
+        { callerName: "Page", component: "Modal", targetPath: "/project/src/Modal.jsx", line: 4, props: ["isOpen", "onClose"] },
+        { callerName: "Page", component: "Footer", targetPath: "/project/src/Page.jsx", line: 5, props: [] },
+        { callerName: "Page", component: "Button", targetPath: "/project/src/Button.jsx", line: 7, props: ["label"] },
+      ],
+    });
+  });
+
+  it("writes routes and links them to the functions handling them", async () => {
+    parser = createMockParser({
+      path: "/project/routes/web.php",
+      lang: "php",
+      functions: [],
+      imports: [{ name: "UserController", source: "App\\Http\\Controllers\\UserController", lineNumber: 2 }],
+      calls: [
+        { name: "get", lineNumber: 3, args: ["'/users'", "[UserController::class, 'index']"], fullCallName: "Route::get", inferredObjType: "Route" },
+        { name: "post", lineNumber: 4, args: ["'/users'", "'UserController@store'"], fullCallName: "Route::post", inferredObjType: "Route" },
+        { name: "get", lineNumber: 5, args: ["'/up'", "function () {}"], fullCallName: "Route::get", inferredObjType: "Route" },
+      ],
+    }, [".php"]);
+    vi.mocked(parser.preScan).mockReturnValue(new Map([
+      ["index", [{ filePath: "/project/app/Http/Controllers/UserController.php", lineNumber: 8, fqn: "App\\Http\\Controllers\\UserController::index" }]],
+      ["store", [{ filePath: "/project/app/Http/Controllers/UserController.php", lineNumber: 12, fqn: "App\\Http\\Controllers\\UserController::store" }]],
+    ]));
+    fs = createMockFs({ "/project/routes/web.php": "" });
+    service = new IndexCodeService(fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger);
+
+    await service.indexDirectory("/project");
+
+    const file_path = "/project/routes/web.php";
+    expect(graph.mergeNodes).toHaveBeenCalledWith("Route", [
+      { key: { method: "GET", path: "/users", file_path, line_number: 3 }, props: { framework: "laravel", handler: "UserController@index", repo_path: "/project" } },
+      { key: { method: "POST", path: "/users", file_path, line_number: 4 }, props: { framework: "laravel", handler: "UserController@store", repo_path: "/project" } },
+      { key: { method: "GET", path: "/up", file_path, line_number: 5 }, props: { framework: "laravel", handler: undefined, repo_path: "/project" } },
+    ]);
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("File", "Route", "CONTAINS", [
+      expect.objectContaining({ to: { method: "GET", path: "/users", file_path, line_number: 3 } }),
+      expect.objectContaining({ to: { method: "POST", path: "/users", file_path, line_number: 4 } }),
+      expect.objectContaining({ to: { method: "GET", path: "/up", file_path, line_number: 5 } }),
+    ]);
+    const controller = "/project/app/Http/Controllers/UserController.php";
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("Route", "Function", "HANDLED_BY", [
+      { from: { method: "GET", path: "/users", file_path, line_number: 3 }, to: { name: "index", path: controller, line_number: 8 } },
+      { from: { method: "POST", path: "/users", file_path, line_number: 4 }, to: { name: "store", path: controller, line_number: 12 } },
+    ]);
+  });
+
+  it("links exports to their definitions across re-exports", async () => {
+    parser = createMockParser({
+      path: "/project/index.js",
+      functions: [{ name: "main", lineNumber: 1, endLine: 1, args: [], cyclomaticComplexity: 1 }],
+      exports: [
+        { name: "main", lineNumber: 1 },
+        { name: "default", localName: "main", lineNumber: 2 },
+        { name: "read", localName: "parse", source: "./parse.js", lineNumber: 3 },
+        { name: "*", source: "./util", lineNumber: 4 },
+      ],
+    });
+    vi.mocked(parser.preScan).mockReturnValue(
+      new Map([
+        ["parse", [{ filePath: "/project/parse.js", lineNumber: 5 }]],
+        ["read", [{ filePath: "/project/index.js", lineNumber: 3, exportOf: "parse", from: "./parse.js" }]],
+      ]),
     );
+    fs = createMockFs({ "/project/index.js": "" });
+    vi.mocked(fs.exists).mockImplementation((path: string) => ["/project/index.js", "/project/util/index.js"].includes(path));
+    service = new IndexCodeService(fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger);
+
+    await service.indexDirectory("/project");
+
+    expect(graph.mergeNodes).toHaveBeenCalledWith("File", [
+      expect.objectContaining({ props: expect.objectContaining({ exports: expect.stringContaining('"read"') }) }),
+    ]);
+    const exportQueries = vi.mocked(graph.runQuery).mock.calls.filter((c) => c[0].includes("EXPORTS"));
+    expect(exportQueries).toHaveLength(2);
+    expect(exportQueries[0][1]?.rows).toEqual([
+      { name: "main", symbol: "main", symbolPath: "/project/index.js" },
+      { name: "default", symbol: "main", symbolPath: "/project/index.js" },
+      { name: "read", symbol: "parse", symbolPath: "/project/parse.js" },
+    ]);
+    expect(exportQueries[1][1]?.rows).toEqual([{ target: "/project/util/index.js" }]);
+  });
+
+  it("links imports of repository files to their File nodes and keeps Module nodes for packages", async () => {
+    parser = createMockParser({
+      path: "/project/src/app.js",
+      imports: [
+        { name: "helper", source: "./utils.js", lineNumber: 1 },
+        { name: "other", source: "./utils", lineNumber: 2 },
+        { name: "Page", source: "./pages", lineNumber: 3, isDynamic: true },
+        { name: "missing", source: "./missing", lineNumber: 4 },
+        { name: "self", source: "my-app/lib", lineNumber: 5 },
+        { name: "express", source: "express", lineNumber: 6, isDefault: true },
+      ],
+    }, [".js", ".jsx", ".ts"]);
+    const files = ["/project/src/app.js", "/project/src/utils.ts", "/project/src/pages/index.jsx", "/project/src/lib/index.js"];
+    fs = createMockFs({
+      "/project/src/app.js": "",
+      "/project/package.json": JSON.stringify({ name: "my-app", exports: { "./*": "./src/*/index.js" } }),
+    });
+    vi.mocked(fs.exists).mockImplementation((path: string) => path === "/project/package.json" || files.includes(path));
+    service = new IndexCodeService(fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger);
+
+    await service.indexDirectory("/project");
+
+    expect(graph.mergeNodes).toHaveBeenCalledWith("Module", [{ key: { name: "express" } }]);
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("File", "Module", "IMPORTS", [
+      expect.objectContaining({ to: { name: "express" } }),
+    ]);
+    const from = { path: "/project/src/app.js" };
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("File", "File", "IMPORTS_FILE", [
+      { from, to: { path: "/project/src/utils.ts" }, props: { imported_names: ["helper", "other"], line_number: 1, is_dynamic: undefined } },
+      { from, to: { path: "/project/src/pages/index.jsx" }, props: { imported_names: ["Page"], line_number: 3, is_dynamic: true } },
+      { from, to: { path: "/project/src/lib/index.js" }, props: { imported_names: ["self"], line_number: 5, is_dynamic: undefined } },
+    ]);
+  });
+
+  it("writes workspace packages and resolves calls into them", async () => {
+    parser = createMockParser({
+      path: "/project/apps/web/src/app.ts",
+      imports: [{ name: "Button", source: "@acme/ui", lineNumber: 1 }],
+      calls: [{ name: "Button", lineNumber: 3, args: [], callerName: "main" }],
+    }, [".ts"]);
+    vi.mocked(parser.preScan).mockReturnValue(new Map([
+      ["Button", [
+        { filePath: "/project/apps/web/src/button.ts", lineNumber: 1 },
+        { filePath: "/project/packages/ui/src/index.ts", lineNumber: 1, exportOf: "Button", from: "./button" },
+        { filePath: "/project/packages/ui/src/button.ts", lineNumber: 2 },
+      ]],
+    ]));
+    const sources = ["/project/apps/web/src/app.ts", "/project/packages/ui/src/index.ts", "/project/packages/ui/src/button.ts"];
+    fs = createMockFs({
+      "/project/apps/web/src/app.ts": "",
+      "/project/package.json": JSON.stringify({ name: "monorepo", private: true, workspaces: ["apps/*", "packages/*"] }),
+      "/project/apps/web/package.json": JSON.stringify({ name: "web" }),
+      "/project/packages/ui/package.json": JSON.stringify({ name: "@acme/ui", version: "2.0.0", main: "src/index.ts" }),
+    });
+    vi.mocked(fs.exists).mockImplementation((path: string) => path.endsWith("package.json") || sources.includes(path));
+    service = new IndexCodeService(fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger);
+
+    await service.indexDirectory("/project");
+
+    expect(graph.mergeNodes).toHaveBeenCalledWith("Package", [
+      { key: { path: "/project" }, props: { name: "monorepo", version: undefined, repo_path: "/project" } },
+      { key: { path: "/project/apps/web" }, props: { name: "web", version: undefined, repo_path: "/project" } },
+      { key: { path: "/project/packages/ui" }, props: { name: "@acme/ui", version: "2.0.0", repo_path: "/project" } },
+    ]);
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("Repository", "Package", "HAS_PACKAGE", [
+      { from: { path: "/project" }, to: { path: "/project" } },
+      { from: { path: "/project" }, to: { path: "/project/apps/web" } },
+      { from: { path: "/project" }, to: { path: "/project/packages/ui" } },
+    ]);
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("Package", "File", "CONTAINS_FILE", [
+      { from: { path: "/project/apps/web" }, to: { path: "/project/apps/web/src/app.ts" } },
+    ]);
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("Function", "Function", "CALLS", [
+      {
+        from: { name: "main", path: "/project/apps/web/src/app.ts" },
+        to: { name: "Button", path: "/project/packages/ui/src/button.ts", line_number: 2 },
+        props: { line_number: 3 },
+      },
+    ]);
+  });
+
+  it("resolves PHP inheritance, calls and uses by fully-qualified name", async () => {
+    parser = createMockParser({
+      path: "/project/app/Http/UserController.php",
+      lang: "php",
+      functions: [{
+        name: "index", lineNumber: 6, endLine: 8, args: [], cyclomaticComplexity: 1,
+        classContext: "UserController", isMethod: true, namespace: "App\\Http", fqn: "App\\Http\\UserController::index",
+      }],
+      classes: [{
+        name: "UserController", lineNumber: 5, endLine: 9, bases: ["Controller"],
+        namespace: "App\\Http", fqn: "App\\Http\\UserController",
+      }],
+      imports: [
+        { name: "Controller", source: "App\\Base\\Controller", lineNumber: 3 },
+        { name: "User", source: "App\\Models\\User", lineNumber: 4 },
+      ],
+      calls: [
+        { name: "find", lineNumber: 7, args: [], callerName: "index", callerLineNumber: 6, fullCallName: "User::find", inferredObjType: "User" },
+        { name: "all", lineNumber: 7, args: [], callerName: "index", callerLineNumber: 6, fullCallName: "User::all", inferredObjType: "User" },
+      ],
+    }, [".php"]);
+    vi.mocked(parser.preScan).mockReturnValue(new Map([
+      ["find", [
+        { filePath: "/project/app/Models/Post.php", lineNumber: 3, fqn: "App\\Models\\Post::find" },
+        { filePath: "/project/app/Models/User.php", lineNumber: 5, fqn: "App\\Models\\User::find" },
+      ]],
+    ]));
+    const files = ["/project/app/Http/UserController.php", "/project/app/Models/User.php", "/project/app/Base/Controller.php"];
+    fs = createMockFs({
+      "/project/app/Http/UserController.php": "",
+      "/project/composer.json": JSON.stringify({ autoload: { "psr-4": { "App\\": "app/" } } }),
+    });
+    vi.mocked(fs.exists).mockImplementation((path: string) => path === "/project/composer.json" || files.includes(path));
+    service = new IndexCodeService(fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger);
+
+    await service.indexDirectory("/project");
+
+    expect(graph.mergeNodes).toHaveBeenCalledWith("Class", [
+      expect.objectContaining({ props: expect.objectContaining({ fqn: "App\\Http\\UserController" }) }),
+    ]);
+    const inheritQuery = vi.mocked(graph.runQuery).mock.calls.find((c) => c[0].includes("INHERITS"));
+    expect(inheritQuery?.[1]?.rows).toEqual([
+      { childName: "UserController", childLine: 5, parentName: "Controller", parentFqn: "App\\Base\\Controller" },
+    ]);
+    const from = { name: "index", path: "/project/app/Http/UserController.php" };
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("Function", "Function", "CALLS", [
+      { from, to: { name: "find", path: "/project/app/Models/User.php", line_number: 5 }, props: { line_number: 7 } },
+      { from, to: { name: "all", path: "/project/app/Models/User.php" }, props: { line_number: 7 } },
+    ]);
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("File", "File", "IMPORTS_FILE", [
+      expect.objectContaining({ to: { path: "/project/app/Base/Controller.php" } }),
+      expect.objectContaining({ to: { path: "/project/app/Models/User.php" } }),
+    ]);
+    expect(graph.mergeNodes).toHaveBeenCalledWith("Module", []);
+  });
+
+  it("links PHP trait uses and resolves self, static and parent calls along the class chain", async () => {
+    parser = createMockParser({
+      path: "/project/Post.php",
+      lang: "php",
+      functions: [
+        { name: "__construct", lineNumber: 4, endLine: 8, args: [], cyclomaticComplexity: 1, classContext: "Post", isMethod: true },
+        { name: "helper", lineNumber: 11, endLine: 11, args: [], cyclomaticComplexity: 1 },
+      ],
+      classes: [{ name: "Post", lineNumber: 2, endLine: 9, bases: ["Model"], traits: ["HasTags"], namespace: "App", fqn: "App\\Post" }],
+      calls: [
+        { name: "__construct", lineNumber: 5, args: [], callerName: "__construct", callerLineNumber: 4, fullCallName: "parent::__construct", inferredObjType: "parent" },
+        { name: "boot", lineNumber: 6, args: [], callerName: "__construct", callerLineNumber: 4, fullCallName: "static::boot", inferredObjType: "static" },
+        { name: "helper", lineNumber: 7, args: [], callerName: "__construct", callerLineNumber: 4, fullCallName: "self::helper", inferredObjType: "self" },
+      ],
+    }, [".php"]);
+    fs = createMockFs({ "/project/Post.php": "" });
+    service = new IndexCodeService(fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger);
+
+    await service.indexDirectory("/project");
+
+    const queries = vi.mocked(graph.runQuery).mock.calls;
+    const traitQuery = queries.find((c) => c[0].includes("USES_TRAIT]->(trait)"));
+    expect(traitQuery?.[1]?.rows).toEqual([
+      { childName: "Post", childLine: 2, traitName: "HasTags", traitFqn: "App\\HasTags" },
+    ]);
+    const scopedQuery = queries.find((c) => c[0].includes("INHERITS|USES_TRAIT*0.."));
+    const call = { callerName: "__construct", callerLine: 4, className: "Post", classLine: 2 };
+    expect(scopedQuery?.[1]?.rows).toEqual([
+      { ...call, scope: "parent", method: "__construct", line: 5 },
+      { ...call, scope: "static", method: "boot", line: 6 },
+      { ...call, scope: "self", method: "helper", line: 7 },
+    ]);
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("Function", "Function", "CALLS", []);
   });
 
   it("marks job as failed on error", async () => {
@@ -134,6 +747,395 @@ describe("IndexCodeService", () => {
     expect(result).toBeNull();
   });
 
+  it("routes each file to the parser registered for its extension", async () => {
+    const phpParser = createMockParser({ path: "/project/User.php", lang: "php" }, [".php"]);
+    fs = createMockFs({
+      "/project/test.js": "export function foo() {}",
+      "/project/User.php": "<?php class User {}",
+    });
+    service = new IndexCodeService(
+      fs, graph, new ParserRegistry([parser, phpParser]), mockDescribeCode, jobStore, logger,
+    );
+
+    const jobId = await service.indexDirectory("/project");
+
+    expect(jobStore.get(jobId)?.filesTotal).toBe(2);
+    expect(parser.parse).toHaveBeenCalledWith(expect.any(String), "/project/test.js", false);
+    expect(phpParser.parse).toHaveBeenCalledWith(expect.any(String), "/project/User.php", false);
+  });
+
+  it("parses each dirty file once for both structure and symbols", async () => {
+    await service.indexDirectory("/project");
+    expect(parser.parseWithSymbols).toHaveBeenCalledTimes(1);
+    expect(parser.parse).toHaveBeenCalledTimes(1);
+  });
+
+  it("parses through the parser pool when one is given", async () => {
+    const parsed = createMockParser().parse("", "/project/test.js");
+    const pool = {
+      parse: vi.fn().mockResolvedValue({ parsed, symbols: new Map() }),
+      close: vi.fn(),
+    };
+    service = new IndexCodeService(fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger, pool);
+
+    await service.indexDirectory("/project");
+
+    expect(pool.parse).toHaveBeenCalledWith("/project/test.js", "export function foo() {}", false);
+    expect(parser.parseWithSymbols).not.toHaveBeenCalled();
+    expect(graph.mergeNodes).toHaveBeenCalledWith("Function", [
+      expect.objectContaining({ key: expect.objectContaining({ name: "foo" }) }),
+    ]);
+  });
+
+  it("collects files for every registered extension", async () => {
+    const phpParser = createMockParser({ lang: "php" }, [".php"]);
+    service = new IndexCodeService(
+      fs, graph, new ParserRegistry([parser, phpParser]), mockDescribeCode, jobStore, logger,
+    );
+    await service.collectFiles("/project");
+    expect(fs.glob).toHaveBeenCalledWith(["**/*.js", "**/*.php"], expect.any(Object));
+  });
+
+  it("removes graph data for files that no longer exist on disk", async () => {
+    vi.mocked(graph.getRepositoryFileHashes).mockResolvedValue({
+      "/project/test.js": "stale-hash",
+      "/project/moved.js": "hash",
+    });
+    const jobId = await service.indexDirectory("/project");
+
+    expect(graph.deleteFileNodes).toHaveBeenCalledWith("/project/moved.js");
+    expect(jobStore.get(jobId)?.filesRemoved).toBe(1);
+  });
+
+  it("removes every indexed file when the directory is now empty", async () => {
+    fs = createMockFs({});
+    vi.mocked(graph.getRepositoryFileHashes).mockResolvedValue({ "/project/gone.js": "hash" });
+    service = new IndexCodeService(fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger);
+
+    const jobId = await service.indexDirectory("/project");
+
+    expect(graph.deleteFileNodes).toHaveBeenCalledWith("/project/gone.js");
+    expect(jobStore.get(jobId)).toMatchObject({ status: "completed", filesTotal: 0, filesRemoved: 1 });
+  });
+
+  it("relinks unchanged files that point into a rewritten file", async () => {
+    const appSource = 'import { helper } from "./utils.js";';
+    const appHash = gitBlobId(appSource);
+    fs = createMockFs({ "/project/src/app.js": appSource, "/project/src/utils.js": "export function helper() {}" });
+    vi.mocked(parser.parse).mockImplementation((_source: string, filePath: string) => ({
+      path: filePath,
+      repoPath: "",
+      lang: "javascript",
+      functions: filePath.endsWith("utils.js")
+        ? [{ name: "helper", lineNumber: 1, endLine: 1, args: [], cyclomaticComplexity: 1 }]
+        : [],
+      classes: [],
+      imports: filePath.endsWith("app.js") ? [{ name: "helper", source: "./utils.js", lineNumber: 1 }] : [],
+      calls: [],
+      variables: [],
+    }));
+    vi.mocked(graph.getRepositoryFileHashes).mockResolvedValue({
+      "/project/src/app.js": appHash,
+      "/project/src/utils.js": "stale-hash",
+    });
+    vi.mocked(graph.getRepositoryFilePhases).mockResolvedValue({ "/project/src/app.js": "described" });
+    vi.mocked(graph.runQuery).mockImplementation(async (cypher: string, params?: { paths?: string[] }) =>
+      cypher.includes("CONTAINS*0..1") && params?.paths?.includes("/project/src/utils.js")
+        ? [{ path: "/project/src/app.js" }]
+        : []);
+    service = new IndexCodeService(fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger);
+
+    await service.indexDirectory("/project");
+
+    expect(graph.deleteFileNodes).toHaveBeenCalledWith("/project/src/utils.js");
+    expect(graph.deleteFileNodes).not.toHaveBeenCalledWith("/project/src/app.js");
+    expect(graph.mergeRelationships).toHaveBeenCalledWith("File", "File", "IMPORTS_FILE", [
+      expect.objectContaining({ from: { path: "/project/src/app.js" }, to: { path: "/project/src/utils.js" } }),
+    ]);
+    expect(graph.setFilePhase).toHaveBeenCalledWith(["/project/src/utils.js"], "linked");
+    expect(graph.setFilePhase).not.toHaveBeenCalledWith(expect.arrayContaining(["/project/src/app.js"]), "linked");
+  });
+
+  describe("checkpoints", () => {
+    const source = "export function foo() {}";
+    const hash = gitBlobId(source);
+
+    beforeEach(() => {
+      mockDescribeCode.describeFile.mockClear();
+      vi.mocked(graph.getRepositoryFileHashes).mockResolvedValue({ "/project/test.js": hash });
+    });
+
+    it("records every phase a file completes", async () => {
+      vi.mocked(graph.getRepositoryFileHashes).mockResolvedValue({});
+      const jobId = await service.indexDirectory("/project");
+
+      expect(graph.mergeNodes).toHaveBeenCalledWith("File", [
+        expect.objectContaining({ props: expect.objectContaining({ index_phase: "parsed" }) }),
+      ]);
+      expect(graph.setFilePhase).toHaveBeenCalledWith(["/project/test.js"], "linked");
+      expect(graph.setFilePhase).toHaveBeenCalledWith(["/project/test.js"], "described");
+      expect(jobStore.get(jobId)?.checkpoints).toEqual({ "/project/test.js": "described" });
+    });
+
+    it("resumes linking and describing for unchanged files left at 'parsed'", async () => {
+      vi.mocked(graph.getRepositoryFilePhases).mockResolvedValue({ "/project/test.js": "parsed" });
+      await service.indexDirectory("/project");
+
+      expect(graph.deleteFileNodes).not.toHaveBeenCalled();
+      expect(parser.parse).toHaveBeenCalled();
+      expect(graph.mergeRelationships).toHaveBeenCalledWith("Function", "Function", "CALLS", []);
+      expect(graph.setFilePhase).toHaveBeenCalledWith(["/project/test.js"], "linked");
+      expect(mockDescribeCode.describeFile).toHaveBeenCalled();
+    });
+
+    it("only describes unchanged files left at 'linked'", async () => {
+      vi.mocked(graph.getRepositoryFilePhases).mockResolvedValue({ "/project/test.js": "linked" });
+      await service.indexDirectory("/project");
+
+      expect(graph.mergeRelationships).not.toHaveBeenCalled();
+      expect(mockDescribeCode.describeFile).toHaveBeenCalled();
+      expect(graph.setFilePhase).toHaveBeenCalledWith(["/project/test.js"], "described");
+    });
+
+    it("skips unchanged files that completed every phase", async () => {
+      vi.mocked(graph.getRepositoryFilePhases).mockResolvedValue({ "/project/test.js": "described" });
+      await service.indexDirectory("/project");
+
+      expect(parser.parse).not.toHaveBeenCalled();
+      expect(mockDescribeCode.describeFile).not.toHaveBeenCalled();
+    });
+
+    it("leaves the checkpoint at 'parsed' when linking fails", async () => {
+      vi.mocked(graph.getRepositoryFileHashes).mockResolvedValue({});
+      vi.mocked(graph.executeBatch).mockImplementation(async (fn: () => Promise<void>) => fn());
+      vi.mocked(graph.runQuery).mockResolvedValue([]);
+      vi.mocked(graph.mergeRelationships).mockImplementation(async (_f: string, _t: string, rel: string) => {
+        if (rel === "CALLS") throw new Error("Neo4j restarted");
+      });
+      const jobId = await service.indexDirectory("/project");
+
+      expect(graph.setFilePhase).not.toHaveBeenCalledWith(["/project/test.js"], "linked");
+      expect(graph.setFilePhase).not.toHaveBeenCalledWith(["/project/test.js"], "described");
+      expect(jobStore.get(jobId)?.checkpoints).toEqual({ "/project/test.js": "parsed" });
+    });
+  });
+
+  describe("cancellation", () => {
+    it("stops after the current file and leaves it at its checkpoint", async () => {
+      mockDescribeCode.describeDirectory.mockClear();
+      vi.mocked(graph.deleteFileNodes).mockImplementation(async () => {
+        const running = jobStore.getAll().find((j) => j.status === "running")!;
+        jobStore.cancel(running.id);
+      });
+      const jobId = await service.indexDirectory("/project");
+      const job = jobStore.get(jobId);
+
+      expect(job?.status).toBe("cancelled");
+      expect(job?.completedAt).toBeInstanceOf(Date);
+      expect(job?.checkpoints).toEqual({ "/project/test.js": "parsed" });
+      expect(graph.mergeRelationships).not.toHaveBeenCalledWith("Function", "Function", "CALLS", expect.anything());
+      expect(mockDescribeCode.describeDirectory).not.toHaveBeenCalled();
+    });
+
+    it("cannot cancel a job that already finished", async () => {
+      const jobId = await service.indexDirectory("/project");
+      expect(jobStore.cancel(jobId)).toBe(false);
+      expect(jobStore.get(jobId)?.status).toBe("completed");
+    });
+  });
+
+  describe("git revisions", () => {
+    function revisionService() {
+      const revisionFs = {
+        ...createMockFs({ "/project/test.js": "export function foo() {}" }),
+        revision: { commit: "a1b2c3", ref: "main" },
+      };
+      const revisions = { open: vi.fn().mockResolvedValue(revisionFs) };
+      service = new IndexCodeService(
+        fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger, undefined, revisions,
+      );
+      return { revisions, revisionFs };
+    }
+
+    it("reads files from the revision and records its commit", async () => {
+      const { revisions, revisionFs } = revisionService();
+      const jobId = await service.indexDirectory("/project", false, { ref: "main" });
+
+      expect(revisions.open).toHaveBeenCalledWith("/project", "main");
+      expect(revisionFs.readFile).toHaveBeenCalledWith("/project/test.js");
+      expect(fs.readFile).not.toHaveBeenCalled();
+      expect(graph.mergeNodes).toHaveBeenCalledWith("Repository", [
+        { key: { path: "/project" }, props: { name: "project", commit_sha: "a1b2c3", ref: "main" } },
+      ]);
+      expect(jobStore.get(jobId)).toMatchObject({ status: "completed", ref: "main", commit: "a1b2c3" });
+    });
+
+    it("hashes revision files by their blob id without reading them", async () => {
+      const { revisionFs } = revisionService();
+      const blobId = vi.fn(() => "blob-sha");
+      const close = vi.fn().mockResolvedValue(undefined);
+      Object.assign(revisionFs, { blobId, close });
+      vi.mocked(graph.getRepositoryFileHashes).mockResolvedValue({ "/project/test.js": "blob-sha" });
+
+      await service.indexDirectory("/project", false, { ref: "main" });
+
+      expect(blobId).toHaveBeenCalledWith("/project/test.js");
+      expect(revisionFs.readFile).not.toHaveBeenCalled();
+      expect(close).toHaveBeenCalled();
+    });
+
+    it("clears the recorded commit when indexing the working tree", async () => {
+      await service.indexDirectory("/project");
+      expect(graph.mergeNodes).toHaveBeenCalledWith("Repository", [
+        { key: { path: "/project" }, props: { name: "project", commit_sha: null, ref: null } },
+      ]);
+    });
+
+    it("fails the job when no revision source is configured", async () => {
+      const jobId = await service.indexDirectory("/project", false, { ref: "main" });
+      expect(jobStore.get(jobId)).toMatchObject({ status: "failed", ref: "main", error: expect.stringMatching(/git revision/) });
+    });
+
+    it("records a failed job for a revision git cannot open", async () => {
+      const { revisions } = revisionService();
+      revisions.open.mockRejectedValue(new Error('Unknown git revision "nope" in /project'));
+
+      const jobId = await service.indexDirectory("/project", false, { ref: "nope" });
+
+      expect(jobStore.get(jobId)).toMatchObject({
+        status: "failed",
+        ref: "nope",
+        error: 'Error: Unknown git revision "nope" in /project',
+      });
+      expect(jobStore.get(jobId)?.completedAt).toBeInstanceOf(Date);
+      expect(graph.mergeNodes).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("planIndex", () => {
+    const sha = (text: string) => crypto.createHash("sha256").update(text).digest("hex");
+
+    beforeEach(() => {
+      mockDescribeCode.describeFile.mockClear();
+      fs = createMockFs({
+        "/project/changed.js": "function foo() { return 2; }",
+        "/project/same.js": "function bar() {}",
+      });
+      parser = createMockParser({
+        functions: [
+          { name: "foo", lineNumber: 1, endLine: 1, args: [], cyclomaticComplexity: 1, source: "function foo() { return 2; }" },
+          { name: "kept", lineNumber: 2, endLine: 2, args: [], cyclomaticComplexity: 1, source: "function kept() {}" },
+        ],
+      });
+      service = new IndexCodeService(fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger);
+      vi.mocked(graph.getRepositoryFileHashes).mockResolvedValue({
+        "/project/changed.js": "stale",
+        "/project/same.js": gitBlobId("function bar() {}"),
+        "/project/gone.js": "whatever",
+      });
+      vi.mocked(graph.runQuery).mockResolvedValue([
+        { path: "/project/changed.js", name: "foo", hash: sha("function foo() { return 1; }") },
+        { path: "/project/changed.js", name: "kept", hash: sha("function kept() {}") },
+      ]);
+    });
+
+    it("lists dirty, unchanged and deleted files with a language breakdown", async () => {
+      const plan = await service.planIndex("/project");
+
+      expect(plan.dirtyFiles).toEqual(["/project/changed.js"]);
+      expect(plan.unchangedFiles).toEqual(["/project/same.js"]);
+      expect(plan.deletedFiles).toEqual(["/project/gone.js"]);
+      expect(plan.languages).toEqual({ javascript: { files: 2, dirty: 1 } });
+    });
+
+    it("estimates symbols whose source changed since their description", async () => {
+      const plan = await service.planIndex("/project");
+      expect(plan.descriptions).toEqual({ enabled: true, files: 1, symbols: 1 });
+    });
+
+    it("neither writes to the graph nor calls the describer", async () => {
+      await service.planIndex("/project");
+
+      expect(graph.ensureSchema).not.toHaveBeenCalled();
+      expect(graph.mergeNodes).not.toHaveBeenCalled();
+      expect(graph.mergeRelationships).not.toHaveBeenCalled();
+      expect(graph.deleteFileNodes).not.toHaveBeenCalled();
+      expect(graph.setFilePhase).not.toHaveBeenCalled();
+      expect(graph.executeBatch).not.toHaveBeenCalled();
+      expect(mockDescribeCode.describeFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe(".codegraph.json", () => {
+    beforeEach(() => {
+      mockDescribeCode.describeFile.mockClear();
+      mockDescribeCode.describeDirectory.mockClear();
+    });
+
+    function withConfig(config: object, files: Record<string, string> = {}) {
+      fs = createMockFs({ ...files, "/project/.codegraph.json": JSON.stringify(config) });
+      service = new IndexCodeService(fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger);
+    }
+
+    it("collects files with the configured include and exclude globs", async () => {
+      withConfig({ include: ["src/**"], exclude: ["**/*.spec.js"] }, {
+        "/project/src/a.js": "",
+        "/project/src/a.spec.js": "",
+        "/project/scripts/b.js": "",
+      });
+      const files = await service.collectFiles("/project");
+
+      expect(fs.glob).toHaveBeenCalledWith(["src/**"], expect.objectContaining({
+        ignore: expect.arrayContaining(["**/node_modules/**", "**/*.spec.js"]),
+      }));
+      expect(files).toEqual(["/project/src/a.js"]);
+    });
+
+    it("skips disabled languages and files over the size limit", async () => {
+      const phpParser = createMockParser({ lang: "php" }, [".php"]);
+      fs = createMockFs({
+        "/project/.codegraph.json": JSON.stringify({ languages: ["javascript"], maxFileSize: 10 }),
+        "/project/small.js": "x()",
+        "/project/big.js": "x".repeat(11),
+        "/project/User.php": "<?php",
+      });
+      service = new IndexCodeService(fs, graph, new ParserRegistry([parser, phpParser]), mockDescribeCode, jobStore, logger);
+
+      expect(await service.collectFiles("/project")).toEqual(["/project/small.js"]);
+    });
+
+    it("skips descriptions when disabled and takes the dependency mode from the config", async () => {
+      withConfig({ descriptions: false, dependency: true }, { "/project/test.js": "export function foo() {}" });
+      const jobId = await service.indexDirectory("/project");
+
+      expect(parser.parse).toHaveBeenCalledWith(expect.any(String), "/project/test.js", true);
+      expect(mockDescribeCode.describeFile).not.toHaveBeenCalled();
+      expect(mockDescribeCode.describeDirectory).not.toHaveBeenCalled();
+      expect(jobStore.get(jobId)?.checkpoints).toEqual({ "/project/test.js": "linked" });
+    });
+
+    it("does not resume linked files when descriptions are disabled", async () => {
+      const source = "export function foo() {}";
+      withConfig({ descriptions: false }, { "/project/test.js": source });
+      vi.mocked(graph.getRepositoryFileHashes).mockResolvedValue({
+        "/project/test.js": gitBlobId(source),
+      });
+      vi.mocked(graph.getRepositoryFilePhases).mockResolvedValue({ "/project/test.js": "linked" });
+
+      await service.indexDirectory("/project");
+      expect(parser.parse).not.toHaveBeenCalled();
+    });
+
+    it("fails the job on an invalid config", async () => {
+      fs = createMockFs({ "/project/.codegraph.json": "{ nope" });
+      service = new IndexCodeService(fs, graph, new ParserRegistry([parser]), mockDescribeCode, jobStore, logger);
+
+      const jobId = await service.indexDirectory("/project");
+      expect(jobStore.get(jobId)?.status).toBe("failed");
+      expect(jobStore.get(jobId)?.error).toContain(".codegraph.json");
+    });
+  });
+
   it("removeFile delegates to graph.deleteFileNodes", async () => {
     await service.removeFile("/project/test.js");
     expect(graph.deleteFileNodes).toHaveBeenCalledWith("/project/test.js");
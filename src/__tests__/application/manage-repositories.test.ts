@@ -8,6 +8,9 @@ function mockGraphRepository(): GraphRepository {
     ensureSchema: vi.fn(),
     mergeNode: vi.fn(),
     mergeRelationship: vi.fn(),
+    mergeNodes: vi.fn(),
+    mergeRelationships: vi.fn(),
+    setFilePhase: vi.fn(),
     deleteFileNodes: vi.fn(),
     deleteRepository: vi.fn(),
     deleteAll: vi.fn(),
@@ -19,6 +22,7 @@ function mockGraphRepository(): GraphRepository {
     vectorSearch: vi.fn(),
     getContentHash: vi.fn(),
     getRepositoryFileHashes: vi.fn().mockResolvedValue({}),
+    getRepositoryFilePhases: vi.fn().mockResolvedValue({}),
     getImportsMapForFiles: vi.fn().mockResolvedValue(new Map()),
   };
 }
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from "vitest";
+import { loadRepoConfig, createRepoFileFilter } from "../../application/repo-config.js";
+import { createDefaultParserRegistry } from "../../domain/parsers/parser-registry.js";
+import type { FileSystem } from "../../domain/ports.js";
+
+function createMockFs(files: Record<string, string> = {}): FileSystem {
+  return {
+    readFile: vi.fn(async (path: string) => files[path] ?? ""),
+    exists: vi.fn((path: string) => path in files),
+    fileSize: vi.fn(async (path: string) => (files[path] ?? "").length),
+    glob: vi.fn().mockResolvedValue(Object.keys(files)),
+  };
+}
+
+describe("loadRepoConfig", () => {
+  it("returns defaults when the repo has no .codegraph.json", async () => {
+    const config = await loadRepoConfig(createMockFs(), "/repo");
+    expect(config).toEqual({ exclude: [], descriptions: true, dependency: false });
+  });
+
+  it("reads every supported setting", async () => {
+    const fs = createMockFs({
+      "/repo/.codegraph.json": JSON.stringify({
+        include: ["src/**"],
+        exclude: ["**/*.test.ts"],
+        languages: ["typescript"],
+        maxFileSize: 100000,
+        descriptions: false,
+        dependency: true,
+      }),
+    });
+    expect(await loadRepoConfig(fs, "/repo")).toEqual({
+      include: ["src/**"],
+      exclude: ["**/*.test.ts"],
+      languages: ["typescript"],
+      maxFileSize: 100000,
+      descriptions: false,
+      dependency: true,
+    });
+  });
+
+  it("rejects malformed files and settings", async () => {
+    await expect(loadRepoConfig(createMockFs({ "/repo/.codegraph.json": "{" }), "/repo"))
+      .rejects.toThrow(/Invalid \.codegraph\.json/);
+    await expect(loadRepoConfig(createMockFs({ "/repo/.codegraph.json": '{"languages":["cobol"]}' }), "/repo"))
+      .rejects.toThrow(/"languages"/);
+    await expect(loadRepoConfig(createMockFs({ "/repo/.codegraph.json": '{"exclude":"dist"}' }), "/repo"))
+      .rejects.toThrow(/"exclude"/);
+  });
+});
+
+describe("createRepoFileFilter", () => {
+  const parsers = createDefaultParserRegistry();
+
+  it("accepts supported files outside the built-in excludes", async () => {
+    const filter = await createRepoFileFilter(createMockFs(), "/repo", await loadRepoConfig(createMockFs(), "/repo"), parsers);
+    expect(filter.acceptsFile("/repo/src/a.ts")).toBe(true);
+    expect(filter.acceptsFile("/repo/app/User.php")).toBe(true);
+    expect(filter.acceptsFile("/repo/README.md")).toBe(false);
+    expect(filter.acceptsFile("/repo/node_modules/x/index.js")).toBe(false);
+    expect(filter.isExcluded("/repo/node_modules")).toBe(true);
+    expect(filter.acceptsFile("/elsewhere/a.ts")).toBe(false);
+  });
+
+  it("applies include, exclude, languages and .gitignore", async () => {
+    const fs = createMockFs({ "/repo/.gitignore": "generated/\n" });
+    const filter = await createRepoFileFilter(fs, "/repo", {
+      include: ["src/**"],
+      exclude: ["**/*.test.ts"],
+      languages: ["typescript"],
+      descriptions: true,
+      dependency: false,
+    }, parsers);
+
+    expect(filter.acceptsFile("/repo/src/a.ts")).toBe(true);
+    expect(filter.acceptsFile("/repo/src/App.tsx")).toBe(true);
+    expect(filter.acceptsFile("/repo/src/a.test.ts")).toBe(false);
+    expect(filter.acceptsFile("/repo/src/a.js")).toBe(false);
+    expect(filter.acceptsFile("/repo/lib/a.ts")).toBe(false);
+    expect(filter.acceptsFile("/repo/src/generated/a.ts")).toBe(false);
+  });
+});
@@ -12,6 +12,7 @@ describe("SearchCodeService", () => {
       vectorSearch: vi.fn(),
       getContentHash: vi.fn(),
       getRepositoryFileHashes: vi.fn().mockResolvedValue({}),
+      getRepositoryFilePhases: vi.fn().mockResolvedValue({}),
       getImportsMapForFiles: vi.fn().mockResolvedValue(new Map()),
     };
     mockLogger = {
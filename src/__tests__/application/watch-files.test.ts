@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { WatchFilesService } from "../../application/watch-files.js";
+import type { Stats } from "node:fs";
+import type { MatchFunction } from "chokidar";
 import type { IndexCode, Logger } from "../../domain/ports.js";
 
 // Mock chokidar
@@ -23,9 +25,14 @@ describe("WatchFilesService", () => {
     vi.clearAllMocks();
     mockIndexCode = {
       indexDirectory: vi.fn(),
+      planIndex: vi.fn(),
       indexFile: vi.fn(),
       removeFile: vi.fn(),
       collectFiles: vi.fn(),
+      getFileFilter: vi.fn().mockResolvedValue({
+        acceptsFile: (path: string) => path.endsWith(".ts"),
+        isExcluded: (path: string) => path.includes("/node_modules"),
+      }),
     };
     mockLogger = {
       info: vi.fn(),
@@ -46,6 +53,19 @@ describe("WatchFilesService", () => {
     expect(mockLogger.info).toHaveBeenCalledWith(expect.stringContaining("Watching"));
   });
 
+  it("applies the repository's file filter to watched paths", async () => {
+    const { watch } = await import("chokidar");
+    await service.watch("/my-project");
+
+    expect(mockIndexCode.getFileFilter).toHaveBeenCalledWith("/my-project");
+    const ignored = vi.mocked(watch).mock.calls[0][1]?.ignored as MatchFunction;
+    const file = { isFile: () => true } as Stats;
+    expect(ignored("/my-project/node_modules")).toBe(true);
+    expect(ignored("/my-project/src/a.ts", file)).toBe(false);
+    expect(ignored("/my-project/src/a.md", file)).toBe(true);
+    expect(ignored("/my-project/src")).toBe(false);
+  });
+
   it("should not duplicate watchers for same path", async () => {
     await service.watch("/my-project");
     await service.watch("/my-project");
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from "vitest";
+import picomatch from "picomatch";
+import { relative } from "node:path";
+import { loadWorkspace } from "../../application/workspace.js";
+import type { FileSystem, GlobOptions } from "../../domain/ports.js";
+
+function createMockFs(files: Record<string, string> = {}): FileSystem {
+  return {
+    readFile: vi.fn(async (path: string) => files[path] ?? ""),
+    exists: vi.fn((path: string) => path in files),
+    fileSize: vi.fn(async (path: string) => (files[path] ?? "").length),
+    glob: vi.fn(async (patterns: string[], options: GlobOptions) => {
+      const isMatch = picomatch(patterns);
+      const isIgnored = picomatch(options.ignore ?? []);
+      return Object.keys(files).filter((path) => {
+        const rel = relative(options.cwd, path);
+        return isMatch(rel) && !isIgnored(rel);
+      });
+    }),
+  };
+}
+
+describe("loadWorkspace", () => {
+  it("loads the root package and the workspace packages it declares", async () => {
+    const fs = createMockFs({
+      "/repo/package.json": JSON.stringify({ name: "monorepo", workspaces: ["packages/*", "!packages/private"] }),
+      "/repo/packages/ui/package.json": JSON.stringify({ name: "@acme/ui", version: "1.2.0", main: "src/index.ts" }),
+      "/repo/packages/private/package.json": JSON.stringify({ name: "@acme/private" }),
+      "/repo/packages/broken/package.json": "{",
+      "/repo/node_modules/react/package.json": JSON.stringify({ name: "react" }),
+    });
+    const { packages } = await loadWorkspace(fs, "/repo");
+    expect(packages).toEqual([
+      { name: "monorepo", dir: "/repo", version: undefined, main: undefined, exports: undefined, imports: undefined },
+      { name: "@acme/ui", dir: "/repo/packages/ui", version: "1.2.0", main: "src/index.ts", exports: undefined, imports: undefined },
+    ]);
+  });
+
+  it("reads pnpm-workspace.yaml packages", async () => {
+    const fs = createMockFs({
+      "/repo/pnpm-workspace.yaml": "packages:\n  # apps too\n  - 'apps/*'\n  - \"libs/core\"\ncatalog:\n  - ignored\n",
+      "/repo/apps/web/package.json": JSON.stringify({ name: "web" }),
+      "/repo/libs/core/package.json": JSON.stringify({ name: "@acme/core" }),
+    });
+    const { packages } = await loadWorkspace(fs, "/repo");
+    expect(packages.map((p) => p.name)).toEqual(["web", "@acme/core"]);
+  });
+
+  it("reads PSR-4 mappings from composer.json", async () => {
+    const fs = createMockFs({
+      "/repo/composer.json": JSON.stringify({
+        autoload: { "psr-4": { "App\\": "app/", "Lib\\": ["src/", "lib/"] } },
+        "autoload-dev": { "psr-4": { "Tests\\": "tests/" } },
+      }),
+    });
+    const { psr4 } = await loadWorkspace(fs, "/repo");
+    expect(psr4).toEqual([
+      { prefix: "App", dir: "/repo/app" },
+      { prefix: "Lib", dir: "/repo/src" },
+      { prefix: "Lib", dir: "/repo/lib" },
+      { prefix: "Tests", dir: "/repo/tests" },
+    ]);
+  });
+
+  it("applies tsconfig extends chains, with comments and trailing commas", async () => {
+    const fs = createMockFs({
+      "/repo/package.json": JSON.stringify({ name: "monorepo", workspaces: ["packages/*"] }),
+      "/repo/packages/config/package.json": JSON.stringify({ name: "@acme/config" }),
+      "/repo/packages/config/base.json": `{
+        // shared paths, relative to this file
+        "compilerOptions": { "paths": { "@shared/*": ["../shared/src/*"], }, },
+      }`,
+      "/repo/tsconfig.json": `{ "extends": "./tsconfig.base", /* no options */ }`,
+      "/repo/tsconfig.base.json": `{ "compilerOptions": { "baseUrl": "src", "paths": { "~/*": ["./*"] } } }`,
+      "/repo/packages/web/tsconfig.json": `{ "extends": "@acme/config/base.json", "compilerOptions": { "strict": true } }`,
+      "/repo/packages/cycle/tsconfig.json": `{ "extends": "./tsconfig.json", "compilerOptions": { "baseUrl": "." } }`,
+    });
+    const { tsconfigs } = await loadWorkspace(fs, "/repo");
+    expect(tsconfigs).toEqual([
+      { dir: "/repo/packages/cycle", baseUrl: "/repo/packages/cycle", paths: undefined, pathsBase: "/repo/packages/cycle" },
+      {
+        dir: "/repo/packages/web",
+        baseUrl: undefined,
+        paths: { "@shared/*": ["../shared/src/*"] },
+        pathsBase: "/repo/packages/config",
+      },
+      { dir: "/repo", baseUrl: "/repo/src", paths: { "~/*": ["./*"] }, pathsBase: "/repo/src" },
+    ]);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { parseDecorators } from "../../domain/decorators.js";
+
+describe("parseDecorators", () => {
+  it("splits TypeScript and Python decorators into name and arguments", () => {
+    expect(parseDecorators(['@Get(":id")', "@Injectable()", "@dataclass", "@app.route('/x', methods=['GET'])", "@Input<string>()"]))
+      .toEqual([
+        { name: "Get", arguments: '":id"' },
+        { name: "Injectable", arguments: "" },
+        { name: "dataclass" },
+        { name: "app.route", arguments: "'/x', methods=['GET']" },
+        { name: "Input", arguments: "" },
+      ]);
+  });
+
+  it("splits PHP attribute groups into their attributes", () => {
+    expect(parseDecorators(["#[Route('/a, b', methods: ['GET', 'POST']), \\Attr\\Cached]"])).toEqual([
+      { name: "Route", arguments: "'/a, b', methods: ['GET', 'POST']" },
+      { name: "Attr\\Cached" },
+    ]);
+  });
+
+  it("accepts symbols without decorators", () => {
+    expect(parseDecorators(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import { GoParser } from "../../domain/parsers/go.js";
+
+const parser = new GoParser();
+
+describe("GoParser", () => {
+  it("parses functions with doc comments", () => {
+    const source = `package main
+
+// Greet says hello.
+// It never fails.
+func Greet(name string, opts ...Option) string {
+	return "hello " + name
+}
+`;
+    const result = parser.parse(source, "/main.go");
+    expect(result.lang).toBe("go");
+    expect(result.functions).toHaveLength(1);
+    expect(result.functions[0].name).toBe("Greet");
+    expect(result.functions[0].args).toEqual(["name", "...opts"]);
+    expect(result.functions[0].docstring).toBe("// Greet says hello.\n// It never fails.");
+    expect(result.functions[0].classContext).toBeUndefined();
+  });
+
+  it("records method receivers as class context", () => {
+    const source = `package store
+
+func (s *Server) Run(ctx context.Context) error { return nil }
+func (l List[T]) Len() int { return 0 }
+`;
+    const result = parser.parse(source, "/server.go");
+    expect(result.functions.find((f) => f.name === "Run")?.classContext).toBe("Server");
+    expect(result.functions.find((f) => f.name === "Run")?.args).toEqual(["ctx"]);
+    expect(result.functions.find((f) => f.name === "Len")?.classContext).toBe("List");
+  });
+
+  it("parses structs and interfaces with embedded types", () => {
+    const source = `package store
+
+// Server serves.
+type Server struct {
+	Base
+	*log.Logger
+	name string
+}
+
+type Store interface {
+	io.Reader
+	Get(id string) (string, error)
+}
+
+type ID string
+`;
+    const result = parser.parse(source, "/server.go");
+    const server = result.classes.find((c) => c.name === "Server");
+    expect(server?.bases).toEqual(["Base", "Logger"]);
+    expect(server?.isInterface).toBeUndefined();
+    expect(server?.docstring).toBe("// Server serves.");
+    const store = result.classes.find((c) => c.name === "Store");
+    expect(store?.isInterface).toBe(true);
+    expect(store?.bases).toEqual(["Reader"]);
+    expect(result.classes.find((c) => c.name === "ID")).toBeUndefined();
+  });
+
+  it("parses package imports", () => {
+    const source = `package main
+
+import (
+	"fmt"
+	log "github.com/sirupsen/logrus"
+	. "strings"
+	_ "embed"
+)
+`;
+    const result = parser.parse(source, "/main.go");
+    expect(result.imports).toEqual([
+      { name: "fmt", source: "fmt", lineNumber: 4, isNamespace: true },
+      { name: "log", source: "github.com/sirupsen/logrus", lineNumber: 5, isNamespace: true },
+      { name: "*", source: "strings", lineNumber: 6, isNamespace: true },
+    ]);
+  });
+
+  it("parses calls with their caller", () => {
+    const source = `package main
+
+func main() {
+	cfg := load("x")
+	fmt.Println(cfg)
+	go func() {}()
+}
+`;
+    const result = parser.parse(source, "/main.go");
+    expect(result.calls).toHaveLength(2);
+    const load = result.calls.find((c) => c.name === "load");
+    expect(load?.callerName).toBe("main");
+    const println = result.calls.find((c) => c.name === "Println");
+    expect(println?.fullCallName).toBe("fmt.Println");
+    expect(println?.inferredObjType).toBe("fmt");
+  });
+
+  it("calculates cyclomatic complexity", () => {
+    const source = `package main
+
+func check(n int) int {
+	if n > 0 && n < 10 {
+		return 1
+	}
+	for i := 0; i < n; i++ {}
+	switch n {
+	case 1:
+	case 2:
+	default:
+	}
+	return 0
+}
+`;
+    const result = parser.parse(source, "/main.go");
+    // base + if + && + for + 2 cases
+    expect(result.functions[0].cyclomaticComplexity).toBe(6);
+  });
+
+  it("parses package-level variables", () => {
+    const source = `package main
+
+const Max = 10
+var a, b int = 1, 2
+`;
+    const result = parser.parse(source, "/main.go");
+    expect(result.variables).toEqual([
+      { name: "Max", lineNumber: 3, value: "10", type: "const" },
+      { name: "a", lineNumber: 4, value: "1", type: "int" },
+      { name: "b", lineNumber: 4, value: "2", type: "int" },
+    ]);
+  });
+
+  it("pre-scans package-level declarations", () => {
+    const map = parser.preScan([
+      {
+        filePath: "/svc/server.go",
+        sourceCode: "package svc\n\ntype Server struct{}\n\nfunc (s *Server) Run() {}\n\nfunc New() *Server { return nil }\n",
+      },
+    ]);
+    expect(map.get("Server")).toEqual([{ filePath: "/svc/server.go", lineNumber: 3 }]);
+    expect(map.get("Run")).toEqual([{ filePath: "/svc/server.go", lineNumber: 5 }]);
+    expect(map.get("New")).toEqual([{ filePath: "/svc/server.go", lineNumber: 7 }]);
+  });
+});
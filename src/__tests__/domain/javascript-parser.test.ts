@@ -102,6 +102,28 @@ class Dog extends Animal { }`;
     });
   });
 
+  describe("parse - class members", () => {
+    it("parses fields and method modifiers", () => {
+      const source = `class Counter {
+  #count = 0;
+  static label = "counter";
+  step;
+  static create() { return new Counter(); }
+  #bump() { this.#count++; }
+}`;
+      const result = parser.parse(source, "/test.js");
+      expect(result.classes[0].properties).toEqual([
+        { name: "#count", lineNumber: 2, visibility: "private" },
+        { name: "label", lineNumber: 3, visibility: "public", isStatic: true },
+        { name: "step", lineNumber: 4, visibility: "public" },
+      ]);
+      const create = result.functions.find((f) => f.name === "create");
+      expect(create).toEqual(expect.objectContaining({ isMethod: true, isStatic: true, kind: "static" }));
+      const bump = result.functions.find((f) => f.name === "#bump");
+      expect(bump).toEqual(expect.objectContaining({ isMethod: true, visibility: "private" }));
+    });
+  });
+
   describe("parse - imports", () => {
     it("parses ES import default", () => {
       const result = parser.parse(
@@ -144,6 +166,81 @@ class Dog extends Animal { }`;
     });
   });
 
+  describe("parse - CommonJS and dynamic imports", () => {
+    it("parses destructured and bare require() calls", () => {
+      const source = `const { a, b: c, ...rest } = require("./m");
+require("./polyfill");
+const lib = require(\`./lib\`);
+const dyn = require(path);`;
+      const result = parser.parse(source, "/test.js");
+      expect(result.imports).toEqual([
+        { name: "a", source: "./m", lineNumber: 1 },
+        { name: "c", source: "./m", alias: "b", lineNumber: 1 },
+        { name: "rest", source: "./m", lineNumber: 1, isNamespace: true },
+        { name: "./polyfill", source: "./polyfill", lineNumber: 2 },
+        { name: "lib", source: "./lib", lineNumber: 3, isDefault: true },
+      ]);
+      expect(result.calls.find((c) => c.name === "require")).toBeUndefined();
+    });
+
+    it("marks import() calls as dynamic", () => {
+      const source = `async function load() {
+  const page = await import("./page");
+  const { render } = await import("./render");
+  import("./analytics").then((m) => m.track());
+}`;
+      const result = parser.parse(source, "/test.js");
+      expect(result.imports).toEqual([
+        { name: "page", source: "./page", lineNumber: 2, isNamespace: true, isDynamic: true },
+        { name: "render", source: "./render", lineNumber: 3, isDynamic: true },
+        { name: "./analytics", source: "./analytics", lineNumber: 4, isDynamic: true },
+      ]);
+      expect(result.calls.find((c) => c.name === "import")).toBeUndefined();
+    });
+
+    it("parses module.exports and exports assignments", () => {
+      const source = `function parse() {}
+module.exports = { parse, format: fmt, run() {} };
+exports.version = "1.0";
+module.exports.helper = helper;`;
+      const result = parser.parse(source, "/test.js");
+      expect(result.exports).toEqual([
+        { name: "default", lineNumber: 2 },
+        { name: "parse", localName: "parse", lineNumber: 2 },
+        { name: "format", localName: "fmt", lineNumber: 2 },
+        { name: "run", lineNumber: 2 },
+        { name: "version", lineNumber: 3 },
+        { name: "helper", localName: "helper", lineNumber: 4 },
+      ]);
+    });
+
+    it("parses functions assigned to exports as Function nodes", () => {
+      const source = `exports.parse = function (input) {};
+module.exports.format = async (value) => value;
+module.exports = { trim: (s) => s, name: "x" };
+module.exports = function run() {};`;
+      const result = parser.parse(source, "/test.js");
+      expect(result.functions.map((f) => [f.name, f.lineNumber, f.args])).toEqual([
+        ["parse", 1, ["input"]],
+        ["format", 2, ["value"]],
+        ["trim", 3, ["s"]],
+        ["run", 4, []],
+      ]);
+      expect(result.functions[1].isAsync).toBe(true);
+      expect(result.exports).toContainEqual({ name: "default", localName: "run", lineNumber: 4 });
+    });
+
+    it("names an anonymous module.exports function after the default export", () => {
+      const result = parser.parse("module.exports = () => {};", "/test.js");
+      expect(result.functions.map((f) => f.name)).toEqual(["default"]);
+    });
+
+    it("treats module.exports = binding as the default export", () => {
+      const map = parser.preScan([{ filePath: "/svc.js", sourceCode: "class Service {}\nmodule.exports = Service;" }]);
+      expect(map.get("default")).toEqual([{ filePath: "/svc.js", lineNumber: 2, exportOf: "Service", from: undefined }]);
+    });
+  });
+
   describe("parse - calls", () => {
     it("parses function calls with caller context", () => {
       const source = `
@@ -178,6 +275,28 @@ function test() {
     });
   });
 
+  describe("parse - JSX renders", () => {
+    it("records the components each function renders and the props it passes", () => {
+      const source = `
+export const Page = ({ user, ...rest }) => (
+  <Layout title="Users" {...rest}>
+    <UserCard user={user} onSelect={() => {}} />
+    <UI.Spinner />
+    <div className="footer" />
+  </Layout>
+);
+class Profile extends Component {
+  render() { return <Avatar src={this.props.src} />; }
+}`;
+      const result = parser.parse(source, "/src/Page.jsx");
+      expect(result.renders).toEqual([
+        { component: "Layout", lineNumber: 3, props: ["title"], callerName: "Page", callerLineNumber: 2 },
+        { component: "UserCard", lineNumber: 4, props: ["user", "onSelect"], callerName: "Page", callerLineNumber: 2 },
+        { component: "Avatar", lineNumber: 10, props: ["src"], callerName: "render", callerLineNumber: 10 },
+      ]);
+    });
+  });
+
   describe("parse - variables", () => {
     it("parses const/let/var declarations", () => {
       const result = parser.parse(
@@ -196,6 +315,35 @@ function test() {
     });
   });
 
+  describe("parse - exports", () => {
+    it("parses default, named, renamed and re-exports", () => {
+      const source = `export const a = 1, b = 2;
+export default function Foo() {}
+export { x as y, z };
+export { a as c } from "./a";
+export * from "./x";
+export * as ns from "./n";
+function inner() { return 1; }`;
+      const result = parser.parse(source, "/test.js");
+      expect(result.exports).toEqual([
+        { name: "a", lineNumber: 1 },
+        { name: "b", lineNumber: 1 },
+        { name: "Foo", lineNumber: 2 },
+        { name: "default", localName: "Foo", lineNumber: 2 },
+        { name: "y", localName: "x", lineNumber: 3 },
+        { name: "z", localName: "z", lineNumber: 3 },
+        { name: "c", localName: "a", source: "./a", lineNumber: 4 },
+        { name: "*", source: "./x", lineNumber: 5 },
+        { name: "ns", localName: "*", source: "./n", lineNumber: 6 },
+      ]);
+    });
+
+    it("records anonymous default exports", () => {
+      const result = parser.parse("export default { name: 'x' };", "/test.js");
+      expect(result.exports).toEqual([{ name: "default", lineNumber: 1 }]);
+    });
+  });
+
   describe("preScan", () => {
     it("collects exported symbols", () => {
       const map = parser.preScan([
@@ -212,6 +360,15 @@ function test() {
       expect(map.has("Bar")).toBe(true);
     });
 
+    it("records re-exports under the exported name", () => {
+      const map = parser.preScan([
+        { filePath: "/lib/index.js", sourceCode: 'export { parse as read } from "./parse.js";\nexport * from "./util.js";' },
+      ]);
+      expect(map.get("read")).toEqual([{ filePath: "/lib/index.js", lineNumber: 1, exportOf: "parse", from: "./parse.js" }]);
+      expect(map.has("parse")).toBe(false);
+      expect(map.get("*")).toEqual([{ filePath: "/lib/index.js", lineNumber: 2, exportOf: "*", from: "./util.js" }]);
+    });
+
     it("collects top-level declarations", () => {
       const map = parser.preScan([
         {
@@ -230,5 +387,15 @@ function test() {
       expect(result.path).toBe("/src/main.js");
       expect(result.lang).toBe("javascript");
     });
+
+    it("parses JSX in .jsx files without syntax errors", () => {
+      const source = `
+export function Greeting({ name }) {
+  return <h1 className="title">Hello {name}</h1>;
+}`;
+      const result = parser.parse(source, "/src/Greeting.jsx");
+      expect(result.hasErrors).toBe(false);
+      expect(result.functions[0].name).toBe("Greeting");
+    });
   });
 });
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { resolveModulePath, isPackageSpecifier, type Workspace } from "../../domain/module-resolver.js";
+
+const files = new Set([
+  "/repo/src/app.ts",
+  "/repo/src/utils.ts",
+  "/repo/src/legacy.js",
+  "/repo/src/components/index.tsx",
+  "/repo/src/features/auth/index.ts",
+  "/repo/src/internal/db.ts",
+  "/repo/lib/main.js",
+  "/repo/packages/ui/src/button.tsx",
+  "/repo/packages/ui/src/index.ts",
+]);
+const isFile = (path: string) => files.has(path);
+const empty: Workspace = { packages: [], tsconfigs: [], psr4: [] };
+
+describe("resolveModulePath", () => {
+  it("resolves relative paths with extensions, .js → .ts remapping and index files", () => {
+    expect(resolveModulePath("./utils", "/repo/src/app.ts", empty, isFile)).toBe("/repo/src/utils.ts");
+    expect(resolveModulePath("./utils.js", "/repo/src/app.ts", empty, isFile)).toBe("/repo/src/utils.ts");
+    expect(resolveModulePath("./legacy.js", "/repo/src/app.ts", empty, isFile)).toBe("/repo/src/legacy.js");
+    expect(resolveModulePath("./components", "/repo/src/app.ts", empty, isFile)).toBe("/repo/src/components/index.tsx");
+    expect(resolveModulePath("../lib/main", "/repo/src/app.ts", empty, isFile)).toBe("/repo/lib/main.js");
+    expect(resolveModulePath("./missing", "/repo/src/app.ts", empty, isFile)).toBeUndefined();
+  });
+
+  it("resolves repository packages through their exports", () => {
+    const workspace: Workspace = { tsconfigs: [], psr4: [], packages: [{
+      name: "@acme/app",
+      dir: "/repo",
+      exports: {
+        ".": { types: "./src/app.ts", default: "./dist/app.js" },
+        "./features/*": "./src/features/*/index.js",
+        "./internal/*": null,
+      },
+      imports: { "#db": { node: "./src/internal/db.js" } },
+    }] };
+    expect(resolveModulePath("@acme/app", "/repo/src/utils.ts", workspace, isFile)).toBe("/repo/src/app.ts");
+    expect(resolveModulePath("@acme/app/features/auth", "/repo/src/utils.ts", workspace, isFile))
+      .toBe("/repo/src/features/auth/index.ts");
+    expect(resolveModulePath("@acme/app/internal/db", "/repo/src/utils.ts", workspace, isFile)).toBeUndefined();
+    expect(resolveModulePath("#db", "/repo/src/app.ts", workspace, isFile)).toBe("/repo/src/internal/db.ts");
+  });
+
+  it("falls back to main and subpaths for packages without exports", () => {
+    const workspace: Workspace = { tsconfigs: [], psr4: [], packages: [{ name: "legacy", dir: "/repo", main: "lib/main.js" }] };
+    expect(resolveModulePath("legacy", "/repo/src/app.ts", workspace, isFile)).toBe("/repo/lib/main.js");
+    expect(resolveModulePath("legacy/src/utils", "/repo/src/app.ts", workspace, isFile)).toBe("/repo/src/utils.ts");
+  });
+
+  it("resolves tsconfig paths and baseUrl of the innermost tsconfig before packages", () => {
+    const workspace: Workspace = {
+      packages: [{ name: "@acme/ui", dir: "/repo/packages/ui", main: "./src/index.ts" }],
+      tsconfigs: [
+        { dir: "/repo", paths: { "@/*": ["./src/*"], "@ui/*": ["./missing/*", "./packages/ui/src/*"] }, pathsBase: "/repo" },
+        { dir: "/repo/packages/ui", baseUrl: "/repo/packages/ui/src", pathsBase: "/repo/packages/ui/src" },
+      ],
+      psr4: [],
+    };
+    expect(resolveModulePath("@/utils", "/repo/src/app.ts", workspace, isFile)).toBe("/repo/src/utils.ts");
+    expect(resolveModulePath("@/features/auth", "/repo/src/app.ts", workspace, isFile)).toBe("/repo/src/features/auth/index.ts");
+    expect(resolveModulePath("@ui/button", "/repo/src/app.ts", workspace, isFile)).toBe("/repo/packages/ui/src/button.tsx");
+    expect(resolveModulePath("button", "/repo/packages/ui/src/index.ts", workspace, isFile))
+      .toBe("/repo/packages/ui/src/button.tsx");
+    expect(resolveModulePath("@acme/ui", "/repo/src/app.ts", workspace, isFile)).toBe("/repo/packages/ui/src/index.ts");
+    expect(resolveModulePath("@/missing", "/repo/src/app.ts", workspace, isFile)).toBeUndefined();
+  });
+
+  it("leaves external packages unresolved", () => {
+    expect(resolveModulePath("react", "/repo/src/app.ts", empty, isFile)).toBeUndefined();
+    expect(isPackageSpecifier("react")).toBe(true);
+    expect(isPackageSpecifier("@scope/pkg/sub")).toBe(true);
+    expect(isPackageSpecifier("./utils")).toBe(false);
+    expect(isPackageSpecifier("#db")).toBe(false);
+  });
+});
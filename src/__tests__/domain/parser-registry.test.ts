@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { ParserRegistry, createDefaultParserRegistry } from "../../domain/parsers/parser-registry.js";
+import { JavaScriptParser } from "../../domain/parsers/javascript.js";
+import { TypeScriptParser } from "../../domain/parsers/typescript.js";
+import { PHPParser } from "../../domain/parsers/php.js";
+import { PythonParser } from "../../domain/parsers/python.js";
+import { GoParser } from "../../domain/parsers/go.js";
+import { VueParser, SvelteParser } from "../../domain/parsers/sfc.js";
+
+describe("ParserRegistry", () => {
+  const registry = createDefaultParserRegistry();
+
+  it("maps extensions to language parsers", () => {
+    expect(registry.getParserForFile("/src/app.js")).toBeInstanceOf(JavaScriptParser);
+    expect(registry.getParserForFile("/src/App.JSX")?.languageName).toBe("javascript");
+    expect(registry.getParserForFile("/src/app.ts")).toBeInstanceOf(TypeScriptParser);
+    expect(registry.getParserForFile("/src/App.tsx")).toBeInstanceOf(TypeScriptParser);
+    expect(registry.getParserForFile("/app/User.php")).toBeInstanceOf(PHPParser);
+    expect(registry.getParserForFile("/app/main.py")).toBeInstanceOf(PythonParser);
+    expect(registry.getParserForFile("/cmd/main.go")).toBeInstanceOf(GoParser);
+    expect(registry.getParserForFile("/src/App.vue")).toBeInstanceOf(VueParser);
+    expect(registry.getParserForFile("/src/App.svelte")).toBeInstanceOf(SvelteParser);
+    expect(registry.getParserForFile("/app/main.rb")).toBeUndefined();
+  });
+
+  it("lists every supported extension once", () => {
+    const exts = registry.supportedExtensions;
+    expect(exts).toEqual(expect.arrayContaining([".js", ".jsx", ".ts", ".tsx", ".php", ".py", ".go", ".vue", ".svelte"]));
+    expect(new Set(exts).size).toBe(exts.length);
+  });
+
+  it("keeps the first parser registered for an extension", () => {
+    const first = new JavaScriptParser();
+    const custom = new ParserRegistry([first, new JavaScriptParser()]);
+    expect(custom.getParserForFile("/a.js")).toBe(first);
+  });
+
+  it("merges preScan results across languages", () => {
+    const map = registry.preScan([
+      { filePath: "/src/a.ts", sourceCode: "export function helper() {}" },
+      { filePath: "/src/b.js", sourceCode: "function helper() {}" },
+      { filePath: "/app/C.php", sourceCode: "<?php\nclass Controller {}" },
+      { filePath: "/README.md", sourceCode: "# helper" },
+    ]);
+    expect(map.get("helper")?.map((l) => l.filePath)).toEqual(
+      expect.arrayContaining(["/src/a.ts", "/src/b.js"]),
+    );
+    expect(map.get("Controller")).toEqual([{ filePath: "/app/C.php", lineNumber: 2, fqn: "Controller" }]);
+  });
+
+  it("returns the same structure and symbols as parse + preScan from one parse", () => {
+    const sourceCode = "import { x } from './x';\nexport class A {}\nfunction b() { x(); }";
+    const result = registry.parseWithSymbols("/src/a.ts", sourceCode);
+
+    expect(result?.parsed).toEqual(registry.getParserForFile("/src/a.ts")!.parse(sourceCode, "/src/a.ts"));
+    expect(result?.symbols).toEqual(registry.preScan([{ filePath: "/src/a.ts", sourceCode }]));
+    expect(structuredClone(result)).toEqual(result);
+    expect(registry.parseWithSymbols("/README.md", "# hi")).toBeNull();
+  });
+});
@@ -27,6 +27,29 @@ class User {
     expect(ctor?.kind).toBe("constructor");
   });
 
+  it("parses PHP properties, promoted parameters and method modifiers", () => {
+    const source = `<?php
+class Order {
+  public static int $count = 0, $total;
+  protected readonly ?Customer $customer;
+  var $legacy;
+  public function __construct(private readonly Money $price, $note) {}
+  private static function make(): self { return new self(); }
+}`;
+    const result = parser.parse(source, "/test.php");
+    expect(result.classes[0].properties).toEqual([
+      { name: "count", lineNumber: 3, type: "int", visibility: "public", isStatic: true },
+      { name: "total", lineNumber: 3, type: "int", visibility: "public", isStatic: true },
+      { name: "customer", lineNumber: 4, type: "?Customer", visibility: "protected", isReadonly: true },
+      { name: "legacy", lineNumber: 5, visibility: "public" },
+      { name: "price", lineNumber: 6, type: "Money", visibility: "private", isReadonly: true },
+    ]);
+    const make = result.functions.find((f) => f.name === "make");
+    expect(make).toEqual(expect.objectContaining({ isMethod: true, visibility: "private", isStatic: true }));
+    const ctor = result.functions.find((f) => f.name === "__construct");
+    expect(ctor?.args).toContain("$price");
+  });
+
   it("parses PHP class with extends and implements", () => {
     const source = `<?php
 interface Printable { public function print(); }
@@ -59,6 +82,61 @@ use App\\Services\\Auth as AuthService;`;
     expect(userImport?.source).toBe("App\\Models\\User");
   });
 
+  it("qualifies classes and functions with their namespace", () => {
+    const source = `<?php
+namespace App\\Http;
+
+use App\\Models\\{User, Post as Article};
+
+class UserController extends \\Base\\Controller implements namespace\\Handler {
+  public function index() {}
+}
+function helper() {}
+
+namespace Other { class UserController {} }`;
+    const result = parser.parse(source, "/test.php");
+    expect(result.namespaces).toEqual([
+      { name: "App\\Http", lineNumber: 2, endLine: 10, docstring: undefined },
+      { name: "Other", lineNumber: 11, endLine: 11, docstring: undefined },
+    ]);
+    const [controller, other] = result.classes;
+    expect(controller).toMatchObject({ namespace: "App\\Http", fqn: "App\\Http\\UserController" });
+    expect(controller.bases).toEqual(["\\Base\\Controller"]);
+    expect(controller.implements).toEqual(["namespace\\Handler"]);
+    expect(other.fqn).toBe("Other\\UserController");
+    expect(result.functions.map((f) => f.fqn)).toEqual(["App\\Http\\helper", "App\\Http\\UserController::index"]);
+    expect(result.imports.map((i) => [i.name, i.source])).toEqual([
+      ["User", "App\\Models\\User"],
+      ["Article", "App\\Models\\Post"],
+    ]);
+  });
+
+  it("parses trait uses of classes and traits", () => {
+    const source = `<?php
+trait Loggable { use \\Support\\Timestamps; }
+class Post {
+  use Loggable, HasTags { Loggable::log insteadof HasTags; }
+  use Searchable;
+}`;
+    const result = parser.parse(source, "/test.php");
+    const loggable = result.classes.find((c) => c.name === "Loggable");
+    const post = result.classes.find((c) => c.name === "Post");
+    expect(loggable).toMatchObject({ name: "Loggable", isTrait: true, traits: ["\\Support\\Timestamps"] });
+    expect(post?.traits).toEqual(["Loggable", "HasTags", "Searchable"]);
+  });
+
+  it("captures attributes of classes and methods, not of parameters", () => {
+    const source = `<?php
+#[Route('/api'), Middleware('auth')]
+class ApiController {
+    #[Get('/users')]
+    public function index(#[FromQuery] $page) {}
+}`;
+    const result = parser.parse(source, "/test.php");
+    expect(result.classes[0].decorators).toEqual(["#[Route('/api'), Middleware('auth')]"]);
+    expect(result.functions.find((f) => f.name === "index")?.decorators).toEqual(["#[Get('/users')]"]);
+  });
+
   it("parses PHP function calls", () => {
     const source = `<?php
 function main() {
@@ -93,5 +171,16 @@ class Config {
       expect(map.has("helper")).toBe(true);
       expect(map.has("Utils")).toBe(true);
     });
+
+    it("records fully-qualified names", () => {
+      const map = parser.preScan([
+        {
+          filePath: "/a.php",
+          sourceCode: "<?php\nnamespace App;\nclass Utils { function run() {} }",
+        },
+      ]);
+      expect(map.get("Utils")).toEqual([{ filePath: "/a.php", lineNumber: 3, fqn: "App\\Utils" }]);
+      expect(map.get("run")).toEqual([{ filePath: "/a.php", lineNumber: 3, fqn: "App\\Utils::run" }]);
+    });
   });
 });
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { qualifyPhpName, phpCallCandidates, findByFqn, resolvePsr4 } from "../../domain/php-resolver.js";
+import type { ImportsMap, ParsedImport } from "../../domain/types.js";
+
+const imports: ParsedImport[] = [
+  { name: "User", source: "App\\Models\\User", lineNumber: 2 },
+  { name: "Auth", source: "App\\Services\\Auth\\Guard", alias: "Guard", lineNumber: 3 },
+  { name: "config.php", source: "config.php", lineNumber: 4 },
+];
+
+describe("qualifyPhpName", () => {
+  it("applies PHP name resolution rules", () => {
+    expect(qualifyPhpName("\\Base\\Model", "App\\Http", imports)).toBe("Base\\Model");
+    expect(qualifyPhpName("namespace\\Handler", "App\\Http", imports)).toBe("App\\Http\\Handler");
+    expect(qualifyPhpName("User", "App\\Http", imports)).toBe("App\\Models\\User");
+    expect(qualifyPhpName("Auth\\Token", "App\\Http", imports)).toBe("App\\Services\\Auth\\Guard\\Token");
+    expect(qualifyPhpName("Controller", "App\\Http", imports)).toBe("App\\Http\\Controller");
+    expect(qualifyPhpName("Controller", undefined, imports)).toBe("Controller");
+  });
+});
+
+describe("phpCallCandidates", () => {
+  const call = { lineNumber: 5, args: [], callerName: "index" };
+
+  it("qualifies static calls by their class", () => {
+    expect(phpCallCandidates({ ...call, name: "find", fullCallName: "User::find", inferredObjType: "User" }, "App", imports))
+      .toEqual(["App\\Models\\User::find"]);
+  });
+
+  it("falls back to the global function for unqualified calls", () => {
+    expect(phpCallCandidates({ ...call, name: "helper" }, "App", imports)).toEqual(["App\\helper", "helper"]);
+    expect(phpCallCandidates({ ...call, name: "\\strlen" }, "App", imports)).toEqual(["strlen"]);
+  });
+
+  it("leaves calls it cannot name to other resolution", () => {
+    expect(phpCallCandidates({ ...call, name: "save", fullCallName: "$user->save", inferredObjType: "$user" }, "App", imports))
+      .toBeUndefined();
+    expect(phpCallCandidates({ ...call, name: "boot", fullCallName: "self::boot", inferredObjType: "self" }, "App", imports))
+      .toBeUndefined();
+    expect(phpCallCandidates({ ...call, name: "User", fullCallName: "new User" }, "App", imports)).toBeUndefined();
+  });
+});
+
+describe("findByFqn", () => {
+  it("picks the definition with the fully-qualified name, case-insensitively", () => {
+    const map: ImportsMap = new Map([
+      ["find", [
+        { filePath: "/app/Post.php", lineNumber: 4, fqn: "App\\Models\\Post::find" },
+        { filePath: "/app/User.php", lineNumber: 9, fqn: "App\\Models\\User::find" },
+      ]],
+    ]);
+    expect(findByFqn(["app\\models\\user::find"], map)).toEqual({
+      name: "find", filePath: "/app/User.php", lineNumber: 9, fqn: "App\\Models\\User::find",
+    });
+    expect(findByFqn(["App\\Models\\Comment::find"], map)).toBeUndefined();
+  });
+});
+
+describe("resolvePsr4", () => {
+  it("maps class names to files under the longest matching prefix", () => {
+    const files = new Set(["/repo/app/Models/User.php", "/repo/modules/Billing/Invoice.php", "/repo/src/Legacy.php"]);
+    const mappings = [
+      { prefix: "App", dir: "/repo/app" },
+      { prefix: "App\\Billing", dir: "/repo/modules/Billing" },
+      { prefix: "", dir: "/repo/src" },
+    ];
+    const isFile = (path: string) => files.has(path);
+    expect(resolvePsr4("App\\Models\\User", mappings, isFile)).toBe("/repo/app/Models/User.php");
+    expect(resolvePsr4("\\App\\Billing\\Invoice", mappings, isFile)).toBe("/repo/modules/Billing/Invoice.php");
+    expect(resolvePsr4("Legacy", mappings, isFile)).toBe("/repo/src/Legacy.php");
+    expect(resolvePsr4("Vendor\\Thing", mappings, isFile)).toBeUndefined();
+  });
+});
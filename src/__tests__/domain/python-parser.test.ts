@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import { PythonParser } from "../../domain/parsers/python.js";
+
+const parser = new PythonParser();
+
+describe("PythonParser", () => {
+  it("parses a function with docstring and parameters", () => {
+    const source = `def greet(name: str, greeting="hi", *args, **kwargs) -> str:
+    """Say hello."""
+    return f"{greeting} {name}"
+`;
+    const result = parser.parse(source, "/test.py");
+    expect(result.lang).toBe("python");
+    expect(result.functions).toHaveLength(1);
+    expect(result.functions[0].name).toBe("greet");
+    expect(result.functions[0].args).toEqual(["name", "greeting", "*args", "**kwargs"]);
+    expect(result.functions[0].docstring).toBe('"""Say hello."""');
+  });
+
+  it("parses classes with bases, decorators and methods", () => {
+    const source = `@dataclass
+class User(models.Model, Mixin, metaclass=Meta):
+    """A user."""
+
+    def __init__(self, name):
+        self.name = name
+
+    @property
+    def display(self):
+        return self.name
+
+    @staticmethod
+    def create(name):
+        return User(name)
+
+    async def save(self):
+        await db.write(self)
+`;
+    const result = parser.parse(source, "/models.py");
+    const user = result.classes.find((c) => c.name === "User");
+    expect(user?.bases).toEqual(["Model", "Mixin"]);
+    expect(user?.decorators).toEqual(["@dataclass"]);
+    expect(user?.docstring).toBe('"""A user."""');
+    expect(user?.lineNumber).toBe(1);
+
+    const init = result.functions.find((f) => f.name === "__init__");
+    expect(init?.kind).toBe("constructor");
+    expect(init?.args).toEqual(["name"]);
+    expect(init?.classContext).toBe("User");
+
+    expect(result.functions.find((f) => f.name === "display")?.kind).toBe("getter");
+    const create = result.functions.find((f) => f.name === "create");
+    expect(create?.kind).toBe("static");
+    expect(create?.decorators).toEqual(["@staticmethod"]);
+    expect(result.functions.find((f) => f.name === "save")?.isAsync).toBe(true);
+  });
+
+  it("parses import forms", () => {
+    const source = `import os.path
+import numpy as np
+from .models import User, Group as G
+from utils import *
+`;
+    const result = parser.parse(source, "/test.py");
+    expect(result.imports).toContainEqual(
+      expect.objectContaining({ name: "os.path", source: "os.path", isNamespace: true }),
+    );
+    expect(result.imports).toContainEqual(
+      expect.objectContaining({ name: "np", source: "numpy", isNamespace: true }),
+    );
+    expect(result.imports).toContainEqual(
+      expect.objectContaining({ name: "User", source: ".models" }),
+    );
+    expect(result.imports).toContainEqual(
+      expect.objectContaining({ name: "G", alias: "Group", source: ".models" }),
+    );
+    expect(result.imports).toContainEqual(
+      expect.objectContaining({ name: "*", source: "utils" }),
+    );
+  });
+
+  it("parses calls with their caller", () => {
+    const source = `def main():
+    data = load("x")
+    self.repo.save(data)
+`;
+    const result = parser.parse(source, "/test.py");
+    const load = result.calls.find((c) => c.name === "load");
+    expect(load?.callerName).toBe("main");
+    expect(load?.args).toEqual(['"x"']);
+    const save = result.calls.find((c) => c.name === "save");
+    expect(save?.fullCallName).toBe("self.repo.save");
+    expect(save?.inferredObjType).toBe("self.repo");
+  });
+
+  it("parses module-level variables only", () => {
+    const source = `TIMEOUT: int = 30
+a, b = 1, 2
+
+def f():
+    local = 1
+`;
+    const result = parser.parse(source, "/test.py");
+    expect(result.variables.map((v) => v.name)).toEqual(["TIMEOUT", "a", "b"]);
+    expect(result.variables[0].type).toBe("int");
+    expect(result.variables[0].value).toBe("30");
+  });
+
+  it("calculates cyclomatic complexity", () => {
+    const source = `def check(x):
+    if x > 0 and x < 10:
+        return 1
+    elif x < 0:
+        return -1
+    try:
+        return [i for i in range(x) if i % 2]
+    except ValueError:
+        return 0
+`;
+    const result = parser.parse(source, "/test.py");
+    // base + if + and + elif + comprehension if + except
+    expect(result.functions[0].cyclomaticComplexity).toBe(6);
+  });
+
+  it("pre-scans functions and classes", () => {
+    const map = parser.preScan([
+      { filePath: "/a.py", sourceCode: "class Service:\n    def run(self):\n        pass\n\ndef helper():\n    pass\n" },
+    ]);
+    expect(map.get("Service")).toEqual([{ filePath: "/a.py", lineNumber: 1 }]);
+    expect(map.get("helper")).toEqual([{ filePath: "/a.py", lineNumber: 5 }]);
+    expect(map.has("run")).toBe(true);
+  });
+
+  it("pre-scans decorated definitions at their first decorator", () => {
+    const source = "@cached\ndef load():\n    pass\n";
+    const map = parser.preScan([{ filePath: "/a.py", sourceCode: source }]);
+    const result = parser.parse(source, "/a.py");
+    expect(map.get("load")).toEqual([{ filePath: "/a.py", lineNumber: 1 }]);
+    expect(result.functions[0].lineNumber).toBe(1);
+  });
+
+  it("skips bodies of dependencies", () => {
+    const result = parser.parse("X = 1\ndef f():\n    pass\n", "/dep.py", true);
+    expect(result.functions[0].source).toBeUndefined();
+    expect(result.variables).toHaveLength(0);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { extractRoutes } from "../../domain/routes.js";
+import { TypeScriptParser } from "../../domain/parsers/typescript.js";
+import { PHPParser } from "../../domain/parsers/php.js";
+
+const ts = new TypeScriptParser("typescript");
+const php = new PHPParser();
+
+describe("extractRoutes", () => {
+  it("finds Express routes registered on apps and routers", () => {
+    const parsed = ts.parse(`const app = express();
+const adminRouter = express.Router();
+app.get("/users", auth, listUsers);
+adminRouter.post('/users/:id', users.update);
+app.delete(\`/sessions\`, (req, res) => res.end());
+app.get("port");
+cache.get("/key", fallback);`, "/server.ts");
+    expect(extractRoutes(parsed)).toEqual([
+      { method: "GET", path: "/users", lineNumber: 3, framework: "express", handler: "listUsers", handlerName: "listUsers" },
+      { method: "POST", path: "/users/:id", lineNumber: 4, framework: "express", handler: "users.update", handlerName: "update" },
+      { method: "DELETE", path: "/sessions", lineNumber: 5, framework: "express", handler: undefined, handlerName: undefined },
+    ]);
+  });
+
+  it("joins NestJS controller and method paths", () => {
+    const parsed = ts.parse(`@Controller("cats")
+export class CatsController {
+  @Get()
+  findAll() {}
+  @Get(":id/")
+  @Header("Cache-Control", "none")
+  findOne() {}
+  helper() {}
+}
+@Controller({ path: "/admin/" })
+class AdminController {
+  @Post("users") create() {}
+}`, "/cats.controller.ts");
+    expect(extractRoutes(parsed).map((r) => [r.method, r.path, r.handler, r.handlerLine])).toEqual([
+      ["GET", "/cats", "CatsController.findAll", 4],
+      ["GET", "/cats/:id", "CatsController.findOne", 7],
+      ["POST", "/admin/users", "AdminController.create", 12],
+    ]);
+  });
+
+  it("reads Laravel routes and their controller actions", () => {
+    const parsed = php.parse(`<?php
+use App\\Http\\Controllers\\UserController;
+Route::get('/users', [UserController::class, 'index']);
+Route::post('users', 'UserController@store')->name('users.store');
+Route::match(['get', 'post'], '/search', function () { return 1; });
+Cache::get('/users');`, "/routes/web.php");
+    expect(extractRoutes(parsed)).toEqual([
+      { method: "GET", path: "/users", lineNumber: 3, framework: "laravel", handler: "UserController@index", handlerName: "index", handlerClass: "UserController" },
+      { method: "POST", path: "/users", lineNumber: 4, framework: "laravel", handler: "UserController@store", handlerName: "store", handlerClass: "UserController" },
+      { method: "GET", path: "/search", lineNumber: 5, framework: "laravel", handler: undefined, handlerName: undefined, handlerClass: undefined },
+      { method: "POST", path: "/search", lineNumber: 5, framework: "laravel", handler: undefined, handlerName: undefined, handlerClass: undefined },
+    ]);
+  });
+});
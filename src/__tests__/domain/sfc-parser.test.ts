@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { VueParser, SvelteParser } from "../../domain/parsers/sfc.js";
+
+describe("VueParser", () => {
+  const parser = new VueParser();
+
+  const source = `<template>
+  <div>
+    <UserCard :user="user" />
+    <user-avatar />
+    <transition><router-view /></transition>
+    <!-- <OldWidget /> -->
+  </div>
+</template>
+
+<script>
+export default { name: "Profile" };
+</script>
+
+<script setup lang="ts">
+import UserCard from "./UserCard.vue";
+const props = defineProps<{ id: string }>();
+function load(id: string): void {
+  fetchUser(id);
+}
+</script>
+
+<style scoped>
+.card { color: red; }
+</style>
+`;
+
+  it("parses script blocks at their original line numbers", () => {
+    const result = parser.parse(source, "/src/Profile.vue");
+    expect(result.lang).toBe("vue");
+    const load = result.functions.find((f) => f.name === "load");
+    expect(load?.lineNumber).toBe(17);
+    expect(load?.args).toEqual(["id"]);
+    expect(result.imports).toContainEqual(
+      expect.objectContaining({ name: "UserCard", source: "./UserCard.vue", lineNumber: 15 }),
+    );
+    expect(result.calls.find((c) => c.name === "fetchUser")?.lineNumber).toBe(18);
+    expect(result.hasErrors).toBe(false);
+  });
+
+  it("records the component and the child components its template uses", () => {
+    const result = parser.parse(source, "/src/Profile.vue");
+    expect(result.components).toEqual([
+      { name: "Profile", lineNumber: 1, endLine: 24, children: ["UserCard", "UserAvatar", "RouterView"] },
+    ]);
+  });
+
+  it("handles template-only components", () => {
+    const result = parser.parse("<template><Spinner /></template>\n", "/src/Loading.vue");
+    expect(result.functions).toHaveLength(0);
+    expect(result.components?.[0].children).toEqual(["Spinner"]);
+  });
+
+  it("pre-scans the component name and script symbols", () => {
+    const map = parser.preScan([{ filePath: "/src/Profile.vue", sourceCode: source }]);
+    expect(map.get("Profile")).toEqual([{ filePath: "/src/Profile.vue", lineNumber: 1 }]);
+    expect(map.get("default")).toEqual([{ filePath: "/src/Profile.vue", lineNumber: 1, exportOf: "Profile" }]);
+  });
+
+  it("exports the component as the file's default export", () => {
+    const result = parser.parse(source, "/src/Profile.vue");
+    expect(result.exports?.filter((e) => e.name === "default")).toEqual([
+      { name: "default", localName: "Profile", lineNumber: 1 },
+    ]);
+  });
+});
+
+describe("SvelteParser", () => {
+  const parser = new SvelteParser();
+
+  it("parses the script and capitalised child components", () => {
+    const source = `<script context="module">
+  export const prerender = true;
+</script>
+
+<script>
+  import Button from "./Button.svelte";
+  export let count = 0;
+  function increment() { count += 1; }
+</script>
+
+<svelte:head><title>Counter</title></svelte:head>
+<Button on:click={increment}>{count}</Button>
+<Icons.Plus />
+`;
+    const result = parser.parse(source, "/src/Counter.svelte");
+    expect(result.lang).toBe("svelte");
+    expect(result.functions.find((f) => f.name === "increment")?.lineNumber).toBe(8);
+    expect(result.components?.[0]).toEqual(
+      expect.objectContaining({ name: "Counter", children: ["Button", "Icons.Plus"] }),
+    );
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { resolveSymbol } from "../../domain/symbol-resolver.js";
+import { resolveSymbol, resolveExport } from "../../domain/symbol-resolver.js";
 import type { ParsedFile, ImportsMap } from "../../domain/types.js";
 
 function makeParsedFile(overrides: Partial<ParsedFile> = {}): ParsedFile {
@@ -71,4 +71,53 @@ describe("resolveSymbol", () => {
     const result = resolveSymbol("Alias", parsed, importsMap);
     expect(result?.filePath).toBe("/src/original.ts");
   });
+
+  describe("barrel re-exports", () => {
+    const importsMap: ImportsMap = new Map([
+      ["parse", [
+        { filePath: "/src/lib/parse.ts", lineNumber: 3 },
+        { filePath: "/src/other/parse.ts", lineNumber: 1 },
+      ]],
+      ["read", [{ filePath: "/src/lib/index.ts", lineNumber: 1, exportOf: "parse", from: "./parse.js" }]],
+      ["format", [{ filePath: "/src/lib/util/format.ts", lineNumber: 7 }]],
+      ["*", [
+        { filePath: "/src/lib/index.ts", lineNumber: 2, exportOf: "*", from: "./util" },
+        { filePath: "/src/lib/util/index.ts", lineNumber: 1, exportOf: "*", from: "./format.js" },
+      ]],
+      ["default", [{ filePath: "/src/lib/util/format.ts", lineNumber: 9, exportOf: "format" }]],
+    ]);
+
+    it("follows renamed re-exports to the definition", () => {
+      const parsed = makeParsedFile({ imports: [{ name: "read", source: "./lib", lineNumber: 1 }] });
+      expect(resolveSymbol("read", parsed, importsMap)).toEqual({ name: "parse", filePath: "/src/lib/parse.ts", lineNumber: 3 });
+    });
+
+    it("follows chains of star re-exports", () => {
+      const parsed = makeParsedFile({ imports: [{ name: "format", source: "./lib/index.js", lineNumber: 1 }] });
+      expect(resolveSymbol("format", parsed, importsMap)).toEqual({ name: "format", filePath: "/src/lib/util/format.ts", lineNumber: 7 });
+    });
+
+    it("resolves default imports through the default export", () => {
+      const parsed = makeParsedFile({ imports: [{ name: "fmt", source: "./lib/util/format", lineNumber: 1, isDefault: true }] });
+      expect(resolveSymbol("fmt", parsed, importsMap)).toEqual({ name: "format", filePath: "/src/lib/util/format.ts", lineNumber: 7 });
+    });
+
+    it("prefers the definition in the imported module", () => {
+      const parsed = makeParsedFile({
+        path: "/src/other/main.ts",
+        imports: [{ name: "parse", source: "./parse", lineNumber: 1 }],
+      });
+      expect(resolveSymbol("parse", parsed, importsMap)?.filePath).toBe("/src/other/parse.ts");
+    });
+
+    it("stops at re-export cycles", () => {
+      const cyclic: ImportsMap = new Map([
+        ["*", [
+          { filePath: "/src/a.ts", lineNumber: 1, exportOf: "*", from: "./b" },
+          { filePath: "/src/b.ts", lineNumber: 1, exportOf: "*", from: "./a" },
+        ]],
+      ]);
+      expect(resolveExport("missing", "/src/a.ts", cyclic)).toBeUndefined();
+    });
+  });
 });
@@ -52,12 +52,133 @@ class Bird implements Flyable {
     expect(bird?.implements).toContain("Flyable");
   });
 
-  it("parses type aliases as variables", () => {
-    const source = 'type ID = string | number;';
+  it("parses type aliases", () => {
+    const source = '/** An identifier. */\nexport type ID = string | number;';
     const result = parser.parse(source, "/test.ts");
-    const typeVar = result.variables.find((v) => v.name === "ID");
-    expect(typeVar).toBeDefined();
-    expect(typeVar?.type).toBe("type");
+    expect(result.typeAliases).toEqual([
+      expect.objectContaining({ name: "ID", lineNumber: 2, value: "string | number", docstring: "/** An identifier. */" }),
+    ]);
+    expect(result.variables.find((v) => v.name === "ID")).toBeUndefined();
+  });
+
+  it("captures parameter and return types", () => {
+    const source = `function run<T>(job: IndexJob, opts?: Options<T>, ...rest: ns.Extra[]): Promise<Result | null> {}
+const format = (job: IndexJob): string => "";`;
+    const result = parser.parse(source, "/test.ts");
+    const run = result.functions.find((f) => f.name === "run");
+    expect(run?.args).toEqual(["job", "opts", "...rest"]);
+    expect(run?.paramTypes).toEqual({ job: "IndexJob", opts: "Options<T>", "...rest": "ns.Extra[]" });
+    expect(run?.returnType).toBe("Promise<Result | null>");
+    expect(run?.usesTypes).toEqual(["IndexJob", "Options", "Extra", "Promise", "Result"]);
+    const format = result.functions.find((f) => f.name === "format");
+    expect(format?.usesTypes).toEqual(["IndexJob"]);
+    expect(format?.returnType).toBe("string");
+  });
+
+  it("captures typed class properties and variables", () => {
+    const source = `class Service<T> {
+  private readonly store: JobStore;
+  items: T[] = [];
+  count = 0;
+}
+const current: IndexJob | undefined = undefined;`;
+    const result = parser.parse(source, "/test.ts");
+    expect(result.classes[0].properties).toEqual([
+      { name: "store", lineNumber: 2, type: "JobStore", usesTypes: ["JobStore"], visibility: "private", isReadonly: true },
+      { name: "items", lineNumber: 3, type: "T[]", visibility: "public" },
+      { name: "count", lineNumber: 4, visibility: "public" },
+    ]);
+    expect(result.variables.find((v) => v.name === "current")?.usesTypes).toEqual(["IndexJob"]);
+  });
+
+  it("captures parameter properties and method modifiers", () => {
+    const source = `class Repo {
+  static instances = 0;
+  constructor(private readonly db: Db, public name: string, plain: number) {}
+  protected static create(): Repo { return new Repo(db, "x", 1); }
+  find() {}
+}`;
+    const result = parser.parse(source, "/test.ts");
+    expect(result.classes[0].properties).toEqual([
+      { name: "instances", lineNumber: 2, visibility: "public", isStatic: true },
+      { name: "db", lineNumber: 3, type: "Db", usesTypes: ["Db"], visibility: "private", isReadonly: true },
+      { name: "name", lineNumber: 3, type: "string", visibility: "public" },
+    ]);
+    const create = result.functions.find((f) => f.name === "create");
+    expect(create).toEqual(expect.objectContaining({ isMethod: true, visibility: "protected", isStatic: true }));
+    const find = result.functions.find((f) => f.name === "find");
+    expect(find).toEqual(expect.objectContaining({ isMethod: true, visibility: "public" }));
+  });
+
+  it("captures class, method and field decorators", () => {
+    const source = `@Controller("cats")
+@Injectable()
+export class CatsController {
+  @Input() name: string;
+  @Get(":id")
+  @HttpCode(204)
+  find(@Param("id") id: string) {}
+  plain() {}
+}
+@Entity class Cat {}`;
+    const result = parser.parse(source, "/test.ts");
+    const controller = result.classes.find((c) => c.name === "CatsController");
+    expect(controller?.decorators).toEqual(['@Controller("cats")', "@Injectable()"]);
+    expect(controller?.properties?.[0].decorators).toEqual(["@Input()"]);
+    expect(result.classes.find((c) => c.name === "Cat")?.decorators).toEqual(["@Entity"]);
+    expect(result.functions.find((f) => f.name === "find")?.decorators).toEqual(['@Get(":id")', "@HttpCode(204)"]);
+    expect(result.functions.find((f) => f.name === "plain")?.decorators).toBeUndefined();
+  });
+
+  it("parses enums with their members", () => {
+    const source = `enum Color { Red, Green = "g", Blue = 1 << 2 }
+const enum Flag { On }`;
+    const result = parser.parse(source, "/test.ts");
+    expect(result.enums?.[0]).toEqual(expect.objectContaining({
+      name: "Color",
+      members: [{ name: "Red" }, { name: "Green", value: '"g"' }, { name: "Blue", value: "1 << 2" }],
+    }));
+    expect(result.enums?.[0].isConst).toBeUndefined();
+    expect(result.enums?.[1]).toEqual(expect.objectContaining({ name: "Flag", isConst: true }));
+  });
+
+  it("parses namespaces and places their declarations in them", () => {
+    const source = `namespace Geo {
+  export function area() {}
+  export namespace Shapes {
+    export class Circle {}
+    export type Radius = number;
+  }
+}
+namespace Geo {
+  export const origin = 0;
+}
+function outside() {}`;
+    const result = parser.parse(source, "/test.ts");
+    expect(result.namespaces).toEqual([
+      { name: "Geo", lineNumber: 1, endLine: 7 },
+      { name: "Geo.Shapes", lineNumber: 3, endLine: 6, namespace: "Geo" },
+    ]);
+    expect(result.functions.find((f) => f.name === "area")?.namespace).toBe("Geo");
+    expect(result.functions.find((f) => f.name === "outside")?.namespace).toBeUndefined();
+    expect(result.classes.find((c) => c.name === "Circle")?.namespace).toBe("Geo.Shapes");
+    expect(result.typeAliases?.[0].namespace).toBe("Geo.Shapes");
+    expect(result.variables.find((v) => v.name === "origin")?.namespace).toBe("Geo");
+  });
+
+  it("parses ambient modules and global augmentations", () => {
+    const source = `declare module "express" {
+  interface Request { user: string }
+}
+declare namespace NodeJS { interface Global {} }
+declare global { interface Window {} }`;
+    const result = parser.parse(source, "/types.d.ts");
+    expect(result.namespaces).toEqual([
+      { name: "express", lineNumber: 1, endLine: 3, isAmbient: true, isModule: true },
+      { name: "NodeJS", lineNumber: 4, endLine: 4, isAmbient: true },
+      { name: "global", lineNumber: 5, endLine: 5, isAmbient: true },
+    ]);
+    expect(result.classes.find((c) => c.name === "Request")?.namespace).toBe("express");
   });
 
   it("parses optional parameters", () => {
@@ -80,4 +201,42 @@ export class Foo {
     const barMethods = result.functions.filter((f) => f.name === "bar");
     expect(barMethods).toHaveLength(1);
   });
+
+  describe("dialects", () => {
+    const component = `
+import React from "react";
+
+export function UserCard({ user }: { user: User }) {
+  const label = <T,>(value: T) => String(value);
+  return <div className="card">{label(user.name)}</div>;
+}
+
+export class Panel extends React.Component<Props> {
+  render() {
+    return <section><UserCard user={this.props.user} /></section>;
+  }
+}`;
+
+    it("parses .tsx files with the TSX grammar", () => {
+      const result = parser.parse(component, "/src/UserCard.tsx");
+      expect(result.hasErrors).toBe(false);
+      expect(result.functions.map((f) => f.name)).toEqual(
+        expect.arrayContaining(["UserCard", "label", "render"]),
+      );
+      expect(result.classes.find((c) => c.name === "Panel")).toBeDefined();
+      expect(result.renders).toEqual([
+        { component: "UserCard", lineNumber: 11, props: ["user"], callerName: "render", callerLineNumber: 10 },
+      ]);
+    });
+
+    it("parses .ts files with the TypeScript grammar", () => {
+      const result = parser.parse("const n = <number>value;", "/src/cast.ts");
+      expect(result.hasErrors).toBe(false);
+    });
+
+    it("reports syntax errors through hasErrors", () => {
+      const result = parser.parse(component, "/src/UserCard.ts");
+      expect(result.hasErrors).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, mkdirSync, writeFileSync, symlinkSync, rmSync, realpathSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { GitFileSystem } from "../../infrastructure/git-filesystem.js";
+import { gitBlobId } from "../../domain/utils.js";
+
+describe("GitFileSystem", () => {
+  let repo: string;
+  let first: string;
+
+  const git = (...args: string[]) =>
+    execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {
+      cwd: repo,
+      encoding: "utf8",
+    }).trim();
+
+  beforeAll(() => {
+    repo = realpathSync(mkdtempSync(join(tmpdir(), "codegraph-git-")));
+    git("init", "-q");
+    mkdirSync(join(repo, "src/lib"), { recursive: true });
+    mkdirSync(join(repo, "node_modules/dep"), { recursive: true });
+    writeFileSync(join(repo, "src/app.ts"), "export const version = 1;\n");
+    writeFileSync(join(repo, "src/lib/my file.js"), "module.exports = 42;\n");
+    writeFileSync(join(repo, "node_modules/dep/index.js"), "// vendored\n");
+    writeFileSync(join(repo, ".eslintrc.js"), "module.exports = {};\n");
+    symlinkSync("app.ts", join(repo, "src/link.ts"));
+    git("add", "-A");
+    git("commit", "-q", "-m", "first");
+    first = git("rev-parse", "HEAD");
+    git("tag", "v1");
+
+    // Later changes, and an uncommitted one: none are visible at v1.
+    writeFileSync(join(repo, "src/app.ts"), "export const version = 2;\n");
+    writeFileSync(join(repo, "src/new.ts"), "export {};\n");
+    git("add", "-A");
+    git("commit", "-q", "-m", "second");
+    writeFileSync(join(repo, "src/app.ts"), "export const version = 3;\n");
+  });
+
+  afterAll(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it("resolves the ref to its commit", async () => {
+    const fs = await GitFileSystem.open(repo, "v1");
+    expect(fs.revision).toEqual({ commit: first, ref: "v1" });
+  });
+
+  it("rejects refs git does not know", async () => {
+    await expect(GitFileSystem.open(repo, "no-such-branch")).rejects.toThrow(
+      `Unknown git revision "no-such-branch" in ${repo}`,
+    );
+  });
+
+  it("lists the files of the commit with their sizes, skipping symlinks", async () => {
+    const fs = await GitFileSystem.open(repo, "v1");
+    expect(fs.exists(join(repo, "src/app.ts"))).toBe(true);
+    expect(fs.exists(join(repo, "src/lib/my file.js"))).toBe(true);
+    expect(fs.exists(join(repo, "src/new.ts"))).toBe(false);
+    expect(fs.exists(join(repo, "src/link.ts"))).toBe(false);
+    expect(await fs.fileSize(join(repo, "src/app.ts"))).toBe("export const version = 1;\n".length);
+  });
+
+  it("reads file contents as they were at the commit", async () => {
+    const fs = await GitFileSystem.open(repo, "v1");
+    expect(await fs.readFile(join(repo, "src/app.ts"))).toBe("export const version = 1;\n");
+    expect(await fs.readFile(join(repo, "src/lib/my file.js"))).toBe("module.exports = 42;\n");
+    await expect(fs.readFile(join(repo, "src/new.ts"))).rejects.toThrow(/does not exist at v1/);
+  });
+
+  it("serves concurrent reads from one cat-file process and restarts it after close", async () => {
+    const fs = await GitFileSystem.open(repo, "HEAD");
+    const paths = ["src/app.ts", "src/lib/my file.js", "src/new.ts", "src/app.ts"].map((p) => join(repo, p));
+
+    expect(await Promise.all(paths.map((p) => fs.readFile(p)))).toEqual([
+      "export const version = 2;\n",
+      "module.exports = 42;\n",
+      "export {};\n",
+      "export const version = 2;\n",
+    ]);
+    await fs.close();
+    expect(await fs.readFile(join(repo, "src/new.ts"))).toBe("export {};\n");
+    await fs.close();
+  });
+
+  it("reports blob ids matching the content hash of the files", async () => {
+    const fs = await GitFileSystem.open(repo, "v1");
+    const appPath = join(repo, "src/app.ts");
+
+    expect(fs.blobId(appPath)).toBe(git("rev-parse", "v1:src/app.ts"));
+    expect(fs.blobId(appPath)).toBe(gitBlobId(await fs.readFile(appPath)));
+    expect(fs.blobId(join(repo, "src/new.ts"))).toBeUndefined();
+    await fs.close();
+  });
+
+  it("globs like fast-glob: patterns, ignores, no dotfiles", async () => {
+    const fs = await GitFileSystem.open(repo, "HEAD");
+    expect(await fs.glob(["**/*.ts", "**/*.js"], { cwd: repo, ignore: ["**/node_modules/**"] })).toEqual([
+      join(repo, "src/app.ts"),
+      join(repo, "src/lib/my file.js"),
+      join(repo, "src/new.ts"),
+    ]);
+    expect(await fs.glob(["**/*.js"], { cwd: join(repo, "src"), absolute: false })).toEqual(["lib/my file.js"]);
+  });
+
+  it("lists paths relative to a subdirectory opened on its own", async () => {
+    const fs = await GitFileSystem.open(join(repo, "src"), "v1");
+    expect(fs.exists(join(repo, "src/app.ts"))).toBe(true);
+    expect(fs.exists(join(repo, ".eslintrc.js"))).toBe(false);
+  });
+});
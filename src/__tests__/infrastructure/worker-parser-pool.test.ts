@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { WorkerParserPool } from "../../infrastructure/worker-parser-pool.js";
+
+// Stands in for the compiled parser-worker.js: the source code tells it how to behave.
+const FAKE_WORKER = `
+import { parentPort, threadId } from "node:worker_threads";
+parentPort.on("message", (task) => {
+  if (task.sourceCode === "throw") throw new Error("worker blew up");
+  if (task.sourceCode === "exit") process.exit(1);
+  if (task.sourceCode === "hang") return;
+  if (task.sourceCode === "error") {
+    parentPort.postMessage({ id: task.id, error: "cannot parse " + task.filePath });
+    return;
+  }
+  const delay = task.sourceCode === "slow" ? 50 : 0;
+  setTimeout(() => {
+    parentPort.postMessage({
+      id: task.id,
+      result: { parsed: { path: task.filePath, thread: threadId }, symbols: new Map() },
+    });
+  }, delay);
+});
+`;
+
+describe("WorkerParserPool", () => {
+  let dir: string;
+  let workerUrl: URL;
+  let pool: WorkerParserPool | undefined;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "codegraph-pool-"));
+    const workerPath = join(dir, "fake-worker.mjs");
+    writeFileSync(workerPath, FAKE_WORKER);
+    workerUrl = pathToFileURL(workerPath);
+  });
+
+  afterEach(async () => {
+    await pool?.close();
+    pool = undefined;
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const threadOf = (result: unknown) => (result as { parsed: { thread: number } }).parsed.thread;
+
+  it("dispatches files to up to `size` worker threads", async () => {
+    pool = new WorkerParserPool({ size: 2, workerUrl });
+    const results = await Promise.all(
+      ["/a.js", "/b.js", "/c.js", "/d.js"].map((filePath) => pool!.parse(filePath, "slow")),
+    );
+
+    expect(results.map((r) => r?.parsed.path)).toEqual(["/a.js", "/b.js", "/c.js", "/d.js"]);
+    expect(new Set(results.map(threadOf)).size).toBe(2);
+  });
+
+  it("parses in-process when the worker script is missing", async () => {
+    pool = new WorkerParserPool({ workerUrl: pathToFileURL(join(dir, "missing.js")) });
+    const result = await pool.parse("/src/a.js", "function foo() {}\n");
+
+    expect(result?.parsed.functions.map((f) => f.name)).toEqual(["foo"]);
+    expect(result?.symbols.get("foo")).toEqual([{ filePath: "/src/a.js", lineNumber: 1 }]);
+  });
+
+  it("rejects a file the worker reports an error for and keeps the worker", async () => {
+    pool = new WorkerParserPool({ size: 1, workerUrl });
+
+    await expect(pool.parse("/bad.js", "error")).rejects.toThrow("cannot parse /bad.js");
+    const first = await pool.parse("/a.js", "ok");
+    const second = await pool.parse("/b.js", "ok");
+    expect(threadOf(second)).toBe(threadOf(first));
+  });
+
+  it("rejects the file of a worker that throws and replaces the worker", async () => {
+    pool = new WorkerParserPool({ size: 1, workerUrl });
+
+    const crashed = pool.parse("/crash.js", "throw");
+    const queued = pool.parse("/next.js", "ok");
+
+    await expect(crashed).rejects.toThrow("worker blew up");
+    expect((await queued)?.parsed.path).toBe("/next.js");
+  });
+
+  it("rejects the file of a worker that exits mid-job", async () => {
+    pool = new WorkerParserPool({ size: 1, workerUrl });
+
+    await expect(pool.parse("/exit.js", "exit")).rejects.toThrow("Parser worker exited");
+    expect((await pool.parse("/next.js", "ok"))?.parsed.path).toBe("/next.js");
+  });
+
+  it("terminates its workers on close and rejects what is still pending", async () => {
+    pool = new WorkerParserPool({ size: 1, workerUrl });
+    const running = pool.parse("/hang.js", "hang");
+    const queued = pool.parse("/queued.js", "ok");
+    const outcomes = Promise.allSettled([running, queued]);
+
+    await pool.close();
+
+    const [runningOutcome, queuedOutcome] = await outcomes;
+    expect(runningOutcome).toMatchObject({ status: "rejected", reason: new Error("Parser worker exited") });
+    expect(queuedOutcome).toMatchObject({ status: "rejected", reason: new Error("Parser pool closed") });
+  });
+});
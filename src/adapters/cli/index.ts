@@ -2,7 +2,7 @@
 
 import "dotenv/config";
 import { Command } from "commander";
-import { resolve, basename } from "node:path";
+import { resolve, basename, relative } from "node:path";
 import { loadConfig } from "../../config.js";
 import { createAppServices } from "../../composition-root.js";
 import { startMCPServer } from "../mcp/server.js";
@@ -29,26 +29,84 @@ program
   .description("Index a directory of source code")
   .argument("[path]", "Directory to index", ".")
   .option("--dependency", "Mark as dependency (skip storing source code)")
-  .action(async (path: string, opts: { dependency?: boolean }) => {
+  .option("--dry-run", "Print what would be indexed without writing to the graph")
+  .option("--ref <ref>", "Index a git branch, tag or commit instead of the working tree")
+  .action(async (path: string, opts: { dependency?: boolean; dryRun?: boolean; ref?: string }) => {
     const absPath = resolve(path);
-    console.log(`Indexing: ${absPath}`);
+    if (opts.dryRun) {
+      await printIndexPlan(absPath, opts.dependency, opts.ref);
+      return;
+    }
+    console.log(`Indexing: ${absPath}${opts.ref ? ` at ${opts.ref}` : ""}`);
+
+    // First Ctrl+C cancels the job at the next file boundary; a second one exits.
+    const onInterrupt = () => {
+      console.log("\nCancelling... press Ctrl+C again to exit immediately.");
+      for (const job of jobs.getAll()) {
+        if (job.status === "running") jobs.cancel(job.id);
+      }
+      process.once("SIGINT", () => process.exit(130));
+    };
+    process.once("SIGINT", onInterrupt);
 
     try {
       await graph.verifyConnectivity();
-      const jobId = await indexCode.indexDirectory(absPath, opts.dependency);
+      const jobId = await indexCode.indexDirectory(absPath, opts.dependency, { ref: opts.ref });
       const job = jobs.get(jobId);
       console.log(`Done! Job: ${jobId}`);
       console.log(`  Status: ${job?.status}`);
+      if (job?.commit) console.log(`  Commit: ${job.commit} (${job.ref})`);
       console.log(`  Files: ${job?.filesProcessed}/${job?.filesTotal}`);
+      if (job?.filesRemoved) console.log(`  Removed: ${job.filesRemoved}`);
       if (job?.error) console.log(`  Error: ${job.error}`);
+      if (job?.status === "cancelled") {
+        console.log("  Run the same command again to resume.");
+        process.exitCode = 130;
+      }
     } catch (err) {
       console.error("Error:", err);
       process.exitCode = 1;
     } finally {
-      await graph.close();
+      process.off("SIGINT", onInterrupt);
+      await services.close();
     }
   });
 
+async function printIndexPlan(absPath: string, dependency?: boolean, ref?: string): Promise<void> {
+  console.log(`Dry run: ${absPath}`);
+  try {
+    await graph.verifyConnectivity();
+    const plan = await indexCode.planIndex(absPath, dependency, { ref });
+    if (plan.commit) console.log(`Commit: ${plan.commit} (${plan.ref})`);
+    const printFiles = (title: string, files: string[]) => {
+      console.log(`\n${title} (${files.length}):`);
+      for (const f of files) console.log(`  ${relative(absPath, f)}`);
+    };
+
+    printFiles("Dirty", plan.dirtyFiles);
+    printFiles("Resumed", plan.resumedFiles);
+    printFiles("Deleted", plan.deletedFiles);
+    printFiles("Unchanged", plan.unchangedFiles);
+
+    console.log("\nLanguages:");
+    for (const [lang, { files, dirty }] of Object.entries(plan.languages)) {
+      console.log(`  ${lang.padEnd(12)} ${files} files, ${dirty} dirty`);
+    }
+
+    console.log("\nDescriptions:");
+    if (plan.descriptions.enabled) {
+      console.log(`  ~${plan.descriptions.symbols} symbols and ${plan.descriptions.files} files need new descriptions`);
+    } else {
+      console.log("  disabled in .codegraph.json");
+    }
+  } catch (err) {
+    console.error("Error:", err);
+    process.exitCode = 1;
+  } finally {
+    await services.close();
+  }
+}
+
 // ── list ────────────────────────────────────────────────────────
 
 program
@@ -70,7 +128,7 @@ program
       console.error("Error:", err);
       process.exitCode = 1;
     } finally {
-      await graph.close();
+      await services.close();
     }
   });
 
@@ -99,7 +157,7 @@ program
       console.error("Error:", err);
       process.exitCode = 1;
     } finally {
-      await graph.close();
+      await services.close();
     }
   });
 
@@ -125,7 +183,7 @@ program
       console.error("Error:", err);
       process.exitCode = 1;
     } finally {
-      await graph.close();
+      await services.close();
     }
   });
 
@@ -152,7 +210,7 @@ repo
       console.error("Error:", err);
       process.exitCode = 1;
     } finally {
-      await graph.close();
+      await services.close();
     }
   });
 
@@ -171,7 +229,7 @@ repo
       console.error("Error:", err);
       process.exitCode = 1;
     } finally {
-      await graph.close();
+      await services.close();
     }
   });
 
@@ -193,12 +251,12 @@ program
       process.on("SIGINT", async () => {
         console.log("\nStopping watcher...");
         await watchService.closeAll();
-        await graph.close();
+        await services.close();
         process.exit(0);
       });
     } catch (err) {
       console.error("Error:", err);
-      await graph.close();
+      await services.close();
       process.exitCode = 1;
     }
   });
@@ -230,7 +288,7 @@ program
       console.error("Error:", err);
       process.exitCode = 1;
     } finally {
-      await graph.close();
+      await services.close();
     }
   });
 
@@ -256,7 +314,7 @@ program
       console.error("Error:", err);
       process.exitCode = 1;
     } finally {
-      await graph.close();
+      await services.close();
     }
   });
 
@@ -386,7 +444,7 @@ program
       console.error("Doctor failed:", err);
       process.exitCode = 1;
     } finally {
-      await graph.close();
+      await services.close();
     }
   });
 
@@ -416,7 +474,7 @@ analyze
       console.error("Error:", err);
       process.exitCode = 1;
     } finally {
-      await graph.close();
+      await services.close();
     }
   });
 
@@ -440,7 +498,7 @@ analyze
       console.error("Error:", err);
       process.exitCode = 1;
     } finally {
-      await graph.close();
+      await services.close();
     }
   });
 
@@ -464,7 +522,83 @@ analyze
       console.error("Error:", err);
       process.exitCode = 1;
     } finally {
-      await graph.close();
+      await services.close();
+    }
+  });
+
+analyze
+  .command("type-usages")
+  .description("Find functions, properties and variables that use a type")
+  .argument("<type>", "Class, interface, type alias or enum name")
+  .action(async (typeName: string) => {
+    try {
+      await graph.verifyConnectivity();
+      const results = await analyzeCode.findTypeUsages(typeName, 50);
+      if (results.length === 0) {
+        console.log(`No usages found for "${typeName}".`);
+      } else {
+        console.log(`Usages of "${typeName}":`);
+        for (const r of results) {
+          const name = r.className ? `${r.className}.${r.name}` : r.name;
+          console.log(`  [${r.kind}] ${name} (${r.path}:${r.lineNumber ?? "?"})`);
+        }
+      }
+    } catch (err) {
+      console.error("Error:", err);
+      process.exitCode = 1;
+    } finally {
+      await services.close();
+    }
+  });
+
+analyze
+  .command("decorated")
+  .description("Find classes, methods and properties decorated with a decorator or PHP attribute")
+  .argument("<decorator>", "Decorator name, without @")
+  .action(async (decorator: string) => {
+    try {
+      await graph.verifyConnectivity();
+      const results = await analyzeCode.findDecorated(decorator.replace(/^@/, ""), 50);
+      if (results.length === 0) {
+        console.log(`Nothing decorated with "${decorator}".`);
+      } else {
+        console.log(`Decorated with "${decorator}":`);
+        for (const r of results) {
+          const name = r.className && r.kind !== "class" ? `${r.className}.${r.name}` : r.name;
+          const args = r.arguments !== undefined ? `(${r.arguments})` : "";
+          console.log(`  [${r.kind}] ${name} @${r.decorator}${args} (${r.path}:${r.lineNumber ?? "?"})`);
+        }
+      }
+    } catch (err) {
+      console.error("Error:", err);
+      process.exitCode = 1;
+    } finally {
+      await services.close();
+    }
+  });
+
+analyze
+  .command("renderers")
+  .description("Find the components that render a JSX component")
+  .argument("<component>", "Component name")
+  .action(async (component: string) => {
+    try {
+      await graph.verifyConnectivity();
+      const results = await analyzeCode.findRenderers(component, 50);
+      if (results.length === 0) {
+        console.log(`Nothing renders "${component}".`);
+      } else {
+        console.log(`Rendering "${component}":`);
+        for (const r of results) {
+          const props = r.props.length > 0 ? ` [${r.props.join(", ")}]` : "";
+          console.log(`  ${r.name} (${r.path}:${r.lineNumber ?? "?"})${props}`);
+        }
+      }
+    } catch (err) {
+      console.error("Error:", err);
+      process.exitCode = 1;
+    } finally {
+      await services.close();
     }
   });
 
@@ -488,7 +622,7 @@ analyze
       console.error("Error:", err);
       process.exitCode = 1;
     } finally {
-      await graph.close();
+      await services.close();
     }
   });
 
@@ -512,7 +646,7 @@ analyze
       console.error("Error:", err);
       process.exitCode = 1;
     } finally {
-      await graph.close();
+      await services.close();
     }
   });
 
@@ -63,6 +63,7 @@ export function createMCPServer(services: AppServices): Server {
 
 export async function startMCPServer(services: AppServices): Promise<void> {
   const server = createMCPServer(services);
+  server.onclose = () => void services.close();
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("Code Graph MCP server running on stdio");
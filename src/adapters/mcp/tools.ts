@@ -12,12 +12,14 @@ export interface ToolDefinition {
 export const TOOL_DEFINITIONS: ToolDefinition[] = [
   {
     name: "add_code_to_graph",
-    description: "Index a directory of source code into the Neo4j graph. Supports JS, TS, TSX, and PHP files.",
+    description: "Index a directory of source code into the Neo4j graph. Supports JS, TS, TSX, PHP, Python, Go, Vue and Svelte files.",
     inputSchema: {
       type: "object",
       properties: {
         path: { type: "string", description: "Absolute path to the directory to index" },
-        is_dependency: { type: "boolean", description: "If true, skips storing source code to save space", default: false },
+        is_dependency: { type: "boolean", description: "If true, skips storing source code to save space. Defaults to the repo's .codegraph.json, else false" },
+        ref: { type: "string", description: "Git branch, tag or commit to index instead of the working tree" },
+        dry_run: { type: "boolean", description: "If true, only return the plan (dirty, unchanged and deleted files, languages, descriptions needed) without writing to the graph", default: false },
       },
       required: ["path"],
     },
@@ -48,7 +50,7 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
   },
   {
     name: "analyze_code_relationships",
-    description: "Analyze code relationships: find_callers, find_callees, class_hierarchy, dead_code, call_chain, find_importers, module_deps, find_complexity.",
+    description: "Analyze code relationships: find_callers, find_callees, class_hierarchy, dead_code, call_chain, find_importers, module_deps, find_complexity, find_type_usages, find_decorated, find_renderers.",
     inputSchema: {
       type: "object",
       properties: {
@@ -57,11 +59,12 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
           enum: [
             "find_callers", "find_callees", "class_hierarchy",
             "dead_code", "call_chain", "find_importers",
-            "module_deps", "find_complexity",
+            "module_deps", "find_complexity", "find_type_usages",
+            "find_decorated", "find_renderers",
           ],
           description: "Type of analysis to perform",
         },
-        name: { type: "string", description: "Function or class name to analyze" },
+        name: { type: "string", description: "Function, class or type name to analyze" },
         limit: { type: "number", description: "Maximum results", default: 20 },
         depth: { type: "number", description: "Max depth for call chains / hierarchy", default: 5 },
       },
@@ -141,6 +144,32 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
       },
     },
   },
+  {
+    name: "list_routes",
+    description: "List HTTP routes declared with Express, NestJS or Laravel, with the function handling each.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "Only routes whose path contains this text" },
+        repo_path: { type: "string", description: "Filter by repository path" },
+        limit: { type: "number", default: 100 },
+      },
+    },
+  },
+  {
+    name: "trace_route",
+    description: "Trace an HTTP route from its handler down the call chain.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "Route path as declared, e.g. /users/:id" },
+        method: { type: "string", description: "HTTP method; omit to trace every route on the path" },
+        depth: { type: "number", description: "Max call depth below the handler", default: 5 },
+        limit: { type: "number", description: "Maximum chains", default: 50 },
+      },
+      required: ["path"],
+    },
+  },
   {
     name: "ask_codebase",
     description: "Ask a natural language question about the indexed codebase. Uses RAG with graph context to generate an answer.",
@@ -180,6 +209,17 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
       },
     },
   },
+  {
+    name: "cancel_job",
+    description: "Cancel a running indexing job. Files already processed keep their checkpoint, so indexing the same path again resumes where it stopped.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        job_id: { type: "string", description: "Job ID to cancel" },
+      },
+      required: ["job_id"],
+    },
+  },
 ];
 
 // ── Tool handler factory ────────────────────────────────────────
@@ -205,14 +245,21 @@ export function createToolHandler(services: AppServices) {
     switch (name) {
       case "add_code_to_graph": {
         const dirPath = resolve(args.path as string);
-        const isDependency = (args.is_dependency as boolean) ?? false;
-        const jobId = await indexCode.indexDirectory(dirPath, isDependency);
+        const isDependency = args.is_dependency as boolean | undefined;
+        const options = { ref: args.ref as string | undefined };
+        if (args.dry_run) {
+          return indexCode.planIndex(dirPath, isDependency, options);
+        }
+        const jobId = await indexCode.indexDirectory(dirPath, isDependency, options);
         const job = jobs.get(jobId);
         return {
           jobId,
           status: job?.status,
+          commit: job?.commit,
           filesTotal: job?.filesTotal,
           filesProcessed: job?.filesProcessed,
+          filesRemoved: job?.filesRemoved,
+          error: job?.error,
         };
       }
 
@@ -276,6 +323,20 @@ export function createToolHandler(services: AppServices) {
         return analyzeCode.deadCode(limit, repoPath);
       }
 
+      case "list_routes": {
+        const limit = (args.limit as number) ?? 100;
+        const repoPath = args.repo_path as string | undefined;
+        return analyzeCode.listRoutes(limit, repoPath, args.path as string | undefined);
+      }
+
+      case "trace_route": {
+        const path = args.path as string;
+        const method = args.method as string | undefined;
+        const depth = (args.depth as number) ?? 5;
+        const limit = (args.limit as number) ?? 50;
+        return analyzeCode.traceRoute(path, method, depth, limit);
+      }
+
       case "ask_codebase": {
         const question = args.question as string;
         const limit = (args.limit as number) ?? 12;
@@ -306,6 +367,14 @@ export function createToolHandler(services: AppServices) {
         return jobs.getAll();
       }
 
+      case "cancel_job": {
+        const jobId = args.job_id as string;
+        const job = jobs.get(jobId);
+        if (!job) return { error: "Job not found" };
+        if (!jobs.cancel(jobId)) return { error: `Job is not running (status: ${job.status})` };
+        return { jobId, status: "cancelling" };
+      }
+
       default:
         return { error: `Unknown tool: ${name}` };
     }
@@ -338,6 +407,12 @@ async function analyzeRelationships(
       return analyzeCode.moduleDeps(name, limit);
     case "find_complexity":
       return analyzeCode.findComplexity(name, limit);
+    case "find_type_usages":
+      return analyzeCode.findTypeUsages(name, limit);
+    case "find_decorated":
+      return analyzeCode.findDecorated(name, limit);
+    case "find_renderers":
+      return analyzeCode.findRenderers(name, limit);
     default:
       return { error: `Unknown analysis type: ${type}` };
   }
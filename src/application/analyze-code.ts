@@ -5,6 +5,10 @@ import type {
   DeadCodeResult,
   ImporterResult,
   ComplexityResult,
+  TypeUsageResult,
+  DecoratedResult,
+  RouteResult,
+  RendererResult,
 } from "../domain/types.js";
 import { toNumber } from "../domain/neo4j-helpers.js";
 
@@ -81,9 +85,11 @@ export class AnalyzeCodeService implements AnalyzeCode {
 
   async findImporters(name: string, limit: number): Promise<ImporterResult[]> {
     const rows = await this.graph.runQuery(
-      `MATCH (f:File)-[r:IMPORTS]->(m:Module)
-       WHERE r.imported_name = $name OR m.name CONTAINS $name
-       RETURN f.path as file_path, m.name as module, r.imported_name as imported_name
+      `MATCH (f:File)-[r:IMPORTS|IMPORTS_FILE]->(m)
+       UNWIND coalesce(r.imported_names, [r.imported_name]) as imported_name
+       WITH f, imported_name, coalesce(m.path, m.name) as module
+       WHERE imported_name = $name OR module CONTAINS $name
+       RETURN f.path as file_path, module, imported_name
        LIMIT toInteger($limit)`,
       { name, limit },
     );
@@ -96,15 +102,115 @@ export class AnalyzeCodeService implements AnalyzeCode {
 
   async moduleDeps(name: string, limit: number): Promise<string[]> {
     const rows = await this.graph.runQuery(
-      `MATCH (f:File)-[:IMPORTS]->(m:Module)
+      `MATCH (f:File)-[:IMPORTS|IMPORTS_FILE]->(m)
        WHERE f.path CONTAINS $name OR f.name = $name
-       RETURN DISTINCT m.name as module
+       RETURN DISTINCT coalesce(m.path, m.name) as module
        LIMIT toInteger($limit)`,
       { name, limit },
     );
     return rows.map((r) => r.module as string);
   }
 
+  /** Functions, class properties and variables whose annotations mention a type. */
+  async findTypeUsages(name: string, limit: number): Promise<TypeUsageResult[]> {
+    const rows = await this.graph.runQuery(
+      `MATCH (s)-[:USES_TYPE]->(t {name: $name})
+       RETURN labels(s) as labels, s.name as name, s.path as path,
+              s.line_number as line_number, s.class_name as class_name
+       ORDER BY s.path, s.line_number
+       LIMIT toInteger($limit)`,
+      { name, limit },
+    );
+    return rows.map((r) => ({
+      kind: (r.labels as string[])[0].toLowerCase(),
+      name: r.name as string,
+      path: r.path as string,
+      lineNumber: toNumber(r.line_number),
+      className: (r.class_name as string | null) ?? undefined,
+    }));
+  }
+
+  /** Declarations decorated with `name`; a qualified decorator (`app.route`, `Attr\Route`) matches its last segment too. */
+  async findDecorated(name: string, limit: number): Promise<DecoratedResult[]> {
+    const rows = await this.graph.runQuery(
+      `MATCH (s)-[r:DECORATED_BY]->(d:Decorator)
+       WHERE d.name = $name OR d.name ENDS WITH '.' + $name OR d.name ENDS WITH '\\\\' + $name
+       RETURN labels(s) as labels, s.name as name, s.path as path, s.line_number as line_number,
+              coalesce(s.class_name, s.class_context) as class_name,
+              d.name as decorator, r.arguments as arguments
+       ORDER BY s.path, s.line_number
+       LIMIT toInteger($limit)`,
+      { name, limit },
+    );
+    return rows.map((r) => ({
+      kind: (r.labels as string[])[0].toLowerCase(),
+      name: r.name as string,
+      path: r.path as string,
+      lineNumber: toNumber(r.line_number),
+      className: (r.class_name as string | null) ?? undefined,
+      decorator: r.decorator as string,
+      arguments: (r.arguments as string | null) ?? undefined,
+    }));
+  }
+
+  /** Functions whose JSX renders the component `name`, one row per element. */
+  async findRenderers(name: string, limit: number): Promise<RendererResult[]> {
+    const rows = await this.graph.runQuery(
+      `MATCH (f:Function)-[r:RENDERS]->(c {name: $name})
+       RETURN f.name as name, f.path as path, r.line_number as line_number, r.props as props
+       ORDER BY f.path, r.line_number
+       LIMIT toInteger($limit)`,
+      { name, limit },
+    );
+    return rows.map((r) => ({
+      name: r.name as string,
+      path: r.path as string,
+      lineNumber: toNumber(r.line_number),
+      props: (r.props as string[] | null) ?? [],
+    }));
+  }
+
+  /** HTTP routes, optionally those whose path contains `path`, with the function handling each. */
+  async listRoutes(limit: number, repoPath?: string, path?: string): Promise<RouteResult[]> {
+    const rows = await this.graph.runQuery(
+      `MATCH (r:Route)
+       WHERE ($repoPath IS NULL OR r.repo_path = $repoPath) AND ($path IS NULL OR r.path CONTAINS $path)
+       OPTIONAL MATCH (r)-[:HANDLED_BY]->(f:Function)
+       RETURN r.method as method, r.path as path, r.framework as framework, r.file_path as file_path,
+              r.line_number as line_number, r.handler as handler,
+              f.path as handler_path, f.line_number as handler_line
+       ORDER BY r.path, r.method
+       LIMIT toInteger($limit)`,
+      { limit, repoPath: repoPath ?? null, path: path ?? null },
+    );
+    return rows.map((r) => ({
+      method: r.method as string,
+      path: r.path as string,
+      framework: r.framework as string,
+      filePath: r.file_path as string,
+      lineNumber: toNumber(r.line_number),
+      handler: (r.handler as string | null) ?? undefined,
+      handlerPath: (r.handler_path as string | null) ?? undefined,
+      handlerLine: toNumber(r.handler_line),
+    }));
+  }
+
+  /**
+   * Call chains from the handler of a route, each led by the route itself
+   * (`GET /users`). Without a method, every route on the path is traced.
+   */
+  async traceRoute(path: string, method: string | undefined, depth: number, limit: number): Promise<string[][]> {
+    const rows = await this.graph.runQuery(
+      `MATCH (r:Route {path: $path})
+       WHERE $method IS NULL OR r.method = toUpper($method) OR r.method = 'ALL'
+       MATCH chain = (r)-[:HANDLED_BY]->(:Function)-[:CALLS*0..${depth}]->(:Function)
+       RETURN r.method + ' ' + r.path as route, [n in tail(nodes(chain)) | n.name] as calls
+       LIMIT toInteger($limit)`,
+      { path, method: method ?? null, limit },
+    );
+    return rows.map((r) => [r.route as string, ...(r.calls as string[])]);
+  }
+
   async findComplexity(name: string, limit: number): Promise<ComplexityResult[]> {
     const rows = await this.graph.runQuery(
       `MATCH (f:Function)
@@ -1,8 +1,7 @@
 
 import crypto from "node:crypto";
-import { resolve, dirname, basename, relative, extname } from "node:path";
-import { mapWithConcurrency } from "../domain/utils.js";
-import ignore from "ignore";
+import { resolve, dirname, basename, relative } from "node:path";
+import { mapWithConcurrency, gitBlobId } from "../domain/utils.js";
 import type {
   IndexCode,
   GraphRepository,
@@ -10,131 +9,297 @@ import type {
   JobStore,
   Logger,
   GraphWriter,
-  LanguageParser,
   DescribeCode,
+  NodeRow,
+  RelationshipRow,
+  ParserPool,
+  RevisionSource,
 } from "../domain/ports.js";
 import type {
   ParsedFile,
+  ParsedClass,
+  ParsedCall,
+  ParsedImport,
+  ParsedRoute,
+  ParseResult,
   ImportsMap,
   IndexJob,
+  IndexPhase,
+  IndexPlan,
+  IndexOptions,
+  RepoConfig,
+  RepoFileFilter,
 } from "../domain/types.js";
-import { resolveSymbol } from "../domain/symbol-resolver.js";
+import {
+  resolveSymbol,
+  resolveExport,
+  moduleCandidates,
+  type ModuleResolver,
+  type ResolvedSymbol,
+} from "../domain/symbol-resolver.js";
+import {
+  resolveModulePath,
+  isPackageSpecifier,
+  innermost,
+  NODE_RESOLUTION_LANGUAGES,
+  type Workspace,
+} from "../domain/module-resolver.js";
+import {
+  qualifyPhpName,
+  phpCallCandidates,
+  relativeScope,
+  findByFqn,
+  resolvePsr4,
+  shortName,
+} from "../domain/php-resolver.js";
+import { parseDecorators } from "../domain/decorators.js";
+import { extractRoutes } from "../domain/routes.js";
+import { mergeImportsMap, type ParserRegistry } from "../domain/parsers/parser-registry.js";
+import {
+  loadRepoConfig,
+  createRepoFileFilter,
+  includePatterns,
+  DEFAULT_EXCLUDES,
+} from "./repo-config.js";
+import { loadWorkspace } from "./workspace.js";
+
+interface RepoSettings {
+  config: RepoConfig;
+  filter: RepoFileFilter;
+  /** Packages and tsconfig paths of the repository, for imports beyond relative paths. */
+  workspace: Workspace;
+}
 
 export class IndexCodeService implements IndexCode {
+  private readonly repoSettings = new Map<string, RepoSettings>();
+
   constructor(
     private readonly fs: FileSystem,
     private readonly graph: GraphRepository,
-    private readonly parser: LanguageParser,
+    private readonly parsers: ParserRegistry,
     private readonly describeCode: DescribeCode,
     private readonly jobs: JobStore,
     private readonly logger: Logger,
+    /** Parses off the main thread when given; otherwise `parsers` runs in-process. */
+    private readonly parserPool?: ParserPool,
+    /** Opens git revisions for `options.ref`; without it only the working tree can be indexed. */
+    private readonly revisions?: RevisionSource,
   ) { }
 
   async indexDirectory(
     dirPath: string,
-    isDependency = false,
+    isDependency?: boolean,
+    options: IndexOptions = {},
   ): Promise<string> {
     const absPath = resolve(dirPath);
-    const jobId = `job_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
     const job: IndexJob = {
-      id: jobId,
+      id: `job_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
       path: absPath,
       status: "running",
       filesTotal: 0,
       filesProcessed: 0,
+      filesRemoved: 0,
+      checkpoints: {},
+      ref: options.ref ?? this.fs.revision?.ref,
+      commit: this.fs.revision?.commit,
       startedAt: new Date(),
     };
     this.jobs.create(job);
 
+    if (options.ref) {
+      // An unknown ref fails the job like any other indexing error.
+      let service: IndexCodeService;
+      try {
+        service = await this.atRevision(dirPath, options.ref);
+      } catch (err) {
+        this.jobs.update(job.id, { status: "failed", error: String(err), completedAt: new Date() });
+        return job.id;
+      }
+      this.jobs.update(job.id, { commit: service.fs.revision?.commit });
+      try {
+        await service.runIndex(job, isDependency);
+      } finally {
+        await service.fs.close?.();
+      }
+    } else {
+      await this.runIndex(job, isDependency);
+    }
+    return job.id;
+  }
+
+  /** Index `job.path` through this service's file system, recording progress on `job`. */
+  private async runIndex(job: IndexJob, isDependency?: boolean): Promise<void> {
+    const absPath = job.path;
+    const jobId = job.id;
+    // Cancellation is checked between files: work already in flight finishes,
+    // so every file is left at a checkpoint the next run can resume from.
+    const signal = this.jobs.getSignal(jobId) ?? new AbortController().signal;
+
     try {
       await (this.graph as any).ensureSchema?.();
 
+      // Re-read .codegraph.json, package.json and tsconfig.json on every full run; watchers reuse them.
+      this.repoSettings.delete(absPath);
+      const { config, workspace } = await this.getRepoSettings(absPath);
+      const dependency = isDependency ?? config.dependency;
+
       const allFiles = await this.collectFiles(absPath);
       this.jobs.update(jobId, { filesTotal: allFiles.length });
 
-      if (allFiles.length === 0) {
-        this.jobs.update(jobId, { status: "completed", completedAt: new Date() });
-        return jobId;
-      }
+      // The Repository node records which commit (if any) the graph reflects
+      await this.graph.mergeNodes("Repository", [this.repositoryRow(absPath)]);
+      await this.writePackages(absPath, workspace);
 
-      // 0. Pre-fetch existing hashes from the graph for this repo
-      this.logger.info(`Checking existing state for ${allFiles.length} files...`);
-      const existingHashes = await this.graph.getRepositoryFileHashes(absPath);
+      // 0. Compare with the hashes and checkpoints already in the graph
+      const { dirtyFiles, skippedFiles, resumeFiles, deletedFiles } =
+        await this.classifyFiles(absPath, allFiles, config, signal);
+      signal.throwIfAborted();
 
-      const dirtyFiles: string[] = [];
-      const skippedFiles: string[] = [];
+      this.logger.info(
+        `Incremental plan: ${dirtyFiles.length} dirty, ${resumeFiles.size} resumed, ` +
+        `${skippedFiles.length} skipped, ${deletedFiles.length} deleted.`,
+      );
 
-      // Fast hashing to identify what needs work
-      await mapWithConcurrency(allFiles, 10, async (filePath) => {
-        try {
-          const content = await this.fs.readFile(filePath);
-          const hash = crypto.createHash("sha256").update(content).digest("hex");
-          if (existingHashes[filePath] === hash) {
-            skippedFiles.push(filePath);
-          } else {
-            dirtyFiles.push(filePath);
+      // Rewriting a file drops the edges other files hold into it (imports,
+      // calls, renders...). Files this run would not link again are relinked.
+      const relinkFiles = (await this.getDependentFiles(dirtyFiles)).filter(
+        (filePath) => !dirtyFiles.includes(filePath) && resumeFiles.get(filePath) !== "parsed",
+      );
+
+      if (deletedFiles.length > 0) {
+        await this.graph.executeBatch(async () => {
+          for (const filePath of deletedFiles) {
+            await this.removeFile(filePath);
           }
-        } catch (err) {
-          this.logger.warn(`Unreadable file ${filePath}:`, err);
-          dirtyFiles.push(filePath); // Process - anyway to see error in Phase 2
-        }
-      });
+        });
+        this.jobs.update(jobId, { filesRemoved: deletedFiles.length });
+      }
 
-      this.logger.info(`Incremental plan: ${dirtyFiles.length} dirty, ${skippedFiles.length} skipped.`);
+      // 1. Parse dirty and resumed files once. Dirty files' symbols build the
+      // imports map; files already written load theirs from the graph.
+      this.logger.info("Parsing and building imports map...");
+      const parseAll = (files: string[]) =>
+        // The pool queues work itself; this only bounds files read ahead of it.
+        mapWithConcurrency(files, 16, async (filePath) => {
+          if (signal.aborted) return null;
+          try {
+            return await this.parseFile(filePath, absPath, dependency);
+          } catch (err) {
+            this.logger.error(`Error parsing ${filePath}:`, err);
+            return null;
+          }
+        });
+      const parsedDirty = await parseAll(dirtyFiles);
+      const parsedResumed = await parseAll(Array.from(resumeFiles.keys()));
+      const parsedRelink = await parseAll(relinkFiles);
+      signal.throwIfAborted();
 
-      // 1. Build Global ImportsMap (Hybrid: Scan dirty + Load from graph for skipped)
-      this.logger.info("Building imports map...");
-      const importsMap = await this.preScanDirty(dirtyFiles);
-      if (skippedFiles.length > 0) {
-        const skippedMap = await this.graph.getImportsMapForFiles(skippedFiles);
-        for (const [name, locations] of skippedMap) {
-          if (!importsMap.has(name)) importsMap.set(name, []);
-          importsMap.get(name)!.push(...locations);
-        }
+      const importsMap: ImportsMap = new Map();
+      for (const result of parsedDirty) {
+        if (result) mergeImportsMap(importsMap, result.symbols);
+      }
+      const writtenFiles = [...skippedFiles, ...resumeFiles.keys()];
+      if (writtenFiles.length > 0) {
+        mergeImportsMap(importsMap, await this.graph.getImportsMapForFiles(writtenFiles));
       }
 
-      // 2. Phase 2: Parse & insert nodes ONLY for dirty files
-      const newParsedFiles: ParsedFile[] = await mapWithConcurrency(dirtyFiles, 4, async (filePath) => {
+      // 2. Phase 2: Insert nodes for dirty files; resumed files' structure is
+      // already in the graph.
+      const countProcessed = () => {
+        const current = this.jobs.get(jobId);
+        this.jobs.update(jobId, { filesProcessed: (current?.filesProcessed ?? 0) + 1 });
+      };
+      const written = await mapWithConcurrency(parsedDirty, 4, async (result) => {
+        if (!result || signal.aborted) return null;
+        const filePath = result.parsed.path;
         try {
-          const parsed = await this.indexFile(filePath, absPath, importsMap, isDependency);
-          const current = this.jobs.get(jobId);
-          this.jobs.update(jobId, { filesProcessed: (current?.filesProcessed ?? 0) + 1 });
-          return parsed;
+          const outcome = await this.writeFile(result.parsed);
+          this.recordCheckpoint(jobId, filePath, "parsed");
+          countProcessed();
+          return outcome;
         } catch (err) {
           this.logger.error(`Error processing ${filePath}:`, err);
           return null;
         }
-      }).then(results => results.filter((p): p is ParsedFile => p !== null));
+      });
+      const resumed = parsedResumed.flatMap((result) => {
+        if (!result) return [];
+        countProcessed();
+        return [{ parsed: result.parsed, phase: resumeFiles.get(result.parsed.path)! }];
+      });
 
-      // We still need the structure of skipped files for linking if dirty files depend on them
-      // But re-parsing them is expensive.
-      // Wait, let's just use the links that are ALREADY in the graph for skipped files.
-      // We only need to run linking for files that were COMPLETELY re-indexed.
+      signal.throwIfAborted();
 
-      // Phase 3 & 4: Link only the NEWLY indexed files
-      for (const parsed of newParsedFiles) {
+      const toLink: ParsedFile[] = [];
+      const toDescribe: { parsed: ParsedFile; previousHashes?: Record<string, string> }[] = [];
+      for (const result of written) {
+        if (!result) continue;
+        toLink.push(result.parsed);
+        toDescribe.push(result);
+      }
+      for (const result of resumed) {
+        if (result.phase === "parsed") toLink.push(result.parsed);
+        toDescribe.push({ parsed: result.parsed });
+      }
+      for (const result of parsedRelink) {
+        if (result) toLink.push(result.parsed);
+      }
+
+      // Phase 3 & 4: Link files written (or left unlinked) in this run.
+      // Skipped files keep the links that are already in the graph.
+      const linkFailed = new Set<string>();
+      for (const parsed of toLink) {
+        if (signal.aborted) break;
         try {
           await this.graph.executeBatch(async () => {
             await this.createInheritanceLinks(parsed, importsMap);
           });
         } catch (err) {
+          linkFailed.add(parsed.path);
           this.logger.error(`Error linking inheritance for ${parsed.path}:`, err);
         }
       }
 
-      for (const parsed of newParsedFiles) {
+      const linked: string[] = [];
+      for (const parsed of toLink) {
+        if (signal.aborted) break;
         try {
           await this.graph.executeBatch(async () => {
             await this.createCallLinks(parsed, importsMap, []); // [] because we use importsMap for lookup
+            await this.createComponentLinks(parsed, importsMap);
+            await this.createRenderLinks(parsed, importsMap);
+            await this.createRouteLinks(parsed, importsMap);
+            await this.createTypeUsageLinks(parsed, importsMap);
+            await this.createExportLinks(parsed, importsMap);
+            await this.createImportFileLinks(parsed);
           });
         } catch (err) {
+          linkFailed.add(parsed.path);
           this.logger.error(`Error linking calls for ${parsed.path}:`, err);
+          continue;
         }
+        if (!linkFailed.has(parsed.path)) linked.push(parsed.path);
       }
+      // Relinked files keep the checkpoint they already had.
+      const checkpointed = linked.filter((filePath) => !relinkFiles.includes(filePath));
+      await this.graph.setFilePhase(checkpointed, "linked");
+      for (const filePath of checkpointed) this.recordCheckpoint(jobId, filePath, "linked");
+      signal.throwIfAborted();
+
+      // Phase 4b: Semantic descriptions, once a file's structure and links are in place
+      await mapWithConcurrency(toDescribe, 4, async ({ parsed, previousHashes }) => {
+        if (!config.descriptions || signal.aborted || linkFailed.has(parsed.path)) return;
+        if (await this.describeParsedFile(parsed, previousHashes)) {
+          await this.graph.setFilePhase([parsed.path], "described");
+          this.recordCheckpoint(jobId, parsed.path, "described");
+        }
+      });
+      signal.throwIfAborted();
 
       // Phase 5: Directory-level descriptions (parallel)
       const dirs = Array.from(new Set(allFiles.map(file => dirname(file))));
       await mapWithConcurrency(dirs, 10, async (dir) => {
+        if (!config.descriptions || signal.aborted) return;
         const dirFiles = allFiles.filter(f => dirname(f) === dir);
         try {
           await this.describeCode.describeDirectory(absPath, dir, dirFiles);
@@ -142,6 +307,8 @@ export class IndexCodeService implements IndexCode {
           this.logger.error(`Error describing directory ${dir}:`, err);
         }
       });
+      signal.throwIfAborted();
+
       const completedAt = new Date();
       const durationMs = completedAt.getTime() - job.startedAt.getTime();
       const durationSec = (durationMs / 1000).toFixed(1);
@@ -149,425 +316,1141 @@ export class IndexCodeService implements IndexCode {
       this.jobs.update(jobId, { status: "completed", completedAt });
       this.logger.info(`Indexing completed in ${durationSec}s`);
     } catch (err) {
+      if (signal.aborted) {
+        this.jobs.update(jobId, { status: "cancelled", completedAt: new Date() });
+        this.logger.info(`Indexing job ${jobId} cancelled`);
+        return;
+      }
       this.jobs.update(jobId, {
         status: "failed",
         error: String(err),
         completedAt: new Date(),
       });
     }
+  }
+
+  async planIndex(dirPath: string, isDependency?: boolean, options: IndexOptions = {}): Promise<IndexPlan> {
+    if (options.ref) {
+      const service = await this.atRevision(dirPath, options.ref);
+      try {
+        return await service.planIndex(dirPath, isDependency);
+      } finally {
+        await service.fs.close?.();
+      }
+    }
+
+    const absPath = resolve(dirPath);
+    this.repoSettings.delete(absPath);
+    const { config } = await this.getRepoSettings(absPath);
+    const dependency = isDependency ?? config.dependency;
+
+    const allFiles = await this.collectFiles(absPath);
+    const { dirtyFiles, skippedFiles, resumeFiles, deletedFiles } =
+      await this.classifyFiles(absPath, allFiles, config);
+
+    const languages: IndexPlan["languages"] = {};
+    const dirty = new Set(dirtyFiles);
+    for (const filePath of allFiles) {
+      const lang = this.getParserForFile(filePath)?.languageName ?? "unknown";
+      languages[lang] ??= { files: 0, dirty: 0 };
+      languages[lang].files++;
+      if (dirty.has(filePath)) languages[lang].dirty++;
+    }
 
-    return jobId;
+    // Symbols whose source hash differs from the one stored with their
+    // description. Parsing only: nothing is written and no LLM is called.
+    const toDescribe = [...dirtyFiles, ...resumeFiles.keys()];
+    let symbols = 0;
+    if (config.descriptions) {
+      const storedHashes = await this.getSymbolHashes(toDescribe);
+      await mapWithConcurrency(toDescribe, 16, async (filePath) => {
+        try {
+          const result = await this.parseFile(filePath, absPath, dependency);
+          if (!result) return;
+          const previous = storedHashes.get(filePath) ?? {};
+          for (const symbol of [...result.parsed.functions, ...result.parsed.classes]) {
+            if (!symbol.source) continue;
+            const hash = crypto.createHash("sha256").update(symbol.source).digest("hex");
+            if (previous[symbol.name] !== hash) symbols++;
+          }
+        } catch (err) {
+          this.logger.warn(`Could not parse ${filePath} for the plan:`, err);
+        }
+      });
+    }
+
+    return {
+      path: absPath,
+      ref: this.fs.revision?.ref,
+      commit: this.fs.revision?.commit,
+      dirtyFiles: dirtyFiles.sort(),
+      unchangedFiles: skippedFiles.sort(),
+      resumedFiles: Array.from(resumeFiles.keys()).sort(),
+      deletedFiles: deletedFiles.sort(),
+      languages,
+      descriptions: {
+        enabled: config.descriptions,
+        files: config.descriptions ? toDescribe.length : 0,
+        symbols,
+      },
+    };
   }
 
   async indexFile(
     filePath: string,
     repoPath: string,
     importsMap: ImportsMap,
-    isDependency = false,
+    isDependency?: boolean,
   ): Promise<ParsedFile | null> {
-    const sourceCode = await this.fs.readFile(filePath);
-    const contentHash = crypto.createHash("sha256").update(sourceCode).digest("hex");
-    const storedHash = await this.graph.getContentHash("File", { path: filePath });
-
-    const parser = this.getParserForFile(filePath);
-    if (!parser) return null;
+    const { config, filter } = await this.getRepoSettings(resolve(repoPath));
+    if (!filter.acceptsFile(filePath) || !(await this.withinSizeLimit(filePath, config))) return null;
 
-    const parsed = parser.parse(sourceCode, filePath, isDependency);
-    parsed.repoPath = repoPath;
-    parsed.source = sourceCode;
+    const parsed = await this.parseFile(filePath, repoPath, isDependency ?? config.dependency);
+    if (!parsed) return null;
+    const result = await this.writeFile(parsed.parsed);
 
     // IMPORTANT: If hash matches, the structure and description are already in the graph.
     // We only return 'parsed' so that the caller can use it for Phase 3/4 (linking) if needed,
     // but we skip all the expensive database and AI work.
-    if (storedHash === contentHash) {
-      return parsed;
+    if (result.changed && config.descriptions) {
+      await this.describeParsedFile(result.parsed, result.previousHashes);
+    }
+    return result.parsed;
+  }
+
+  async removeFile(filePath: string): Promise<void> {
+    await this.graph.deleteFileNodes(filePath);
+  }
+
+  async collectFiles(dirPath: string): Promise<string[]> {
+    const absPath = resolve(dirPath);
+    const { config, filter } = await this.getRepoSettings(absPath);
+
+    const files = await this.fs.glob(includePatterns(config, this.parsers), {
+      cwd: absPath,
+      absolute: true,
+      ignore: [...DEFAULT_EXCLUDES, ...config.exclude],
+    });
+    const accepted = files.filter((f) => filter.acceptsFile(f));
+    if (config.maxFileSize === undefined) return accepted;
+
+    const fits = await mapWithConcurrency(accepted, 10, (f) => this.withinSizeLimit(f, config));
+    const kept = accepted.filter((_, i) => fits[i]);
+    if (kept.length < accepted.length) {
+      this.logger.info(`Skipping ${accepted.length - kept.length} files larger than ${config.maxFileSize} bytes`);
+    }
+    return kept;
+  }
+
+  async getFileFilter(repoPath: string): Promise<RepoFileFilter> {
+    return (await this.getRepoSettings(resolve(repoPath))).filter;
+  }
+
+  /** A copy of this service that reads `dirPath` as it was at `ref`. */
+  private async atRevision(dirPath: string, ref: string): Promise<IndexCodeService> {
+    if (!this.revisions) {
+      throw new Error("Indexing a git revision is not available in this setup");
+    }
+    const fs = await this.revisions.open(resolve(dirPath), ref);
+    return new IndexCodeService(fs, this.graph, this.parsers, this.describeCode, this.jobs, this.logger, this.parserPool);
+  }
+
+  /** Repository node row; a working-tree index clears any previously recorded commit. */
+  private repositoryRow(repoPath: string): NodeRow {
+    return {
+      key: { path: repoPath },
+      props: {
+        name: basename(repoPath),
+        commit_sha: this.fs.revision?.commit ?? null,
+        ref: this.fs.revision?.ref ?? null,
+      },
+    };
+  }
+
+  /**
+   * A Package node per package.json of the repository (the root one and
+   * workspace packages), replacing those of the previous run. Files are
+   * linked to their package as they are written.
+   */
+  private async writePackages(repoPath: string, workspace: Workspace): Promise<void> {
+    const rows: NodeRow[] = workspace.packages.map((pkg) => ({
+      key: { path: pkg.dir },
+      props: { name: pkg.name, version: pkg.version, repo_path: repoPath },
+    }));
+    await this.graph.runQuery(
+      `MATCH (r:Repository {path: $repoPath})-[:HAS_PACKAGE]->(p:Package)
+       WHERE NOT p.path IN $paths
+       DETACH DELETE p`,
+      { repoPath, paths: rows.map((row) => row.key.path) },
+    );
+    if (rows.length === 0) return;
+    await this.graph.mergeNodes("Package", rows);
+    await this.graph.mergeRelationships(
+      "Repository",
+      "Package",
+      "HAS_PACKAGE",
+      rows.map((row) => ({ from: { path: repoPath }, to: row.key })),
+    );
+  }
+
+  /**
+   * Split collected files by what indexing has to do with them, comparing
+   * content hashes and checkpoints with those stored in the graph.
+   */
+  private async classifyFiles(
+    repoPath: string,
+    allFiles: string[],
+    config: RepoConfig,
+    signal?: AbortSignal,
+  ): Promise<{
+    dirtyFiles: string[];
+    skippedFiles: string[];
+    resumeFiles: Map<string, IndexPhase>;
+    deletedFiles: string[];
+  }> {
+    this.logger.info(`Checking existing state for ${allFiles.length} files...`);
+    const existingHashes = await this.graph.getRepositoryFileHashes(repoPath);
+    const existingPhases = await this.graph.getRepositoryFilePhases(repoPath);
+
+    const dirtyFiles: string[] = [];
+    const skippedFiles: string[] = [];
+    // Unchanged files whose previous run stopped before the last phase
+    const resumeFiles = new Map<string, IndexPhase>();
+
+    // Fast hashing to identify what needs work
+    await mapWithConcurrency(allFiles, 10, async (filePath) => {
+      if (signal?.aborted) return;
+      try {
+        const hash = this.fs.blobId?.(filePath) ?? gitBlobId(await this.fs.readFile(filePath));
+        if (existingHashes[filePath] !== hash) {
+          dirtyFiles.push(filePath);
+          return;
+        }
+        // Files indexed before checkpoints existed carry no phase: trust them.
+        const phase = existingPhases[filePath];
+        // Without descriptions a linked file is complete.
+        if (phase === "parsed" || (phase === "linked" && config.descriptions)) {
+          resumeFiles.set(filePath, phase);
+        } else {
+          skippedFiles.push(filePath);
+        }
+      } catch (err) {
+        this.logger.warn(`Unreadable file ${filePath}:`, err);
+        dirtyFiles.push(filePath); // Process - anyway to see error in Phase 2
+      }
+    });
+
+    // Files the graph knows about that are no longer on disk (deleted, moved or now ignored)
+    const onDisk = new Set(allFiles);
+    const deletedFiles = Object.keys(existingHashes).filter((f) => !onDisk.has(f));
+
+    return { dirtyFiles, skippedFiles, resumeFiles, deletedFiles };
+  }
+
+  /**
+   * Files holding a relationship into one of `filePaths` or the symbols it
+   * contains, from the File node itself or from one of their own symbols.
+   */
+  private async getDependentFiles(filePaths: string[]): Promise<string[]> {
+    if (filePaths.length === 0) return [];
+    const rows = await this.graph.runQuery(
+      `UNWIND $paths AS path
+       MATCH (:File {path: path})-[:CONTAINS*0..1]->(target)<--(source)<-[:CONTAINS*0..1]-(other:File)
+       WHERE NOT other.path IN $paths
+       RETURN DISTINCT other.path as path`,
+      { paths: filePaths },
+    );
+    return rows.map((row) => row.path as string);
+  }
+
+  /** Content hashes stored with the descriptions of each file's symbols, by name. */
+  private async getSymbolHashes(filePaths: string[]): Promise<Map<string, Record<string, string>>> {
+    const hashes = new Map<string, Record<string, string>>();
+    if (filePaths.length === 0) return hashes;
+    const rows = await this.graph.runQuery(
+      `UNWIND $paths AS path
+       MATCH (f:File {path: path})-[:CONTAINS]->(s)
+       WHERE (s:Function OR s:Class OR s:Variable) AND s.content_hash IS NOT NULL
+       RETURN path, s.name as name, s.content_hash as hash`,
+      { paths: filePaths },
+    );
+    for (const row of rows) {
+      const path = row.path as string;
+      if (!hashes.has(path)) hashes.set(path, {});
+      hashes.get(path)![row.name as string] = row.hash as string;
     }
+    return hashes;
+  }
 
-    let previousHashes: Record<string, string> = {};
+  /** Config and path rules of a repository, loaded once and cached. */
+  private async getRepoSettings(repoPath: string): Promise<RepoSettings> {
+    let settings = this.repoSettings.get(repoPath);
+    if (!settings) {
+      const config = await loadRepoConfig(this.fs, repoPath);
+      const filter = await createRepoFileFilter(this.fs, repoPath, config, this.parsers);
+      const workspace = await loadWorkspace(this.fs, repoPath);
+      settings = { config, filter, workspace };
+      this.repoSettings.set(repoPath, settings);
+    }
+    return settings;
+  }
+
+  private async withinSizeLimit(filePath: string, config: RepoConfig): Promise<boolean> {
+    if (config.maxFileSize === undefined) return true;
+    try {
+      return (await this.fs.fileSize(filePath)) <= config.maxFileSize;
+    } catch {
+      return true; // unreadable files fail later with a clearer error
+    }
+  }
+
+  /**
+   * Read and parse a file without touching the graph. One parse yields
+   * both the ParsedFile and its pre-scan symbols.
+   */
+  private async parseFile(
+    filePath: string,
+    repoPath: string,
+    isDependency: boolean,
+  ): Promise<ParseResult | null> {
+    if (!this.getParserForFile(filePath)) return null;
+
+    const sourceCode = await this.fs.readFile(filePath);
+    const result = this.parserPool
+      ? await this.parserPool.parse(filePath, sourceCode, isDependency)
+      : this.parsers.parseWithSymbols(filePath, sourceCode, isDependency);
+    if (!result) return null;
+
+    const { parsed } = result;
+    parsed.repoPath = repoPath;
+    parsed.source = sourceCode;
+    if (parsed.hasErrors) {
+      this.logger.warn(`Syntax errors in ${filePath}; some symbols may be missing`);
+    }
+    return result;
+  }
+
+  /**
+   * Replace a parsed file's structure in the graph. The File node is left
+   * at the "parsed" checkpoint; linking and describing come later.
+   */
+  private async writeFile(
+    parsed: ParsedFile,
+  ): Promise<{ parsed: ParsedFile; changed: boolean; previousHashes: Record<string, string> }> {
+    const filePath = parsed.path;
+    const repoPath = parsed.repoPath;
+    const contentHash = gitBlobId(parsed.source ?? "");
+    const storedHash = await this.graph.getContentHash("File", { path: filePath });
+    const previousHashes: Record<string, string> = {};
+    if (storedHash === contentHash) {
+      return { parsed, changed: false, previousHashes };
+    }
 
     // Batch all graph writes in a single transaction
     await this.graph.executeBatch(async () => {
       // Collect old hashes BEFORE deleting (to preserve incremental AI descriptions)
-      const oldSymbols = await this.graph.runQuery(
-        `MATCH (f:File {path: $path})-[r:CONTAINS]->(s) 
-         WHERE (s:Function OR s:Class OR s:Variable) 
-         RETURN s.name as name, s.content_hash as hash`,
-        { path: filePath }
-      );
-      for (const row of oldSymbols) {
-        if (row.name && row.hash) previousHashes[row.name as string] = row.hash as string;
-      }
+      const oldSymbols = await this.getSymbolHashes([filePath]);
+      Object.assign(previousHashes, oldSymbols.get(filePath));
 
       // Remove existing file nodes (for re-indexing)
       await this.graph.deleteFileNodes(filePath);
 
-      // Insert repository node
-      await this.graph.mergeNode("Repository", { path: repoPath }, {
-        name: basename(repoPath),
-      });
-      await this.graph.mergeRelationship(
-        "Repository", { path: repoPath },
-        "File", { path: filePath },
-        "CONTAINS"
-      );
+      await this.mergeParsedData(parsed, repoPath, contentHash);
+    });
 
-      // After structural indexing, trigger semantic description - MOVED OUTSIDE TRANSACTION
+    return { parsed, changed: true, previousHashes };
+  }
 
-      await this.mergeParsedData(parsed, repoPath, importsMap);
+  /** Returns false when description generation failed outright. */
+  private async describeParsedFile(
+    parsed: ParsedFile,
+    previousHashes?: Record<string, string>,
+  ): Promise<boolean> {
+    try {
+      await this.describeCode.describeFile(parsed, previousHashes);
+      return true;
+    } catch (error) {
+      this.logger.error(`Error describing file ${parsed.path}:`, error);
+      return false;
+    }
+  }
 
-      // Insert directory hierarchy
-      const relPath = relative(repoPath, filePath);
-      const dirParts = dirname(relPath).split("/").filter(Boolean);
-      let currentDir = repoPath;
-      for (const part of dirParts) {
-        const parentDir = currentDir;
-        currentDir = resolve(currentDir, part);
-        await this.graph.mergeNode("Directory", { path: currentDir }, {
-          name: part,
-        });
-        if (parentDir === repoPath) {
-          await this.graph.mergeRelationship(
-            "Repository", { path: repoPath },
-            "Directory", { path: currentDir },
-            "CONTAINS_DIR",
-          );
-        } else {
-          await this.graph.mergeRelationship(
-            "Directory", { path: parentDir },
-            "Directory", { path: currentDir },
-            "CONTAINS_DIR",
-          );
-        }
-      }
+  private recordCheckpoint(jobId: string, filePath: string, phase: IndexPhase): void {
+    const checkpoints = this.jobs.get(jobId)?.checkpoints ?? {};
+    checkpoints[filePath] = phase;
+    this.jobs.update(jobId, { checkpoints });
+  }
 
-      // Insert file node
-      await this.graph.mergeNode("File", { path: filePath }, {
-        name: basename(filePath),
-        lang: parsed.lang,
-        repo_path: repoPath,
-        content_hash: contentHash,
-      });
+  private getParserForFile(filePath: string) {
+    return this.parsers.getParserForFile(filePath);
+  }
+
+  /**
+   * Writes the structure of a parsed file with one UNWIND statement per node
+   * label / relationship type instead of one MERGE per symbol. Nodes are
+   * written before the relationships that MATCH them.
+   */
+  private async mergeParsedData(parsed: ParsedFile, repoPath: string, contentHash: string) {
+    const filePath = parsed.path;
+    const fileKey = { path: filePath };
+    const repoKey = { path: repoPath };
 
-      // File → Directory or Repository
-      if (dirParts.length > 0) {
-        await this.graph.mergeRelationship(
-          "Directory", { path: currentDir },
-          "File", { path: filePath },
-          "CONTAINS_FILE",
-        );
+    // Directory hierarchy between the repository root and the file
+    const dirRows: NodeRow[] = [];
+    const dirLinks: { repo: RelationshipRow[]; dir: RelationshipRow[] } = { repo: [], dir: [] };
+    const dirParts = dirname(relative(repoPath, filePath)).split("/").filter((p) => p && p !== ".");
+    let currentDir = repoPath;
+    for (const part of dirParts) {
+      const parentDir = currentDir;
+      currentDir = resolve(currentDir, part);
+      dirRows.push({ key: { path: currentDir }, props: { name: part } });
+      if (parentDir === repoPath) {
+        dirLinks.repo.push({ from: repoKey, to: { path: currentDir } });
       } else {
-        await this.graph.mergeRelationship(
-          "Repository", { path: repoPath },
-          "File", { path: filePath },
-          "CONTAINS_FILE",
-        );
+        dirLinks.dir.push({ from: { path: parentDir }, to: { path: currentDir } });
       }
+    }
 
-      // Insert functions
-      for (const fn of parsed.functions) {
-        await this.graph.mergeNode(
-          "Function",
-          { name: fn.name, path: filePath, line_number: fn.lineNumber },
-          {
-            end_line: fn.endLine,
-            args: JSON.stringify(fn.args),
-            source: fn.source?.substring(0, 5000),
-            docstring: fn.docstring,
-            cyclomatic_complexity: fn.cyclomaticComplexity,
-            context: fn.context,
-            class_context: fn.classContext,
-            is_async: fn.isAsync,
-            kind: fn.kind,
-            lang: parsed.lang,
-            repo_path: repoPath,
-          },
-        );
-        await this.graph.mergeRelationship(
-          "File", { path: filePath },
-          "Function", { name: fn.name, path: filePath, line_number: fn.lineNumber },
-          "CONTAINS",
-        );
-
-        // Insert parameter nodes
-        for (const arg of fn.args) {
-          await this.graph.mergeNode(
-            "Parameter",
-            { name: arg, function_name: fn.name, path: filePath },
-            { line_number: fn.lineNumber },
-          );
-          await this.graph.mergeRelationship(
-            "Function", { name: fn.name, path: filePath, line_number: fn.lineNumber },
-            "Parameter", { name: arg, function_name: fn.name, path: filePath },
-            "HAS_PARAMETER",
-          );
-        }
+    // Decorators and PHP attributes, as DECORATED_BY links carrying their arguments
+    const decoratorLinks: { Function: RelationshipRow[]; Class: RelationshipRow[]; Property: RelationshipRow[] } =
+      { Function: [], Class: [], Property: [] };
+    const decorate = (label: keyof typeof decoratorLinks, key: Record<string, unknown>, decorators?: string[]) => {
+      for (const use of parseDecorators(decorators)) {
+        decoratorLinks[label].push({ from: key, to: { name: use.name }, props: { arguments: use.arguments } });
       }
+      return decorators ? JSON.stringify(decorators) : undefined;
+    };
 
-      // Insert classes
-      for (const cls of parsed.classes) {
-        const labels = cls.isInterface ? "Class:Interface" : "Class";
-        await this.graph.mergeNode(
-          labels,
-          { name: cls.name, path: filePath, line_number: cls.lineNumber },
-          {
-            end_line: cls.endLine,
-            bases: JSON.stringify(cls.bases),
-            implements: cls.implements ? JSON.stringify(cls.implements) : undefined,
-            source: cls.source?.substring(0, 5000),
-            docstring: cls.docstring,
-            is_abstract: cls.isAbstract,
-            is_interface: cls.isInterface,
-            lang: parsed.lang,
-            repo_path: repoPath,
-          },
-        );
-        await this.graph.mergeRelationship(
-          "File", { path: filePath },
-          "Class", { name: cls.name, path: filePath, line_number: cls.lineNumber },
-          "CONTAINS",
-        );
+    const functionRows: NodeRow[] = [];
+    const parameterRows: NodeRow[] = [];
+    const parameterLinks: RelationshipRow[] = [];
+    for (const fn of parsed.functions) {
+      const fnKey = { name: fn.name, path: filePath, line_number: fn.lineNumber };
+      functionRows.push({
+        key: fnKey,
+        props: {
+          end_line: fn.endLine,
+          args: JSON.stringify(fn.args),
+          param_types: fn.paramTypes ? JSON.stringify(fn.paramTypes) : undefined,
+          return_type: fn.returnType,
+          source: fn.source?.substring(0, 5000),
+          docstring: fn.docstring,
+          cyclomatic_complexity: fn.cyclomaticComplexity,
+          context: fn.context,
+          class_context: fn.classContext,
+          namespace: fn.namespace,
+          fqn: fn.fqn,
+          is_async: fn.isAsync,
+          kind: fn.kind,
+          visibility: fn.visibility,
+          is_static: fn.isStatic,
+          decorators: decorate("Function", fnKey, fn.decorators),
+          lang: parsed.lang,
+          repo_path: repoPath,
+        },
+      });
+      for (const arg of fn.args) {
+        const paramKey = { name: arg, function_name: fn.name, path: filePath };
+        parameterRows.push({ key: paramKey, props: { line_number: fn.lineNumber, type: fn.paramTypes?.[arg] } });
+        parameterLinks.push({ from: fnKey, to: paramKey });
       }
+    }
 
-      // Insert variables
-      for (const v of parsed.variables) {
-        await this.graph.mergeNode(
-          "Variable",
-          { name: v.name, path: filePath, line_number: v.lineNumber },
-          {
-            value: v.value,
-            type: v.type,
-            context: v.context,
-            class_context: v.classContext,
+    const classRows: NodeRow[] = [];
+    const interfaceRows: NodeRow[] = [];
+    for (const cls of parsed.classes) {
+      const classKey = { name: cls.name, path: filePath, line_number: cls.lineNumber };
+      const row: NodeRow = {
+        key: classKey,
+        props: {
+          end_line: cls.endLine,
+          bases: JSON.stringify(cls.bases),
+          implements: cls.implements ? JSON.stringify(cls.implements) : undefined,
+          traits: cls.traits ? JSON.stringify(cls.traits) : undefined,
+          source: cls.source?.substring(0, 5000),
+          docstring: cls.docstring,
+          is_abstract: cls.isAbstract,
+          is_interface: cls.isInterface,
+          is_trait: cls.isTrait,
+          decorators: decorate("Class", classKey, cls.decorators),
+          namespace: cls.namespace,
+          fqn: cls.fqn,
+          lang: parsed.lang,
+          repo_path: repoPath,
+        },
+      };
+      (cls.isInterface ? interfaceRows : classRows).push(row);
+    }
+
+    const propertyRows: NodeRow[] = [];
+    const memberLinks: { methods: RelationshipRow[]; properties: RelationshipRow[] } = { methods: [], properties: [] };
+    for (const cls of parsed.classes) {
+      const classKey = { name: cls.name, path: filePath, line_number: cls.lineNumber };
+      for (const prop of cls.properties ?? []) {
+        const propKey = { name: prop.name, class_name: cls.name, path: filePath };
+        propertyRows.push({
+          key: propKey,
+          props: {
+            line_number: prop.lineNumber,
+            type: prop.type,
+            visibility: prop.visibility,
+            is_static: prop.isStatic,
+            is_readonly: prop.isReadonly,
+            decorators: decorate("Property", propKey, prop.decorators),
             lang: parsed.lang,
             repo_path: repoPath,
           },
-        );
-        await this.graph.mergeRelationship(
-          "File", { path: filePath },
-          "Variable", { name: v.name, path: filePath, line_number: v.lineNumber },
-          "CONTAINS",
-        );
-      }
-
-      // Insert imports → Module nodes
-      for (const imp of parsed.imports) {
-        await this.graph.mergeNode("Module", { name: imp.source }, {});
-        await this.graph.mergeRelationship(
-          "File", { path: filePath },
-          "Module", { name: imp.source },
-          "IMPORTS",
-          {
-            imported_name: imp.name,
-            alias: imp.alias,
-            line_number: imp.lineNumber,
-            is_default: imp.isDefault,
-            is_namespace: imp.isNamespace,
-          },
-        );
+        });
+        memberLinks.properties.push({ from: classKey, to: propKey });
       }
-    });
+    }
 
-    // After structural indexing, trigger semantic description
-    try {
-      await this.describeCode.describeFile(parsed, previousHashes);
-    } catch (error) {
-      this.logger.error(`Error describing file ${filePath}:`, error);
+    // A method belongs to the class of its name that encloses it; Go methods
+    // sit outside their struct, so fall back to the file's only such class.
+    for (const fn of parsed.functions) {
+      if (!fn.isMethod || !fn.classContext) continue;
+      const candidates = parsed.classes.filter((c) => c.name === fn.classContext);
+      const cls =
+        candidates.find((c) => c.lineNumber <= fn.lineNumber && fn.lineNumber <= c.endLine) ??
+        (candidates.length === 1 ? candidates[0] : undefined);
+      if (!cls) continue;
+      memberLinks.methods.push({
+        from: { name: cls.name, path: filePath, line_number: cls.lineNumber },
+        to: { name: fn.name, path: filePath, line_number: fn.lineNumber },
+      });
     }
 
-    return parsed;
-  }
+    const variableRows: NodeRow[] = parsed.variables.map((v) => ({
+      key: { name: v.name, path: filePath, line_number: v.lineNumber },
+      props: {
+        value: v.value,
+        type: v.type,
+        context: v.context,
+        class_context: v.classContext,
+        namespace: v.namespace,
+        lang: parsed.lang,
+        repo_path: repoPath,
+      },
+    }));
 
-  async removeFile(filePath: string): Promise<void> {
-    await this.graph.deleteFileNodes(filePath);
-  }
+    const typeAliasRows: NodeRow[] = (parsed.typeAliases ?? []).map((t) => ({
+      key: { name: t.name, path: filePath, line_number: t.lineNumber },
+      props: {
+        end_line: t.endLine,
+        value: t.value,
+        source: t.source?.substring(0, 5000),
+        docstring: t.docstring,
+        namespace: t.namespace,
+        lang: parsed.lang,
+        repo_path: repoPath,
+      },
+    }));
 
-  async collectFiles(dirPath: string): Promise<string[]> {
-    // In this implementation we assume a single parser handles all supported extensions?
-    // Or we need to check how multiple parsers were handled before.
-    // The previous implementation used `this.parsers` array, but in `composition-root.ts`
-    // we are now passing a single `this.parser`. This is a mismatch.
-    // However, the `IndexCodeService` constructor signature I updated earlier took `parser: LanguageParser` (singular).
-    // But `collectFiles` implementation I pasted here relied on `this.parsers` (plural).
-    // I need to adjust `collectFiles` to use `this.parser`.
-    // Wait, the previous `IndexCodeService` had `private readonly parsers: LanguageParser[]`.
-    // My updated constructor in `index-code.ts` has `private readonly parser: LanguageParser`.
-    // This simplifies things but might reduce functionality if we want multiple languages.
-    // For now, I will stick to single parser to match the constructor change I made.
-
-    // Actually, to support multiple languages properly as before, retrieving the array of parsers would be better.
-    // But let's stick to the single parser I injected in `composition-root.ts` (TypeScriptParser) to avoid breaking the signature again.
-    // I will update `collectFiles` to work with `this.parser`.
-
-    const extensions = this.parser.supportedExtensions;
-    const patterns = extensions.map((ext) => `**/*${ext}`);
-
-    // Load .gitignore if present
-    const ig = (ignore as any).default ? (ignore as any).default() : (ignore as any)();
-    const gitignorePath = resolve(dirPath, ".gitignore");
-    if (this.fs.exists(gitignorePath)) {
-      const content = await this.fs.readFile(gitignorePath);
-      ig.add(content);
-    }
-    ig.add(["node_modules", "vendor", "dist", ".git", "build", "coverage"]);
-
-    const files = await this.fs.glob(patterns, {
-      cwd: dirPath,
-      absolute: true,
-      ignore: ["**/node_modules/**", "**/vendor/**", "**/dist/**", "**/.git/**", "**/build/**"],
-    });
+    const enumRows: NodeRow[] = (parsed.enums ?? []).map((e) => ({
+      key: { name: e.name, path: filePath, line_number: e.lineNumber },
+      props: {
+        end_line: e.endLine,
+        members: JSON.stringify(e.members),
+        is_const: e.isConst,
+        source: e.source?.substring(0, 5000),
+        docstring: e.docstring,
+        namespace: e.namespace,
+        lang: parsed.lang,
+        repo_path: repoPath,
+      },
+    }));
 
-    return files.filter((f) => {
-      const rel = relative(dirPath, f);
-      return !ig.ignores(rel);
-    });
-  }
+    const namespaceRows: NodeRow[] = (parsed.namespaces ?? []).map((ns) => ({
+      key: { name: ns.name, path: filePath },
+      props: {
+        line_number: ns.lineNumber,
+        end_line: ns.endLine,
+        is_ambient: ns.isAmbient,
+        is_module: ns.isModule,
+        docstring: ns.docstring,
+        namespace: ns.namespace,
+        lang: parsed.lang,
+        repo_path: repoPath,
+      },
+    }));
+
+    const componentRows: NodeRow[] = (parsed.components ?? []).map((c) => ({
+      key: { name: c.name, path: filePath },
+      props: {
+        line_number: c.lineNumber,
+        end_line: c.endLine,
+        children: JSON.stringify(c.children),
+        lang: parsed.lang,
+        repo_path: repoPath,
+      },
+    }));
+
+    const decoratorRows: NodeRow[] = [...new Set(
+      Object.values(decoratorLinks).flatMap((links) => links.map((link) => link.to.name as string)),
+    )].map((name) => ({ key: { name } }));
+
+    // A route's `path` is its URL; the file declaring it is `file_path`.
+    const routeRows: NodeRow[] = extractRoutes(parsed).map((route) => ({
+      key: this.routeKey(route, filePath),
+      props: { framework: route.framework, handler: route.handler, repo_path: repoPath },
+    }));
+
+    // Imports of repository files become IMPORTS_FILE links once every file is written.
+    const externalImports = await this.externalImports(parsed);
+    const moduleRows: NodeRow[] = externalImports.map((imp) => ({ key: { name: imp.source } }));
+    const importLinks: RelationshipRow[] = externalImports.map((imp) => ({
+      from: fileKey,
+      to: { name: imp.source },
+      props: {
+        imported_name: imp.name,
+        alias: imp.alias,
+        line_number: imp.lineNumber,
+        is_default: imp.isDefault,
+        is_namespace: imp.isNamespace,
+        is_dynamic: imp.isDynamic,
+      },
+    }));
+
+    const containsLinks = (rows: NodeRow[]): RelationshipRow[] =>
+      rows.map((row) => ({ from: fileKey, to: row.key }));
+    const namespaceLinks = (rows: NodeRow[]): RelationshipRow[] =>
+      rows
+        .filter((row) => row.props?.namespace)
+        .map((row) => ({ from: { name: row.props!.namespace, path: filePath }, to: row.key }));
+
+    // Nodes
+    await this.graph.mergeNodes("Repository", [this.repositoryRow(repoPath)]);
+    await this.graph.mergeNodes("Directory", dirRows);
+    await this.graph.mergeNodes("File", [{
+      key: fileKey,
+      props: {
+        name: basename(filePath),
+        lang: parsed.lang,
+        repo_path: repoPath,
+        content_hash: contentHash,
+        has_errors: parsed.hasErrors ?? false,
+        index_phase: "parsed",
+        exports: parsed.exports ? JSON.stringify(parsed.exports) : undefined,
+      },
+    }]);
+    await this.graph.mergeNodes("Function", functionRows);
+    await this.graph.mergeNodes("Parameter", parameterRows);
+    await this.graph.mergeNodes("Class", classRows);
+    await this.graph.mergeNodes("Class:Interface", interfaceRows);
+    await this.graph.mergeNodes("Property", propertyRows);
+    await this.graph.mergeNodes("Variable", variableRows);
+    await this.graph.mergeNodes("TypeAlias", typeAliasRows);
+    await this.graph.mergeNodes("Enum", enumRows);
+    await this.graph.mergeNodes("Namespace", namespaceRows);
+    await this.graph.mergeNodes("Component", componentRows);
+    await this.graph.mergeNodes("Module", moduleRows);
+    await this.graph.mergeNodes("Decorator", decoratorRows);
+    await this.graph.mergeNodes("Route", routeRows);
 
-  private getParserForFile(filePath: string): LanguageParser | undefined {
-    // With single parser, we just check if extension matches
-    const ext = extname(filePath).toLowerCase();
-    if (this.parser.supportedExtensions.includes(ext)) {
-      return this.parser;
+    // Relationships
+    await this.graph.mergeRelationships("Repository", "File", "CONTAINS", [{ from: repoKey, to: fileKey }]);
+    await this.graph.mergeRelationships("Repository", "Directory", "CONTAINS_DIR", dirLinks.repo);
+    await this.graph.mergeRelationships("Directory", "Directory", "CONTAINS_DIR", dirLinks.dir);
+    if (dirParts.length > 0) {
+      await this.graph.mergeRelationships("Directory", "File", "CONTAINS_FILE", [{ from: { path: currentDir }, to: fileKey }]);
+    } else {
+      await this.graph.mergeRelationships("Repository", "File", "CONTAINS_FILE", [{ from: repoKey, to: fileKey }]);
+    }
+    const { workspace } = await this.getRepoSettings(resolve(repoPath));
+    const pkg = innermost(filePath, workspace.packages);
+    if (pkg) {
+      await this.graph.mergeRelationships("Package", "File", "CONTAINS_FILE", [{ from: { path: pkg.dir }, to: fileKey }]);
+    }
+    await this.graph.mergeRelationships("File", "Function", "CONTAINS", containsLinks(functionRows));
+    await this.graph.mergeRelationships("Function", "Parameter", "HAS_PARAMETER", parameterLinks);
+    await this.graph.mergeRelationships("File", "Class", "CONTAINS", containsLinks([...classRows, ...interfaceRows]));
+    await this.graph.mergeRelationships("File", "Property", "CONTAINS", containsLinks(propertyRows));
+    await this.graph.mergeRelationships("Class", "Function", "HAS_METHOD", memberLinks.methods);
+    await this.graph.mergeRelationships("Class", "Property", "HAS_PROPERTY", memberLinks.properties);
+    await this.graph.mergeRelationships("File", "Variable", "CONTAINS", containsLinks(variableRows));
+    await this.graph.mergeRelationships("File", "TypeAlias", "CONTAINS", containsLinks(typeAliasRows));
+    await this.graph.mergeRelationships("File", "Enum", "CONTAINS", containsLinks(enumRows));
+    await this.graph.mergeRelationships("File", "Namespace", "CONTAINS", containsLinks(namespaceRows));
+    await this.graph.mergeRelationships("File", "Component", "CONTAINS", containsLinks(componentRows));
+    await this.graph.mergeRelationships("File", "Route", "CONTAINS", containsLinks(routeRows));
+    await this.graph.mergeRelationships("Namespace", "Function", "CONTAINS", namespaceLinks(functionRows));
+    await this.graph.mergeRelationships("Namespace", "Class", "CONTAINS", namespaceLinks([...classRows, ...interfaceRows]));
+    await this.graph.mergeRelationships("Namespace", "Variable", "CONTAINS", namespaceLinks(variableRows));
+    await this.graph.mergeRelationships("Namespace", "TypeAlias", "CONTAINS", namespaceLinks(typeAliasRows));
+    await this.graph.mergeRelationships("Namespace", "Enum", "CONTAINS", namespaceLinks(enumRows));
+    await this.graph.mergeRelationships("Namespace", "Namespace", "CONTAINS", namespaceLinks(namespaceRows));
+    await this.graph.mergeRelationships("File", "Module", "IMPORTS", importLinks);
+    for (const [label, links] of Object.entries(decoratorLinks)) {
+      await this.graph.mergeRelationships(label, "Decorator", "DECORATED_BY", links);
     }
-    return undefined;
   }
 
-  private async preScanDirty(files: string[]): Promise<ImportsMap> {
-    const combinedMap: ImportsMap = new Map();
-    const group: { filePath: string; sourceCode: string }[] = [];
+  private async createInheritanceLinks(
+    parsed: ParsedFile,
+    _importsMap: ImportsMap,
+  ): Promise<void> {
+    // PHP names resolve to one fully-qualified class; elsewhere any class of the name matches.
+    const target = (cls: ParsedClass, name: string) => {
+      if (parsed.lang !== "php") return { name, fqn: null };
+      const fqn = qualifyPhpName(name, cls.namespace, parsed.imports);
+      return { name: shortName(fqn), fqn };
+    };
+    const inherits = parsed.classes.flatMap((cls) =>
+      cls.bases.map((base) => {
+        const parent = target(cls, base);
+        return { childName: cls.name, childLine: cls.lineNumber, parentName: parent.name, parentFqn: parent.fqn };
+      }),
+    );
+    const implementations = parsed.classes.flatMap((cls) =>
+      (cls.implements ?? []).map((iface) => {
+        const parent = target(cls, iface);
+        return { childName: cls.name, childLine: cls.lineNumber, ifaceName: parent.name, ifaceFqn: parent.fqn };
+      }),
+    );
+    const traitUses = parsed.classes.flatMap((cls) =>
+      (cls.traits ?? []).map((name) => {
+        const trait = target(cls, name);
+        return { childName: cls.name, childLine: cls.lineNumber, traitName: trait.name, traitFqn: trait.fqn };
+      }),
+    );
 
-    for (const f of files) {
-      if (!this.getParserForFile(f)) continue;
-      try {
-        const sourceCode = await this.fs.readFile(f);
-        group.push({ filePath: f, sourceCode });
-      } catch (err) {
-        this.logger.warn(`Skipping unreadable file in preScan: ${f}`, err);
+    if (inherits.length > 0) {
+      await this.graph.runQuery(
+        `UNWIND $rows AS row
+         MATCH (child:Class {name: row.childName, path: $childPath, line_number: row.childLine})
+         MATCH (parent:Class {name: row.parentName})
+         WHERE (row.parentFqn IS NULL OR toLower(parent.fqn) = toLower(row.parentFqn))
+           AND (parent.path <> $childPath OR parent.line_number <> row.childLine)
+         MERGE (child)-[:INHERITS]->(parent)`,
+        { rows: inherits, childPath: parsed.path },
+      );
+    }
+
+    if (implementations.length > 0) {
+      await this.graph.runQuery(
+        `UNWIND $rows AS row
+         MATCH (child:Class {name: row.childName, path: $childPath, line_number: row.childLine})
+         MATCH (iface:Class {name: row.ifaceName})
+         WHERE row.ifaceFqn IS NULL OR toLower(iface.fqn) = toLower(row.ifaceFqn)
+         MERGE (child)-[:IMPLEMENTS]->(iface)`,
+        { rows: implementations, childPath: parsed.path },
+      );
+    }
+
+    if (traitUses.length > 0) {
+      await this.graph.runQuery(
+        `UNWIND $rows AS row
+         MATCH (child:Class {name: row.childName, path: $childPath, line_number: row.childLine})
+         MATCH (trait:Class {name: row.traitName})
+         WHERE row.traitFqn IS NULL OR toLower(trait.fqn) = toLower(row.traitFqn)
+         MERGE (child)-[:USES_TRAIT]->(trait)`,
+        { rows: traitUses, childPath: parsed.path },
+      );
+    }
+  }
+
+  /** USES_COMPONENT from a component to the components its markup renders. */
+  private async createComponentLinks(
+    parsed: ParsedFile,
+    importsMap: ImportsMap,
+  ): Promise<void> {
+    const resolveModule = await this.moduleResolver(parsed);
+    const rows: RelationshipRow[] = [];
+    for (const component of parsed.components ?? []) {
+      for (const child of component.children) {
+        const resolved = resolveSymbol(child, parsed, importsMap, resolveModule);
+        if (resolved) {
+          rows.push({
+            from: { name: component.name, path: parsed.path },
+            to: { name: resolved.name, path: resolved.filePath },
+          });
+        }
       }
     }
+    await this.graph.mergeRelationships("Component", "Component", "USES_COMPONENT", rows);
+  }
 
-    if (group.length === 0) return combinedMap;
+  /**
+   * RENDERS from the function containing a JSX element to the function or
+   * class component it renders, with the props it passes. Components
+   * defined in the file win over imported or global ones.
+   */
+  private async createRenderLinks(
+    parsed: ParsedFile,
+    importsMap: ImportsMap,
+  ): Promise<void> {
+    const resolveModule = await this.moduleResolver(parsed);
+    const local = new Set([...parsed.functions.map((f) => f.name), ...parsed.classes.map((c) => c.name)]);
+    const rows: Record<string, unknown>[] = [];
+    for (const render of parsed.renders ?? []) {
+      if (!render.callerName) continue;
+      const target = local.has(render.component)
+        ? { name: render.component, filePath: parsed.path }
+        : resolveSymbol(render.component, parsed, importsMap, resolveModule);
+      if (!target) continue;
+      rows.push({
+        callerName: render.callerName,
+        component: target.name,
+        targetPath: target.filePath,
+        line: render.lineNumber,
+        props: render.props,
+      });
+    }
 
-    const map = this.parser.preScan(group);
-    for (const [name, locations] of map) {
-      if (!combinedMap.has(name)) combinedMap.set(name, []);
-      combinedMap.get(name)!.push(...locations);
+    if (rows.length > 0) {
+      await this.graph.runQuery(
+        `UNWIND $rows AS row
+         MATCH (caller:Function {name: row.callerName, path: $path})
+         MATCH (t {name: row.component, path: row.targetPath})
+         WHERE t:Function OR t:Class
+         MERGE (caller)-[r:RENDERS {line_number: row.line}]->(t)
+         SET r.props = row.props`,
+        { rows, path: parsed.path },
+      );
     }
+  }
 
-    return combinedMap;
+  /**
+   * HANDLED_BY from each route to the function serving it. NestJS handlers
+   * are methods of the controller itself; Express handlers resolve like
+   * calls, and Laravel controller actions like static calls into the class.
+   */
+  private async createRouteLinks(parsed: ParsedFile, importsMap: ImportsMap): Promise<void> {
+    const resolveModule = await this.moduleResolver(parsed);
+    const rows: RelationshipRow[] = [];
+    for (const route of extractRoutes(parsed)) {
+      if (!route.handlerName) continue;
+      let target: Record<string, unknown> | undefined;
+      if (route.handlerLine !== undefined) {
+        target = { name: route.handlerName, path: parsed.path, line_number: route.handlerLine };
+      } else if (route.handlerClass) {
+        target = await this.resolveControllerAction(route.handlerClass, route.handlerName, route.lineNumber, parsed, importsMap);
+      } else {
+        const resolved = resolveSymbol(route.handlerName, parsed, importsMap, resolveModule);
+        const localFn = parsed.functions.find((f) => f.name === route.handlerName);
+        if (resolved) target = { name: route.handlerName, path: resolved.filePath };
+        else if (localFn) target = { name: localFn.name, path: parsed.path, line_number: localFn.lineNumber };
+      }
+      if (target) rows.push({ from: this.routeKey(route, parsed.path), to: target });
+    }
+    await this.graph.mergeRelationships("Route", "Function", "HANDLED_BY", rows);
   }
 
-  // Merges the parsed data (structure) into the graph - logic moved from indexFile to here or mostly inline
-  // Wait, I missed the `mergeParsedData` method in the class body.
-  // The original code called `this.mergeParsedData`.
-  // I will implement it as a no-op or reuse the logic if it was effectively doing the node insertions I inlined above.
-  // Looking at the previous code, `indexFile` called `mergeParsedData`.
-  // But I have inlined most of the node creation in `indexFile` above.
-  // Let's check `mergeParsedData` usage.
-  // Ah, I see `await this.mergeParsedData(parsed, repoPath, importsMap);` in my `indexFile` above.
-  // So I need to define it.
+  private routeKey(route: ParsedRoute, filePath: string): Record<string, unknown> {
+    return { method: route.method, path: route.path, file_path: filePath, line_number: route.lineNumber };
+  }
 
-  private async mergeParsedData(parsed: ParsedFile, repoPath: string, importsMap: ImportsMap) {
-    // This seems to be where the logic I inlined in `indexFile` (creating Functions, Classes, etc.) usually resides?
-    // Or maybe `mergeParsedData` is where the specific node creation happens?
-    // In the previous `index-code.ts` I viewed, `indexFile` did the file node creation and then called `mergeParsedData`.
-    // The `mergeParsedData` method itself was NOT shown in the file view I had earlier? 
-    // Wait, let me check the file content I viewed in step 379.
-    // Lines 295+ ... I don't see `mergeParsedData` definition around there?
-    // Ah, I see line 142 calling `mergeParsedData` but I don't see the method definition in the file view.
-    // It might have been missed or I am blind.
-    // Re-reading step 379... I don't see `private async mergeParsedData` defined anywhere.
-    // It seems it was missing from the file I viewed?!
-    // Or maybe it was `mergeParsedData` that WAS the block of code inserting functions/classes?
-    // Actually, looking at the code I viewed:
-    // usage: line 142 `await this.mergeParsedData(parsed, repoPath, importsMap);`
-    // Then lines 145-292 do directory, file, function, class, variable, import insertions.
-    // So `mergeParsedData` might have been intended to do some other merging?
-    // OR, the code I viewed was ALREADY broken/refactored partially?
-    // In any case, since I have the insertion logic INLINED in `indexFile` (lines 145-292 of the viewed file),
-    // I probably SHOULD NOT call `mergeParsedData` unless I define it.
-    // I will REMOVE the call to `mergeParsedData` and assume the inlined logic covers it.
-    // The inlined logic covers Functions, Classes, Variables, Imports. That covers most of `ParsedFile`.
+  /**
+   * The method a Laravel controller action names. String actions
+   * (`'UserController@index'`) are relative to a controller namespace the
+   * route file never declares, so when name resolution misses, any class
+   * of that short name with the method will do.
+   */
+  private async resolveControllerAction(
+    className: string,
+    method: string,
+    lineNumber: number,
+    parsed: ParsedFile,
+    importsMap: ImportsMap,
+  ): Promise<Record<string, unknown> | undefined> {
+    const namespace = parsed.namespaces?.find((ns) => ns.lineNumber <= lineNumber && lineNumber <= ns.endLine)?.name;
+    const call = { name: method, lineNumber, args: [], fullCallName: `${className}::${method}`, inferredObjType: className };
+    const fqns = phpCallCandidates(call, namespace, parsed.imports);
+    const target = fqns && await this.resolvePhpCall(fqns, parsed, importsMap);
+    if (target) return target;
+    const suffix = `${shortName(className)}::${method}`.toLowerCase();
+    const found = importsMap.get(method)?.find((l) => {
+      const fqn = l.fqn?.toLowerCase();
+      return fqn === suffix || fqn?.endsWith(`\\${suffix}`);
+    });
+    return found && { name: method, path: found.filePath, line_number: found.lineNumber };
   }
 
+  /**
+   * USES_TYPE from functions, class properties and variables to the classes,
+   * interfaces, type aliases and enums named in their annotations. Types
+   * declared in the file win over imported or global ones.
+   */
+  private async createTypeUsageLinks(
+    parsed: ParsedFile,
+    importsMap: ImportsMap,
+  ): Promise<void> {
+    const resolveModule = await this.moduleResolver(parsed);
+    const localTypes = new Set([
+      ...parsed.classes.map((c) => c.name),
+      ...(parsed.typeAliases ?? []).map((t) => t.name),
+      ...(parsed.enums ?? []).map((e) => e.name),
+    ]);
+    const typePath = (typeName: string) =>
+      localTypes.has(typeName) ? parsed.path : resolveSymbol(typeName, parsed, importsMap, resolveModule)?.filePath;
+    const usages = <T extends { usesTypes?: string[] }>(symbols: T[], key: (s: T) => Record<string, unknown>) =>
+      symbols.flatMap((s) =>
+        (s.usesTypes ?? []).flatMap((typeName) => {
+          const path = typePath(typeName);
+          return path ? [{ ...key(s), typeName, typePath: path }] : [];
+        }),
+      );
 
-  private async createInheritanceLinks(
+    const queries: [string, Record<string, unknown>[]][] = [
+      [
+        "MATCH (s:Function {name: row.name, path: $path, line_number: row.line})",
+        usages(parsed.functions, (fn) => ({ name: fn.name, line: fn.lineNumber })),
+      ],
+      [
+        "MATCH (s:Variable {name: row.name, path: $path, line_number: row.line})",
+        usages(parsed.variables, (v) => ({ name: v.name, line: v.lineNumber })),
+      ],
+      [
+        "MATCH (s:Property {name: row.name, class_name: row.className, path: $path})",
+        parsed.classes.flatMap((cls) =>
+          usages(cls.properties ?? [], (prop) => ({ name: prop.name, className: cls.name })),
+        ),
+      ],
+    ];
+    for (const [matchSource, rows] of queries) {
+      if (rows.length === 0) continue;
+      await this.graph.runQuery(
+        `UNWIND $rows AS row
+         ${matchSource}
+         MATCH (t {name: row.typeName, path: row.typePath})
+         WHERE t:Class OR t:TypeAlias OR t:Enum
+         MERGE (s)-[:USES_TYPE]->(t)`,
+        { rows, path: parsed.path },
+      );
+    }
+  }
+  /**
+   * EXPORTS from the file to the definition behind each export, named as
+   * importers see it; re-exports are followed to the defining file. An
+   * `export *` links to the module file it forwards.
+   */
+  private async createExportLinks(
     parsed: ParsedFile,
-    _importsMap: ImportsMap,
+    importsMap: ImportsMap,
   ): Promise<void> {
-    for (const cls of parsed.classes) {
-      for (const baseName of cls.bases) {
-        await this.graph.runQuery(
-          `MATCH (child:Class {name: $childName, path: $childPath, line_number: $childLine})
-           MATCH (parent:Class {name: $parentName})
-           WHERE parent.path <> $childPath OR parent.line_number <> $childLine
-           MERGE (child)-[:INHERITS]->(parent)`,
-          {
-            childName: cls.name,
-            childPath: parsed.path,
-            childLine: cls.lineNumber,
-            parentName: baseName,
-          },
-        );
+    const resolveModule = await this.moduleResolver(parsed);
+    const rows: Record<string, unknown>[] = [];
+    const stars: Record<string, unknown>[] = [];
+    for (const exp of parsed.exports ?? []) {
+      if (exp.name === "*") {
+        const target = await this.resolveModuleFile(exp.source!, parsed);
+        if (target) stars.push({ target });
+        continue;
       }
-
-      if (cls.implements) {
-        for (const ifaceName of cls.implements) {
-          await this.graph.runQuery(
-            `MATCH (child:Class {name: $childName, path: $childPath, line_number: $childLine})
-             MATCH (iface:Class {name: $ifaceName})
-             MERGE (child)-[:IMPLEMENTS]->(iface)`,
-            {
-              childName: cls.name,
-              childPath: parsed.path,
-              childLine: cls.lineNumber,
-              ifaceName,
-            },
-          );
-        }
+      const target = exp.source === undefined
+        ? { name: exp.localName ?? exp.name, filePath: parsed.path }
+        : resolveExport(exp.name, parsed.path, importsMap, resolveModule);
+      if (target && target.name !== "default") {
+        rows.push({ name: exp.name, symbol: target.name, symbolPath: target.filePath });
       }
     }
+
+    if (rows.length > 0) {
+      await this.graph.runQuery(
+        `UNWIND $rows AS row
+         MATCH (f:File {path: $path})
+         MATCH (s {name: row.symbol, path: row.symbolPath})
+         WHERE s:Function OR s:Class OR s:Variable OR s:TypeAlias OR s:Enum OR s:Namespace OR s:Component
+         MERGE (f)-[r:EXPORTS {name: row.name}]->(s)`,
+        { rows, path: parsed.path },
+      );
+    }
+    if (stars.length > 0) {
+      await this.graph.runQuery(
+        `UNWIND $rows AS row
+         MATCH (f:File {path: $path})
+         MATCH (m:File {path: row.target})
+         MERGE (f)-[:EXPORTS {name: "*"}]->(m)`,
+        { rows: stars, path: parsed.path },
+      );
+    }
+  }
+
+  /** IMPORTS_FILE from the file to each repository file its imports resolve to. */
+  private async createImportFileLinks(parsed: ParsedFile): Promise<void> {
+    const targets = new Map<string, { names: string[]; lineNumber: number; isDynamic: boolean }>();
+    for (const imp of parsed.imports) {
+      const target = await this.resolveModuleFile(imp.source, parsed);
+      if (!target || target === parsed.path) continue;
+      const link = targets.get(target) ?? { names: [], lineNumber: imp.lineNumber, isDynamic: true };
+      link.names.push(imp.name);
+      link.isDynamic &&= imp.isDynamic === true;
+      targets.set(target, link);
+    }
+    const rows: RelationshipRow[] = [...targets].map(([path, link]) => ({
+      from: { path: parsed.path },
+      to: { path },
+      props: { imported_names: link.names, line_number: link.lineNumber, is_dynamic: link.isDynamic || undefined },
+    }));
+    await this.graph.mergeRelationships("File", "File", "IMPORTS_FILE", rows);
+  }
+
+  /**
+   * The repository file a module specifier names, by Node/TypeScript
+   * resolution, or for a PHP `use` the class file PSR-4 autoloading
+   * loads. Undefined for external packages, paths that name no indexed
+   * file, and languages that resolve imports their own way.
+   */
+  private async resolveModuleFile(source: string, parsed: ParsedFile): Promise<string | undefined> {
+    if (!NODE_RESOLUTION_LANGUAGES.has(parsed.lang) && parsed.lang !== "php") return undefined;
+    const { filter, workspace } = await this.getRepoSettings(resolve(parsed.repoPath));
+    const isFile = (path: string) => filter.acceptsFile(path) && this.fs.exists(path);
+    return parsed.lang === "php"
+      ? resolvePsr4(source, workspace.psr4, isFile)
+      : resolveModulePath(source, parsed.path, workspace, isFile);
   }
 
+  /**
+   * How symbol resolution finds the modules a file imports: the file
+   * Node/TypeScript resolution picks (so tsconfig paths and workspace
+   * packages count), else every relative candidate.
+   */
+  private async moduleResolver(parsed: ParsedFile): Promise<ModuleResolver> {
+    if (parsed.lang === "php") {
+      const { filter, workspace } = await this.getRepoSettings(resolve(parsed.repoPath));
+      const isFile = (path: string) => filter.acceptsFile(path) && this.fs.exists(path);
+      return (source) => {
+        const file = resolvePsr4(source, workspace.psr4, isFile);
+        return file ? [file] : [];
+      };
+    }
+    if (!NODE_RESOLUTION_LANGUAGES.has(parsed.lang)) return moduleCandidates;
+    const { filter, workspace } = await this.getRepoSettings(resolve(parsed.repoPath));
+    const isFile = (path: string) => filter.acceptsFile(path) && this.fs.exists(path);
+    return (source, fromPath) => {
+      const file = resolveModulePath(source, fromPath, workspace, isFile);
+      return file ? [file] : moduleCandidates(source, fromPath);
+    };
+  }
+
+  /**
+   * Imports kept as Module nodes: package imports (PHP: `use` and
+   * includes) that name no repository file, and every import of languages
+   * without Node-style resolution.
+   */
+  private async externalImports(parsed: ParsedFile): Promise<ParsedImport[]> {
+    if (!NODE_RESOLUTION_LANGUAGES.has(parsed.lang) && parsed.lang !== "php") return parsed.imports;
+    const external: ParsedImport[] = [];
+    for (const imp of parsed.imports) {
+      const isPackage = parsed.lang === "php" || isPackageSpecifier(imp.source);
+      if (isPackage && !(await this.resolveModuleFile(imp.source, parsed))) external.push(imp);
+    }
+    return external;
+  }
+
+
   private async createCallLinks(
     parsed: ParsedFile,
     importsMap: ImportsMap,
     allParsedFiles: ParsedFile[],
   ): Promise<void> {
+    const resolveModule = await this.moduleResolver(parsed);
+    const rows: RelationshipRow[] = [];
+    const classScopedRows: Record<string, unknown>[] = [];
     for (const call of parsed.calls) {
       if (!call.callerName) continue;
 
-      const resolved = resolveSymbol(call.name, parsed, importsMap);
-      if (resolved) {
-        await this.graph.runQuery(
-          `MATCH (caller:Function {name: $callerName, path: $callerPath})
-           MATCH (callee:Function {name: $calleeName, path: $calleePath})
-           MERGE (caller)-[:CALLS {line_number: $lineNumber}]->(callee)`,
-          {
-            callerName: call.callerName,
-            callerPath: parsed.path,
-            calleeName: call.name,
-            calleePath: resolved.filePath,
-            lineNumber: call.lineNumber,
-          },
-        );
+      const scope = parsed.lang === "php" ? relativeScope(call) : undefined;
+      if (scope) {
+        const row = this.classScopedCall(call, scope, parsed);
+        if (row) classScopedRows.push(row);
+        continue;
+      }
+
+      const caller = { name: call.callerName, path: parsed.path };
+      const fqns = parsed.lang === "php" ? this.phpCallTargets(call, parsed) : undefined;
+      let target: Record<string, unknown> | undefined;
+      if (fqns) {
+        target = await this.resolvePhpCall(fqns, parsed, importsMap);
+      } else {
+        const resolved = resolveSymbol(call.name, parsed, importsMap, resolveModule);
+        target = resolved && this.definitionKey(resolved);
+      }
+      if (target) {
+        rows.push({ from: caller, to: target, props: { line_number: call.lineNumber } });
       } else {
         const localFn = parsed.functions.find((f) => f.name === call.name);
         if (localFn) {
-          await this.graph.runQuery(
-            `MATCH (caller:Function {name: $callerName, path: $path})
-             MATCH (callee:Function {name: $calleeName, path: $path2, line_number: $calleeLine})
-             MERGE (caller)-[:CALLS {line_number: $lineNumber}]->(callee)`,
-            {
-              callerName: call.callerName,
-              path: parsed.path,
-              calleeName: call.name,
-              path2: parsed.path,
-              calleeLine: localFn.lineNumber,
-              lineNumber: call.lineNumber,
-            },
-          );
+          rows.push({
+            from: caller,
+            to: { name: call.name, path: parsed.path, line_number: localFn.lineNumber },
+            props: { line_number: call.lineNumber },
+          });
         }
       }
     }
+
+    await this.graph.mergeRelationships("Function", "Function", "CALLS", rows);
+
+    // `self::`/`static::` look in the calling class first, `parent::` in its
+    // parent; then up the INHERITS chain, where a class's own methods win
+    // over those of its traits, which win over inherited ones.
+    if (classScopedRows.length > 0) {
+      await this.graph.runQuery(
+        `UNWIND $rows AS row
+         MATCH (caller:Function {name: row.callerName, path: $path, line_number: row.callerLine})
+         MATCH (cls:Class {name: row.className, path: $path, line_number: row.classLine})
+         OPTIONAL MATCH (cls)-[:INHERITS]->(parent:Class)
+         WITH row, caller, CASE WHEN row.scope = "parent" THEN parent ELSE cls END AS start
+         WHERE start IS NOT NULL
+         MATCH p = (start)-[:INHERITS|USES_TRAIT*0..]->(:Class)-[:HAS_METHOD]->(m:Function {name: row.method})
+         WITH row, caller, m, size([r IN relationships(p) WHERE type(r) = "INHERITS"]) AS hops, length(p) AS depth
+         ORDER BY hops, depth
+         WITH row, caller, collect(m)[0] AS target
+         MERGE (caller)-[:CALLS {line_number: row.line}]->(target)`,
+        { rows: classScopedRows, path: parsed.path },
+      );
+    }
+  }
+
+  /**
+   * Function key of a resolved definition, under its own name rather than
+   * the caller's alias. The line is left out when only an export statement
+   * was found, since the definition may start elsewhere.
+   */
+  private definitionKey(resolved: ResolvedSymbol): Record<string, unknown> {
+    return resolved.atExport
+      ? { name: resolved.name, path: resolved.filePath }
+      : { name: resolved.name, path: resolved.filePath, line_number: resolved.lineNumber };
+  }
+
+  /** A `self::`/`static::`/`parent::` call with the class whose method makes it, for the chain lookup. */
+  private classScopedCall(call: ParsedCall, scope: string, parsed: ParsedFile): Record<string, unknown> | undefined {
+    const caller = parsed.functions.find((f) => f.name === call.callerName && f.lineNumber === call.callerLineNumber);
+    const cls = parsed.classes.find(
+      (c) => c.name === caller?.classContext && c.lineNumber <= caller.lineNumber && caller.lineNumber <= c.endLine,
+    );
+    if (!caller || !cls) return undefined;
+    return {
+      callerName: caller.name,
+      callerLine: caller.lineNumber,
+      className: cls.name,
+      classLine: cls.lineNumber,
+      scope,
+      method: call.name,
+      line: call.lineNumber,
+    };
+  }
+
+  /** Fully-qualified names a PHP call may target, in the namespace of its caller. */
+  private phpCallTargets(call: ParsedCall, parsed: ParsedFile): string[] | undefined {
+    const caller = parsed.functions.find((f) => f.name === call.callerName && f.lineNumber === call.callerLineNumber);
+    return phpCallCandidates(call, caller?.namespace, parsed.imports);
+  }
+
+  /**
+   * The function a PHP call names by FQN. A static call into a class no
+   * scanned file defines still resolves to the class file PSR-4 points at.
+   */
+  private async resolvePhpCall(
+    fqns: string[],
+    parsed: ParsedFile,
+    importsMap: ImportsMap,
+  ): Promise<Record<string, unknown> | undefined> {
+    const found = findByFqn(fqns, importsMap);
+    if (found) return { name: found.name, path: found.filePath, line_number: found.lineNumber };
+    const [classFqn, method] = fqns[0].split("::");
+    const classFile = method ? await this.resolveModuleFile(classFqn, parsed) : undefined;
+    return classFile ? { name: method, path: classFile } : undefined;
   }
 }
@@ -3,9 +3,11 @@ import type { IndexJob } from "../domain/types.js";
 
 export class InMemoryJobStore implements JobStore {
   private jobs = new Map<string, IndexJob>();
+  private controllers = new Map<string, AbortController>();
 
   create(job: IndexJob): void {
     this.jobs.set(job.id, job);
+    this.controllers.set(job.id, new AbortController());
   }
 
   get(id: string): IndexJob | undefined {
@@ -20,6 +22,18 @@ export class InMemoryJobStore implements JobStore {
     const job = this.jobs.get(id);
     if (job) {
       Object.assign(job, partial);
+      if (job.status !== "running") this.controllers.delete(id);
     }
   }
+
+  cancel(id: string): boolean {
+    const controller = this.controllers.get(id);
+    if (!controller || controller.signal.aborted) return false;
+    controller.abort(new Error(`Job ${id} was cancelled`));
+    return true;
+  }
+
+  getSignal(id: string): AbortSignal | undefined {
+    return this.controllers.get(id)?.signal;
+  }
 }
@@ -0,0 +1,114 @@
+import { resolve, relative } from "node:path";
+import ignore from "ignore";
+import picomatch from "picomatch";
+import type { FileSystem } from "../domain/ports.js";
+import type { RepoConfig, RepoFileFilter, SupportedLanguage } from "../domain/types.js";
+import type { ParserRegistry } from "../domain/parsers/parser-registry.js";
+
+export const REPO_CONFIG_FILE = ".codegraph.json";
+
+/** Always excluded, whatever the repository config says. */
+export const DEFAULT_EXCLUDES = [
+  "**/node_modules/**",
+  "**/vendor/**",
+  "**/dist/**",
+  "**/.git/**",
+  "**/build/**",
+  "**/coverage/**",
+];
+
+const LANGUAGES: SupportedLanguage[] = ["javascript", "typescript", "php", "python", "go", "vue", "svelte"];
+
+/**
+ * Read `.codegraph.json` from the repository root. A missing file yields the
+ * defaults; a malformed one throws so the job fails instead of indexing the
+ * wrong set of files.
+ */
+export async function loadRepoConfig(fs: FileSystem, repoPath: string): Promise<RepoConfig> {
+  const config: RepoConfig = { exclude: [], descriptions: true, dependency: false };
+  const configPath = resolve(repoPath, REPO_CONFIG_FILE);
+  if (!fs.exists(configPath)) return config;
+
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(await fs.readFile(configPath));
+  } catch (err) {
+    throw new Error(`Invalid ${REPO_CONFIG_FILE} in ${repoPath}: ${err instanceof Error ? err.message : err}`);
+  }
+  const invalid = (key: string, expected: string) =>
+    new Error(`Invalid ${REPO_CONFIG_FILE} in ${repoPath}: "${key}" must be ${expected}`);
+  const isStringArray = (v: unknown): v is string[] =>
+    Array.isArray(v) && v.every((item) => typeof item === "string");
+
+  if (raw.include !== undefined) {
+    if (!isStringArray(raw.include)) throw invalid("include", "an array of globs");
+    config.include = raw.include;
+  }
+  if (raw.exclude !== undefined) {
+    if (!isStringArray(raw.exclude)) throw invalid("exclude", "an array of globs");
+    config.exclude = raw.exclude;
+  }
+  if (raw.languages !== undefined) {
+    if (!isStringArray(raw.languages) || !raw.languages.every((l) => LANGUAGES.includes(l as SupportedLanguage))) {
+      throw invalid("languages", `an array of ${LANGUAGES.join(", ")}`);
+    }
+    config.languages = raw.languages as SupportedLanguage[];
+  }
+  if (raw.maxFileSize !== undefined) {
+    if (typeof raw.maxFileSize !== "number" || raw.maxFileSize <= 0) throw invalid("maxFileSize", "a positive number of bytes");
+    config.maxFileSize = raw.maxFileSize;
+  }
+  if (raw.descriptions !== undefined) {
+    if (typeof raw.descriptions !== "boolean") throw invalid("descriptions", "true or false");
+    config.descriptions = raw.descriptions;
+  }
+  if (raw.dependency !== undefined) {
+    if (typeof raw.dependency !== "boolean") throw invalid("dependency", "true or false");
+    config.dependency = raw.dependency;
+  }
+  return config;
+}
+
+/** Glob patterns (relative to the repo root) that select candidate files. */
+export function includePatterns(config: RepoConfig, parsers: ParserRegistry): string[] {
+  return config.include ?? parsers.supportedExtensions.map((ext) => `**/*${ext}`);
+}
+
+/**
+ * Build the path rules of a repository: include and exclude globs, the
+ * repository's .gitignore and the languages enabled in its config.
+ */
+export async function createRepoFileFilter(
+  fs: FileSystem,
+  repoPath: string,
+  config: RepoConfig,
+  parsers: ParserRegistry,
+): Promise<RepoFileFilter> {
+  const ig = (ignore as any).default ? (ignore as any).default() : (ignore as any)();
+  const gitignorePath = resolve(repoPath, ".gitignore");
+  if (fs.exists(gitignorePath)) {
+    ig.add(await fs.readFile(gitignorePath));
+  }
+
+  const isIncluded = picomatch(includePatterns(config, parsers), { dot: true });
+  const isExcludedGlob = picomatch([...DEFAULT_EXCLUDES, ...config.exclude], { dot: true });
+  const languages = config.languages ? new Set<string>(config.languages) : undefined;
+
+  const toRelative = (path: string) => relative(repoPath, resolve(repoPath, path));
+  const isExcluded = (path: string): boolean => {
+    const rel = toRelative(path);
+    if (!rel || rel.startsWith("..")) return false;
+    return isExcludedGlob(rel) || ig.ignores(rel);
+  };
+
+  return {
+    isExcluded,
+    acceptsFile(filePath: string): boolean {
+      const rel = toRelative(filePath);
+      if (!rel || rel.startsWith("..") || isExcluded(filePath) || !isIncluded(rel)) return false;
+      const parser = parsers.getParserForFile(filePath);
+      if (!parser) return false;
+      return !languages || languages.has(parser.languageName);
+    },
+  };
+}
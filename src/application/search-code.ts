@@ -28,7 +28,8 @@ export class SearchCodeService implements SearchCode {
     } catch {
       this.logger?.warn("Fulltext index not available, falling back to CONTAINS search");
       const rows = await this.graph.runQuery(
-        `MATCH (n) WHERE (n:Function OR n:Class OR n:Variable) AND n.name CONTAINS $query
+        `MATCH (n) WHERE (n:Function OR n:Class OR n:Variable OR n:TypeAlias OR n:Enum OR n:Namespace)
+         AND n.name CONTAINS $query
          RETURN labels(n) as labels, n.name as name, n.path as path, n.line_number as line_number
          LIMIT toInteger($limit)`,
         { query, limit },
@@ -1,14 +1,8 @@
 import { watch, type FSWatcher } from "chokidar";
-import { resolve, extname } from "node:path";
+import { resolve } from "node:path";
 import type { IndexCode, DescribeCode } from "../domain/ports.js";
 import type { Logger } from "../domain/logger.js";
-import type { ImportsMap } from "../domain/types.js";
-
-const SUPPORTED_EXTENSIONS = new Set([
-  ".js", ".jsx", ".mjs", ".cjs",
-  ".ts", ".tsx",
-  ".php",
-]);
+import type { ImportsMap, RepoFileFilter } from "../domain/types.js";
 
 const DEBOUNCE_MS = 2000;
 
@@ -16,6 +10,7 @@ export class WatchFilesService {
   private watchers = new Map<string, FSWatcher>();
   private importsMapCache = new Map<string, ImportsMap>();
   private debounceTimers = new Map<string, NodeJS.Timeout>();
+  private filters = new Map<string, RepoFileFilter>();
 
   constructor(
     private readonly indexCode: IndexCode,
@@ -30,14 +25,13 @@ export class WatchFilesService {
     const importsMap: ImportsMap = new Map();
     this.importsMapCache.set(absPath, importsMap);
 
+    // Same include/exclude/language rules as a full index (.codegraph.json)
+    const filter = await this.indexCode.getFileFilter(absPath);
+    this.filters.set(absPath, filter);
+
     const watcher = watch(absPath, {
-      ignored: [
-        "**/node_modules/**",
-        "**/vendor/**",
-        "**/dist/**",
-        "**/.git/**",
-        "**/build/**",
-      ],
+      ignored: (path, stats) =>
+        filter.isExcluded(path) || (stats?.isFile() === true && !filter.acceptsFile(path)),
       ignoreInitial: true,
       persistent: true,
     });
@@ -57,6 +51,7 @@ export class WatchFilesService {
       await watcher.close();
       this.watchers.delete(absPath);
       this.importsMapCache.delete(absPath);
+      this.filters.delete(absPath);
       this.logger.info(`Unwatched: ${absPath}`);
     }
   }
@@ -71,13 +66,13 @@ export class WatchFilesService {
     }
     this.watchers.clear();
     this.importsMapCache.clear();
+    this.filters.clear();
   }
 
   // ── Event handlers ──────────────────────────────────────────
 
   private handleChange(repoPath: string, filePath: string): void {
-    const ext = extname(filePath).toLowerCase();
-    if (!SUPPORTED_EXTENSIONS.has(ext)) return;
+    if (!this.filters.get(repoPath)?.acceptsFile(filePath)) return;
 
     const key = filePath;
     const existing = this.debounceTimers.get(key);
@@ -103,8 +98,7 @@ export class WatchFilesService {
   }
 
   private handleUnlink(repoPath: string, filePath: string): void {
-    const ext = extname(filePath).toLowerCase();
-    if (!SUPPORTED_EXTENSIONS.has(ext)) return;
+    if (!this.filters.get(repoPath)?.acceptsFile(filePath)) return;
 
     const key = filePath;
     const existing = this.debounceTimers.get(key);
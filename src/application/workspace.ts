@@ -0,0 +1,238 @@
+import { basename, dirname, resolve } from "node:path";
+import type { FileSystem } from "../domain/ports.js";
+import type { PackageManifest, TsConfigPaths, Workspace } from "../domain/module-resolver.js";
+import type { Psr4Mapping } from "../domain/php-resolver.js";
+import { DEFAULT_EXCLUDES } from "./repo-config.js";
+
+/**
+ * What module resolution needs to know about a repository: the root
+ * package.json and every workspace package it (or pnpm-workspace.yaml)
+ * declares, so files can import packages by name, and each tsconfig.json
+ * with its `extends` chain applied, for `paths` and `baseUrl`. For PHP,
+ * the PSR-4 autoload mappings of composer.json.
+ *
+ * Missing or malformed manifests and configs yield nothing: module
+ * resolution is best-effort and must not fail a job.
+ */
+export async function loadWorkspace(fs: FileSystem, repoPath: string): Promise<Workspace> {
+  const root = await readManifest(fs, repoPath);
+  const packages = root ? [root] : [];
+  const patterns = await workspacePatterns(fs, repoPath);
+  const include = patterns.filter((p) => !p.startsWith("!"));
+  if (include.length > 0) {
+    const manifestPaths = await fs.glob(include.map((p) => `${p.replace(/\/+$/, "")}/package.json`), {
+      cwd: repoPath,
+      absolute: true,
+      ignore: [
+        ...DEFAULT_EXCLUDES,
+        ...patterns.filter((p) => p.startsWith("!")).map((p) => `${p.slice(1).replace(/\/+$/, "")}/**`),
+      ],
+    });
+    for (const manifestPath of manifestPaths.sort()) {
+      const dir = dirname(manifestPath);
+      if (basename(manifestPath) !== "package.json" || dir === repoPath) continue;
+      const manifest = await readManifest(fs, dir);
+      if (manifest && !packages.some((p) => p.name === manifest.name)) packages.push(manifest);
+    }
+  }
+
+  const tsconfigs: TsConfigPaths[] = [];
+  const configPaths = await fs.glob(["**/tsconfig.json"], { cwd: repoPath, absolute: true, ignore: DEFAULT_EXCLUDES });
+  for (const configPath of configPaths.sort()) {
+    if (basename(configPath) !== "tsconfig.json") continue;
+    const options = await readTsConfig(fs, configPath, repoPath, packages, new Set());
+    if (!options?.baseUrl && !options?.paths) continue;
+    tsconfigs.push({
+      dir: dirname(configPath),
+      baseUrl: options.baseUrl,
+      paths: options.paths,
+      pathsBase: options.baseUrl ?? options.pathsDir ?? dirname(configPath),
+    });
+  }
+
+  return { packages, tsconfigs, psr4: await loadPsr4(fs, repoPath) };
+}
+
+/** `autoload` and `autoload-dev` PSR-4 entries of the root composer.json; a prefix may map to several directories. */
+async function loadPsr4(fs: FileSystem, repoPath: string): Promise<Psr4Mapping[]> {
+  const raw = asObject(await readJson(fs, resolve(repoPath, "composer.json")));
+  const mappings: Psr4Mapping[] = [];
+  for (const section of [raw?.autoload, raw?.["autoload-dev"]]) {
+    const psr4 = asObject(asObject(section)?.["psr-4"]);
+    if (!psr4) continue;
+    for (const [prefix, dirs] of Object.entries(psr4)) {
+      for (const dir of Array.isArray(dirs) ? dirs : [dirs]) {
+        if (typeof dir !== "string") continue;
+        mappings.push({ prefix: prefix.replace(/^\\+|\\+$/g, ""), dir: resolve(repoPath, dir) });
+      }
+    }
+  }
+  return mappings;
+}
+
+async function readManifest(fs: FileSystem, dir: string): Promise<PackageManifest | undefined> {
+  const raw = asObject(await readJson(fs, resolve(dir, "package.json")));
+  if (typeof raw?.name !== "string") return undefined;
+  return {
+    name: raw.name,
+    dir,
+    version: typeof raw.version === "string" ? raw.version : undefined,
+    main: typeof raw.main === "string" ? raw.main : undefined,
+    exports: raw.exports,
+    imports: raw.imports,
+  };
+}
+
+/** Globs of workspace packages: package.json `workspaces` (npm, yarn) and pnpm-workspace.yaml. */
+async function workspacePatterns(fs: FileSystem, repoPath: string): Promise<string[]> {
+  const patterns: string[] = [];
+  const raw = asObject(await readJson(fs, resolve(repoPath, "package.json")));
+  const workspaces = Array.isArray(raw?.workspaces) ? raw.workspaces : asObject(raw?.workspaces)?.packages;
+  if (Array.isArray(workspaces)) patterns.push(...workspaces.filter((w): w is string => typeof w === "string"));
+
+  const pnpmPath = resolve(repoPath, "pnpm-workspace.yaml");
+  if (fs.exists(pnpmPath)) patterns.push(...pnpmPackages(await fs.readFile(pnpmPath)));
+  return patterns;
+}
+
+/** The `packages:` list of pnpm-workspace.yaml; the file holds nothing else we need. */
+function pnpmPackages(yaml: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of yaml.split("\n")) {
+    const content = line.replace(/\s+#.*$/, "").trimEnd();
+    if (!content.trim() || content.trim().startsWith("#")) continue;
+    if (!/^\s/.test(content)) {
+      inPackages = /^packages\s*:/.test(content);
+      continue;
+    }
+    const item = inPackages ? /^\s+-\s*(.+)$/.exec(content) : null;
+    if (item) patterns.push(item[1].trim().replace(/^(['"])(.*)\1$/, "$2"));
+  }
+  return patterns;
+}
+
+interface TsConfigOptions {
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+  /** Directory of the config that declared `paths`. */
+  pathsDir?: string;
+}
+
+/** A tsconfig's `baseUrl` and `paths`, inheriting what its `extends` chain sets and it does not. */
+async function readTsConfig(
+  fs: FileSystem,
+  configPath: string,
+  repoPath: string,
+  packages: PackageManifest[],
+  seen: Set<string>,
+): Promise<TsConfigOptions | undefined> {
+  if (seen.has(configPath)) return undefined; // extends cycle
+  seen.add(configPath);
+  const raw = asObject(await readJson(fs, configPath));
+  if (!raw) return undefined;
+
+  let options: TsConfigOptions = {};
+  const bases: unknown[] = typeof raw.extends === "string" ? [raw.extends] : Array.isArray(raw.extends) ? raw.extends : [];
+  for (const base of bases) {
+    const basePath = typeof base === "string" ? resolveExtends(fs, base, dirname(configPath), repoPath, packages) : undefined;
+    const inherited = basePath ? await readTsConfig(fs, basePath, repoPath, packages, seen) : undefined;
+    if (inherited) options = { ...options, ...inherited };
+  }
+
+  const compilerOptions = asObject(raw.compilerOptions) ?? {};
+  if (typeof compilerOptions.baseUrl === "string") {
+    options.baseUrl = resolve(dirname(configPath), compilerOptions.baseUrl);
+  }
+  const paths = asObject(compilerOptions.paths);
+  if (paths) {
+    options.paths = Object.fromEntries(
+      Object.entries(paths)
+        .filter((entry): entry is [string, unknown[]] => Array.isArray(entry[1]))
+        .map(([key, targets]) => [key, targets.filter((t): t is string => typeof t === "string")]),
+    );
+    options.pathsDir = dirname(configPath);
+  }
+  return options;
+}
+
+/** The file an `extends` entry names: a path, a workspace package, or a package in node_modules. */
+function resolveExtends(
+  fs: FileSystem,
+  specifier: string,
+  fromDir: string,
+  repoPath: string,
+  packages: PackageManifest[],
+): string | undefined {
+  const withJson = (path: string) => (fs.exists(path) || path.endsWith(".json") ? path : `${path}.json`);
+  if (specifier.startsWith(".") || specifier.startsWith("/")) return withJson(resolve(fromDir, specifier));
+
+  const candidates: string[] = [];
+  const pkg = packages.find((p) => specifier === p.name || specifier.startsWith(`${p.name}/`));
+  if (pkg) candidates.push(resolve(pkg.dir, `.${specifier.slice(pkg.name.length)}`));
+  for (let dir = fromDir; ; dir = dirname(dir)) {
+    candidates.push(resolve(dir, "node_modules", specifier));
+    if (dir === repoPath || dir === dirname(dir)) break;
+  }
+  for (const candidate of candidates) {
+    for (const path of [candidate, `${candidate}.json`, resolve(candidate, "tsconfig.json")]) {
+      if (path.endsWith(".json") && fs.exists(path)) return path;
+    }
+  }
+  return undefined;
+}
+
+/** Parse a JSON file that may hold comments and trailing commas, as tsconfig.json does. */
+async function readJson(fs: FileSystem, path: string): Promise<unknown> {
+  if (!fs.exists(path)) return undefined;
+  try {
+    return JSON.parse(stripTrailingCommas(stripJsonComments(await fs.readFile(path))));
+  } catch {
+    return undefined;
+  }
+}
+
+/** `value` when it is a JSON object (not an array), for reading its keys. */
+function asObject(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : undefined;
+}
+
+function stripJsonComments(text: string): string {
+  return scanJson(text, (i) => {
+    if (text.startsWith("//", i)) {
+      const end = text.indexOf("\n", i);
+      return end < 0 ? text.length : end;
+    }
+    if (text.startsWith("/*", i)) {
+      const end = text.indexOf("*/", i + 2);
+      return end < 0 ? text.length : end + 2;
+    }
+    return i;
+  });
+}
+
+function stripTrailingCommas(text: string): string {
+  return scanJson(text, (i) => (text[i] === "," && /^\s*[}\]]/.test(text.slice(i + 1)) ? i + 1 : i));
+}
+
+/** Copy `text` but for the spans `skip` reports (the index after them), leaving strings intact. */
+function scanJson(text: string, skip: (i: number) => number): string {
+  let out = "";
+  let i = 0;
+  while (i < text.length) {
+    if (text[i] === '"') {
+      let end = i + 1;
+      while (end < text.length && text[end] !== '"') end += text[end] === "\\" ? 2 : 1;
+      out += text.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+    const next = skip(i);
+    if (next > i) {
+      i = next;
+    } else {
+      out += text[i++];
+    }
+  }
+  return out;
+}
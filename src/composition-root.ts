@@ -17,9 +17,9 @@ import { NodeFileSystem } from "./infrastructure/node-filesystem.js";
 import { ConsoleLogger } from "./infrastructure/console-logger.js";
 import { MultiModelZaiClient } from "./infrastructure/multi-model-zai-client.js";
 import { LocalEmbeddingClient } from "./infrastructure/local-embedding.js";
-import { JavaScriptParser } from "./domain/parsers/javascript.js";
-import { TypeScriptParser } from "./domain/parsers/typescript.js";
-import { PHPParser } from "./domain/parsers/php.js";
+import { WorkerParserPool } from "./infrastructure/worker-parser-pool.js";
+import { GitRevisionSource } from "./infrastructure/git-filesystem.js";
+import { createDefaultParserRegistry } from "./domain/parsers/parser-registry.js";
 import { InMemoryJobStore } from "./application/job-store.js";
 import { DescribeCodeService } from "./application/describe-code.js";
 import { SemanticSearchService } from "./application/semantic-search.js";
@@ -44,6 +44,8 @@ export interface AppServices {
   doctor: DoctorService;
   jobs: JobStore;
   logger: Logger;
+  /** Stop the parser workers and close the graph connection. */
+  close(): Promise<void>;
 }
 
 export function createAppServices(config: AppConfig): AppServices {
@@ -54,11 +56,9 @@ export function createAppServices(config: AppConfig): AppServices {
     config.neo4jUsername,
     config.neo4jPassword,
   );
-  const parsers = [
-    new JavaScriptParser(),
-    new TypeScriptParser("typescript"),
-    new PHPParser(),
-  ];
+  const parsers = createDefaultParserRegistry();
+  const parserPool = new WorkerParserPool();
+  const revisions = new GitRevisionSource();
   const jobs = new InMemoryJobStore();
 
   // New Semantic Search Infrastructure
@@ -75,7 +75,7 @@ export function createAppServices(config: AppConfig): AppServices {
   const semanticSearch = new SemanticSearchService(embeddingGenerator, graph);
 
   // Updated Services with new dependencies
-  const indexCode = new IndexCodeService(fs, graph, new TypeScriptParser(), describeCode, jobs, logger);
+  const indexCode = new IndexCodeService(fs, graph, parsers, describeCode, jobs, logger, parserPool, revisions);
   const searchCode = new SearchCodeService(graph, logger);
   const analyzeCode = new AnalyzeCodeService(graph);
   const watchFiles = new WatchFilesService(indexCode, describeCode, logger);
@@ -101,6 +101,10 @@ export function createAppServices(config: AppConfig): AppServices {
     askCode,
     doctor,
     jobs,
-    logger
+    logger,
+    async close() {
+      await parserPool.close();
+      await graph.close();
+    },
   };
 }
@@ -0,0 +1,63 @@
+/** One decorator (or PHP attribute) applied to a declaration. */
+export interface DecoratorUse {
+  /** The decorator as named in the source, without `@` or a leading `\`: `Get`, `app.route`, `Attr\Route`. */
+  name: string;
+  /** Source text between the call parentheses; undefined when the decorator is not called. */
+  arguments?: string;
+}
+
+/**
+ * Splits decorators as the parsers record them into name and arguments.
+ * TypeScript and Python decorators are `@name` or `@name(args)`; a PHP
+ * attribute group `#[A(x), B]` applies several attributes at once.
+ */
+export function parseDecorators(texts: string[] | undefined): DecoratorUse[] {
+  const uses: DecoratorUse[] = [];
+  for (const text of texts ?? []) {
+    const trimmed = text.trim();
+    const parts = trimmed.startsWith("#[")
+      ? splitTopLevel(trimmed.slice(2, trimmed.endsWith("]") ? -1 : undefined))
+      : [trimmed.replace(/^@\s*/, "")];
+    for (const part of parts) {
+      const use = parseDecorator(part.trim());
+      if (use) uses.push(use);
+    }
+  }
+  return uses;
+}
+
+function parseDecorator(text: string): DecoratorUse | undefined {
+  const open = text.indexOf("(");
+  // `@Input<string>()`: type arguments are not part of the name.
+  const name = (open === -1 ? text : text.slice(0, open)).replace(/<.*$/s, "").replace(/^\\/, "").trim();
+  if (!name) return undefined;
+  if (open === -1) return { name };
+  const close = text.lastIndexOf(")");
+  return { name, arguments: text.slice(open + 1, close > open ? close : undefined).trim() };
+}
+
+/** Splits on commas outside brackets and string literals. */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === "\\") i++;
+      else if (ch === quote) quote = undefined;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+    } else if (ch === "(" || ch === "[" || ch === "{") {
+      depth++;
+    } else if (ch === ")" || ch === "]" || ch === "}") {
+      depth--;
+    } else if (ch === "," && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.filter((p) => p.trim() !== "");
+}
@@ -0,0 +1,172 @@
+import { posix } from "node:path";
+import { moduleCandidates } from "./symbol-resolver.js";
+import type { Psr4Mapping } from "./php-resolver.js";
+
+/** A package.json inside the indexed repository, whose package other files may import by name. */
+export interface PackageManifest {
+  name: string;
+  /** Directory holding the package.json. */
+  dir: string;
+  version?: string;
+  main?: string;
+  exports?: unknown;
+  imports?: unknown;
+}
+
+/** The module-resolution settings of a tsconfig.json, with `extends` already applied. */
+export interface TsConfigPaths {
+  /** Directory holding the tsconfig.json; it applies to the files below it. */
+  dir: string;
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+  /** Directory `paths` targets are relative to: `baseUrl`, else the config that declares them. */
+  pathsBase: string;
+}
+
+/** What module resolution knows about a repository beyond its files. */
+export interface Workspace {
+  packages: PackageManifest[];
+  tsconfigs: TsConfigPaths[];
+  /** composer.json PSR-4 autoload mappings, for PHP class names. */
+  psr4: Psr4Mapping[];
+}
+
+/** Languages whose imports follow Node/TypeScript module resolution. */
+export const NODE_RESOLUTION_LANGUAGES = new Set(["javascript", "typescript", "vue", "svelte"]);
+
+/** `exports`/`imports` conditions matched, in the order the package lists them. */
+const CONDITIONS = new Set(["types", "import", "require", "node", "default"]);
+
+/**
+ * Resolve a module specifier to a file of the repository, the way Node and
+ * TypeScript do: relative and absolute paths (with extensions, `index`
+ * files and `.js` → `.ts` remapping), tsconfig `paths` and `baseUrl`, `#`
+ * subpath imports of the importing package, and repository (workspace)
+ * packages by name through their `exports`.
+ *
+ * `isFile` decides which candidate paths exist. Undefined when nothing
+ * matches; for a bare specifier (see `isPackageSpecifier`) that means an
+ * external package.
+ */
+export function resolveModulePath(
+  source: string,
+  fromPath: string,
+  workspace: Workspace,
+  isFile: (path: string) => boolean,
+): string | undefined {
+  if (source.startsWith(".") || source.startsWith("/")) {
+    return moduleCandidates(source, fromPath).find(isFile);
+  }
+
+  const tsconfig = innermost(fromPath, workspace.tsconfigs);
+  const mapped = tsconfig ? resolveTsConfigPaths(source, tsconfig, isFile) : undefined;
+  if (mapped) return mapped;
+
+  if (source.startsWith("#")) {
+    const pkg = innermost(fromPath, workspace.packages);
+    const target = pkg ? resolvePackageMap(pkg.imports, source) : undefined;
+    return pkg && target ? resolveInPackage(pkg, target, isFile) : undefined;
+  }
+
+  const { name, subpath } = splitSpecifier(source);
+  const pkg = workspace.packages.find((p) => p.name === name);
+  if (!pkg) return undefined;
+  if (pkg.exports !== undefined) {
+    const target = resolvePackageMap(exportsMap(pkg.exports), subpath);
+    return target ? resolveInPackage(pkg, target, isFile) : undefined;
+  }
+  return resolveInPackage(pkg, subpath === "." ? pkg.main ?? "./index" : subpath, isFile);
+}
+
+/** The innermost package (or tsconfig) whose directory holds the file. */
+export function innermost<T extends { dir: string }>(filePath: string, scopes: T[]): T | undefined {
+  return scopes
+    .filter((s) => filePath.startsWith(s.dir.endsWith("/") ? s.dir : `${s.dir}/`))
+    .sort((a, b) => b.dir.length - a.dir.length)[0];
+}
+
+/** `paths` first (exact keys, then the longest `*` pattern, each target in turn), then `baseUrl`. */
+function resolveTsConfigPaths(source: string, tsconfig: TsConfigPaths, isFile: (path: string) => boolean): string | undefined {
+  const match = tsconfig.paths ? matchPattern(Object.keys(tsconfig.paths), source) : undefined;
+  if (match) {
+    for (const target of tsconfig.paths![match.pattern]) {
+      const path = posix.resolve(tsconfig.pathsBase, target.replace(/\*/g, match.wildcard));
+      const file = moduleCandidates(path, tsconfig.pathsBase).find(isFile);
+      if (file) return file;
+    }
+  }
+  return tsconfig.baseUrl
+    ? moduleCandidates(posix.join(tsconfig.baseUrl, source), tsconfig.baseUrl).find(isFile)
+    : undefined;
+}
+
+/** Whether a specifier names a package rather than a path or a `#` subpath import. */
+export function isPackageSpecifier(source: string): boolean {
+  return !source.startsWith(".") && !source.startsWith("/") && !source.startsWith("#");
+}
+
+/** `@scope/pkg/sub/path` → `@scope/pkg` and `./sub/path`. */
+function splitSpecifier(source: string): { name: string; subpath: string } {
+  const parts = source.split("/");
+  const length = source.startsWith("@") ? 2 : 1;
+  const rest = parts.slice(length).join("/");
+  return { name: parts.slice(0, length).join("/"), subpath: rest ? `./${rest}` : "." };
+}
+
+function resolveInPackage(pkg: PackageManifest, target: string, isFile: (path: string) => boolean): string | undefined {
+  const relativeTarget = target.startsWith(".") ? target : `./${target}`;
+  return moduleCandidates(relativeTarget, posix.join(pkg.dir, "package.json")).find(isFile);
+}
+
+/** `exports` given as a target or a set of conditions stands for the package root. */
+function exportsMap(exports: unknown): unknown {
+  if (typeof exports === "string" || Array.isArray(exports)) return { ".": exports };
+  if (exports && typeof exports === "object" && !Object.keys(exports).some((k) => k.startsWith("."))) {
+    return { ".": exports };
+  }
+  return exports;
+}
+
+/** Look a subpath up in an `exports`/`imports` map. */
+function resolvePackageMap(map: unknown, key: string): string | undefined {
+  if (!map || typeof map !== "object" || Array.isArray(map)) return undefined;
+  const entries = map as Record<string, unknown>;
+  const match = matchPattern(Object.keys(entries), key);
+  return match ? resolveTarget(entries[match.pattern], match.wildcard) : undefined;
+}
+
+/** The key equal to `key`, else the `*` pattern with the longest prefix matching it. */
+function matchPattern(patterns: string[], key: string): { pattern: string; wildcard: string } | undefined {
+  if (patterns.includes(key)) return { pattern: key, wildcard: "" };
+  let best: { pattern: string; wildcard: string; prefix: number } | undefined;
+  for (const pattern of patterns) {
+    const star = pattern.indexOf("*");
+    if (star < 0) continue;
+    const prefix = pattern.slice(0, star);
+    const suffix = pattern.slice(star + 1);
+    if (key.length < prefix.length + suffix.length || !key.startsWith(prefix) || !key.endsWith(suffix)) continue;
+    if (!best || prefix.length > best.prefix) {
+      best = { pattern, wildcard: key.slice(prefix.length, key.length - suffix.length), prefix: prefix.length };
+    }
+  }
+  return best && { pattern: best.pattern, wildcard: best.wildcard };
+}
+
+function resolveTarget(target: unknown, match: string): string | undefined {
+  if (typeof target === "string") return target.replace(/\*/g, match);
+  if (Array.isArray(target)) {
+    for (const alternative of target) {
+      const resolved = resolveTarget(alternative, match);
+      if (resolved) return resolved;
+    }
+    return undefined;
+  }
+  if (target && typeof target === "object") {
+    for (const [condition, value] of Object.entries(target)) {
+      if (!CONDITIONS.has(condition)) continue;
+      const resolved = resolveTarget(value, match);
+      if (resolved) return resolved;
+    }
+  }
+  return undefined; // `null` hides the subpath
+}
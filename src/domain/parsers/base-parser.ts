@@ -3,6 +3,7 @@ import type TreeSitter from "tree-sitter";
 import type {
   LanguageParser,
   ParsedFile,
+  ParseResult,
   ImportsMap,
   SupportedLanguage,
 } from "../types.js";
@@ -12,20 +13,72 @@ const Parser = require("tree-sitter") as typeof TreeSitter;
 
 export abstract class BaseParser implements LanguageParser {
   protected parser: InstanceType<typeof Parser>;
+  private readonly dialectParsers = new Map<unknown, InstanceType<typeof Parser>>();
   abstract readonly supportedExtensions: string[];
   abstract readonly languageName: string;
 
-  constructor(language: unknown) {
+  constructor(private readonly language: unknown) {
     this.parser = new Parser();
     this.parser.setLanguage(language as TreeSitter.Language);
+    this.dialectParsers.set(language, this.parser);
   }
 
-  abstract parse(sourceCode: string, filePath: string, isDependency?: boolean): ParsedFile;
-  abstract preScan(files: { filePath: string; sourceCode: string }[]): ImportsMap;
+  parse(sourceCode: string, filePath: string, isDependency = false): ParsedFile {
+    const root = this.parseSource(sourceCode, filePath).rootNode;
+    return this.extract(root, filePath, isDependency);
+  }
+
+  preScan(files: { filePath: string; sourceCode: string }[]): ImportsMap {
+    const map: ImportsMap = new Map();
+    for (const { filePath, sourceCode } of files) {
+      this.collectSymbols(this.parseSource(sourceCode, filePath).rootNode, filePath, map);
+    }
+    return map;
+  }
+
+  /** `parse` and `preScan` of a single file from one syntax tree. */
+  parseWithSymbols(sourceCode: string, filePath: string, isDependency = false): ParseResult {
+    const root = this.parseSource(sourceCode, filePath).rootNode;
+    const symbols: ImportsMap = new Map();
+    this.collectSymbols(root, filePath, symbols);
+    return { parsed: this.extract(root, filePath, isDependency), symbols };
+  }
+
+  /** Build the ParsedFile for an already-parsed tree. */
+  protected abstract extract(
+    root: TreeSitter.SyntaxNode,
+    filePath: string,
+    isDependency: boolean,
+  ): ParsedFile;
+
+  /** Record the symbols other files may resolve to (the pre-scan). */
+  protected abstract collectSymbols(
+    root: TreeSitter.SyntaxNode,
+    filePath: string,
+    map: ImportsMap,
+  ): void;
 
-  /** Parse source text into a tree-sitter Tree. */
-  protected parseSource(source: string): TreeSitter.Tree {
-    return this.parser.parse(source);
+  /**
+   * Grammar used to parse a given file. Languages with several dialects
+   * (e.g. TypeScript vs TSX) override this to pick one by extension.
+   */
+  protected grammarForFile(_filePath: string): unknown {
+    return this.language;
+  }
+
+  /**
+   * Parse source text into a tree-sitter Tree, using the grammar for
+   * `filePath` when given and the parser's default grammar otherwise.
+   */
+  protected parseSource(source: string, filePath?: string): TreeSitter.Tree {
+    const grammar = filePath ? this.grammarForFile(filePath) : this.language;
+    let parser = this.dialectParsers.get(grammar);
+    if (!parser) {
+      parser = new Parser();
+      parser.setLanguage(grammar as TreeSitter.Language);
+      this.dialectParsers.set(grammar, parser);
+    }
+    return parser.parse(source);
   }
 
   /** Get text of a tree-sitter node. */
@@ -62,6 +115,15 @@ export abstract class BaseParser implements LanguageParser {
       // PHP variants
       "foreach_statement",
       "elseif_clause",
+      // Python variants
+      "elif_clause",
+      "except_clause",
+      "if_clause",
+      "case_clause",
+      // Go variants
+      "expression_case",
+      "type_case",
+      "communication_case",
     ]);
 
     const logicalOps = new Set(["&&", "||", "??", "and", "or"]);
@@ -71,7 +133,9 @@ export abstract class BaseParser implements LanguageParser {
         complexity++;
       }
       if (
-        (n.type === "binary_expression" || n.type === "logical_expression") &&
+        (n.type === "binary_expression" ||
+          n.type === "logical_expression" ||
+          n.type === "boolean_operator") &&
         n.childForFieldName("operator")
       ) {
         const op = n.childForFieldName("operator")!.text;
@@ -139,7 +203,10 @@ export abstract class BaseParser implements LanguageParser {
       if (
         current.type === "class_declaration" ||
         current.type === "abstract_class_declaration" ||
-        current.type === "class"
+        current.type === "class" ||
+        current.type === "class_definition" ||
+        current.type === "interface_declaration" ||
+        current.type === "trait_declaration"
       ) {
         return this.getFieldText(current, "name");
       }
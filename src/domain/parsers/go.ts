@@ -0,0 +1,305 @@
+import { createRequire } from "node:module";
+import type TreeSitter from "tree-sitter";
+import { BaseParser } from "./base-parser.js";
+import type {
+  ParsedFile,
+  ParsedFunction,
+  ParsedClass,
+  ParsedCall,
+  ImportsMap,
+} from "../types.js";
+
+const require = createRequire(import.meta.url);
+
+export class GoParser extends BaseParser {
+  readonly supportedExtensions = [".go"];
+  readonly languageName: string = "go";
+
+  constructor(language?: unknown) {
+    super(language ?? require("tree-sitter-go"));
+  }
+
+  // ── Tree extraction ─────────────────────────────────────────
+
+  protected extract(root: TreeSitter.SyntaxNode, filePath: string, isDependency: boolean): ParsedFile {
+    const result = this.emptyParsedFile(filePath);
+    result.hasErrors = root.hasError;
+
+    this.extractFunctions(root, result, isDependency);
+    this.extractTypes(root, result, isDependency);
+    this.extractImports(root, result);
+    this.extractCalls(root, result);
+    if (!isDependency) {
+      this.extractVariables(root, result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Package-level declarations: every file of a package sees them without
+   * an import, and other packages reach them as `pkg.Name`, so both resolve
+   * through the global map by their bare name.
+   */
+  protected collectSymbols(root: TreeSitter.SyntaxNode, filePath: string, map: ImportsMap): void {
+    const add = (name: string | undefined, node: TreeSitter.SyntaxNode) => {
+      if (!name) return;
+      if (!map.has(name)) map.set(name, []);
+      map.get(name)!.push({ filePath, lineNumber: node.startPosition.row + 1 });
+    };
+    for (const node of root.namedChildren) {
+      if (node.type === "function_declaration" || node.type === "method_declaration") {
+        add(this.getFieldText(node, "name"), node);
+      } else if (node.type === "type_declaration") {
+        for (const spec of node.descendantsOfType("type_spec")) {
+          add(this.getFieldText(spec, "name"), spec);
+        }
+      }
+    }
+  }
+
+  // ── Extract functions ───────────────────────────────────────
+
+  protected extractFunctions(
+    root: TreeSitter.SyntaxNode,
+    result: ParsedFile,
+    isDependency: boolean,
+  ): void {
+    for (const node of root.namedChildren) {
+      if (node.type === "function_declaration" || node.type === "method_declaration") {
+        const fn = this.parseFunctionDeclaration(node, isDependency);
+        if (fn) result.functions.push(fn);
+      }
+    }
+  }
+
+  protected parseFunctionDeclaration(
+    node: TreeSitter.SyntaxNode,
+    isDependency: boolean,
+  ): ParsedFunction | null {
+    const name = this.getFieldText(node, "name");
+    if (!name) return null;
+
+    const params = node.childForFieldName("parameters");
+    const body = node.childForFieldName("body");
+    const receiver = node.childForFieldName("receiver");
+
+    return {
+      name,
+      lineNumber: node.startPosition.row + 1,
+      endLine: node.endPosition.row + 1,
+      args: params ? this.extractParamNames(params) : [],
+      source: isDependency ? undefined : node.text,
+      docstring: this.extractDocstring(node),
+      cyclomaticComplexity: body ? this.calculateCyclomaticComplexity(body) : 1,
+      classContext: receiver ? this.receiverType(receiver) : undefined,
+      isMethod: receiver ? true : undefined,
+    };
+  }
+
+  /** `(s *Server)` / `(l List[T])` → the receiver's base type name. */
+  protected receiverType(receiver: TreeSitter.SyntaxNode): string | undefined {
+    const param = receiver.namedChildren.find((c) => c.type === "parameter_declaration");
+    const type = param?.childForFieldName("type");
+    return type ? this.baseTypeName(type) : undefined;
+  }
+
+  // ── Extract structs and interfaces ──────────────────────────
+
+  protected extractTypes(
+    root: TreeSitter.SyntaxNode,
+    result: ParsedFile,
+    isDependency: boolean,
+  ): void {
+    for (const decl of root.namedChildren) {
+      if (decl.type !== "type_declaration") continue;
+      for (const spec of decl.namedChildren) {
+        if (spec.type !== "type_spec") continue;
+        const cls = this.parseTypeSpec(spec, decl, isDependency);
+        if (cls) result.classes.push(cls);
+      }
+    }
+  }
+
+  protected parseTypeSpec(
+    spec: TreeSitter.SyntaxNode,
+    decl: TreeSitter.SyntaxNode,
+    isDependency: boolean,
+  ): ParsedClass | null {
+    const name = this.getFieldText(spec, "name");
+    const type = spec.childForFieldName("type");
+    if (!name || !type) return null;
+
+    // Embedded types stand in for inheritance.
+    const bases: string[] = [];
+    if (type.type === "struct_type") {
+      for (const field of type.descendantsOfType("field_declaration")) {
+        const fieldType = field.childForFieldName("type");
+        if (!field.childForFieldName("name") && fieldType) {
+          const base = this.baseTypeName(fieldType);
+          if (base) bases.push(base);
+        }
+      }
+    } else if (type.type === "interface_type") {
+      for (const elem of type.namedChildren) {
+        if (elem.type !== "type_elem") continue;
+        const base = elem.namedChild(0) ? this.baseTypeName(elem.namedChild(0)!) : undefined;
+        if (base) bases.push(base);
+      }
+    } else {
+      return null; // type aliases and named non-struct types
+    }
+
+    // A single-spec declaration owns its doc comment and `type` keyword.
+    const outer = decl.namedChildren.length === 1 ? decl : spec;
+
+    return {
+      name,
+      lineNumber: outer.startPosition.row + 1,
+      endLine: outer.endPosition.row + 1,
+      bases,
+      source: isDependency ? undefined : outer.text,
+      docstring: this.extractDocstring(outer),
+      isInterface: type.type === "interface_type" || undefined,
+    };
+  }
+
+  // ── Extract imports ─────────────────────────────────────────
+
+  protected extractImports(
+    root: TreeSitter.SyntaxNode,
+    result: ParsedFile,
+  ): void {
+    for (const spec of root.descendantsOfType("import_spec")) {
+      const path = spec.childForFieldName("path");
+      if (!path) continue;
+      const source = path.text.replace(/["`]/g, "");
+      const alias = spec.childForFieldName("name");
+      const lineNumber = spec.startPosition.row + 1;
+
+      if (alias?.type === "blank_identifier") continue; // imported for side effects
+      result.imports.push({
+        // `. "strings"` brings the package's names into scope unqualified
+        name: alias?.type === "dot" ? "*" : alias?.text ?? source.split("/").pop()!,
+        source,
+        lineNumber,
+        isNamespace: true,
+      });
+    }
+  }
+
+  // ── Extract calls ───────────────────────────────────────────
+
+  protected extractCalls(
+    root: TreeSitter.SyntaxNode,
+    result: ParsedFile,
+  ): void {
+    for (const node of root.descendantsOfType("call_expression")) {
+      const call = this.parseCallExpression(node);
+      if (call) result.calls.push(call);
+    }
+  }
+
+  protected parseCallExpression(node: TreeSitter.SyntaxNode): ParsedCall | null {
+    const fnNode = node.childForFieldName("function");
+    if (!fnNode) return null;
+
+    let name: string;
+    let fullCallName: string | undefined;
+    let inferredObjType: string | undefined;
+
+    if (fnNode.type === "selector_expression") {
+      name = this.getFieldText(fnNode, "field") ?? fnNode.text;
+      fullCallName = fnNode.text;
+      inferredObjType = this.getFieldText(fnNode, "operand");
+    } else if (fnNode.type === "identifier") {
+      name = fnNode.text;
+    } else {
+      return null; // func literals, calls through indexes, ...
+    }
+
+    const argsNode = node.childForFieldName("arguments");
+    const args = argsNode ? argsNode.namedChildren.map((a) => a.text.substring(0, 100)) : [];
+    const caller = this.findEnclosingFunction(node);
+
+    return {
+      name,
+      lineNumber: node.startPosition.row + 1,
+      args,
+      callerName: caller?.name,
+      callerLineNumber: caller?.lineNumber,
+      fullCallName,
+      inferredObjType,
+    };
+  }
+
+  // ── Extract variables ───────────────────────────────────────
+
+  /** Package-level `var` and `const` declarations. */
+  protected extractVariables(
+    root: TreeSitter.SyntaxNode,
+    result: ParsedFile,
+  ): void {
+    for (const decl of root.namedChildren) {
+      if (decl.type !== "var_declaration" && decl.type !== "const_declaration") continue;
+      const keyword = decl.type === "var_declaration" ? "var" : "const";
+
+      for (const spec of [...decl.descendantsOfType("var_spec"), ...decl.descendantsOfType("const_spec")]) {
+        const values = spec.childForFieldName("value")?.namedChildren ?? [];
+        const type = this.getFieldText(spec, "type") ?? keyword;
+        spec.childrenForFieldName("name").forEach((nameNode, i) => {
+          result.variables.push({
+            name: nameNode.text,
+            lineNumber: spec.startPosition.row + 1,
+            value: values[i]?.text.substring(0, 200),
+            type,
+          });
+        });
+      }
+    }
+  }
+
+  // ── Helpers ─────────────────────────────────────────────────
+
+  /** Go doc comment: the `//` lines directly above a declaration. */
+  protected extractDocstring(node: TreeSitter.SyntaxNode): string | undefined {
+    const lines: string[] = [];
+    let expectedRow = node.startPosition.row - 1;
+    let prev = node.previousNamedSibling;
+    while (prev?.type === "comment" && prev.endPosition.row === expectedRow) {
+      lines.unshift(prev.text);
+      expectedRow = prev.startPosition.row - 1;
+      prev = prev.previousNamedSibling;
+    }
+    return lines.length > 0 ? lines.join("\n") : undefined;
+  }
+
+  protected extractParamNames(paramsNode: TreeSitter.SyntaxNode): string[] {
+    const names: string[] = [];
+    for (const param of paramsNode.namedChildren) {
+      const paramNames = param.childrenForFieldName("name").map((n) => n.text);
+      const prefix = param.type === "variadic_parameter_declaration" ? "..." : "";
+      if (paramNames.length > 0) {
+        names.push(...paramNames.map((n) => prefix + n));
+      } else if (param.childForFieldName("type")) {
+        names.push(prefix + param.childForFieldName("type")!.text); // unnamed parameter
+      }
+    }
+    return names;
+  }
+
+  /** `*pkg.Name[T]` → `Name`. */
+  protected baseTypeName(type: TreeSitter.SyntaxNode): string | undefined {
+    switch (type.type) {
+      case "type_identifier":
+        return type.text;
+      case "pointer_type":
+      case "generic_type":
+        return type.namedChild(0) ? this.baseTypeName(type.namedChild(0)!) : undefined;
+      case "qualified_type":
+        return this.getFieldText(type, "name");
+      default:
+        return undefined;
+    }
+  }
+}
@@ -1,35 +1,47 @@
 import { createRequire } from "node:module";
 import type TreeSitter from "tree-sitter";
 import { BaseParser } from "./base-parser.js";
+import { addExportSymbols } from "../symbol-resolver.js";
 import type {
   ParsedFile,
   ParsedFunction,
   ParsedClass,
   ParsedCall,
+  ParsedRender,
+  ParsedExport,
+  ParsedProperty,
+  ParsedVariable,
   ImportsMap,
+  Visibility,
 } from "../types.js";
 
 const require = createRequire(import.meta.url);
 
+function isFunctionValue(node: TreeSitter.SyntaxNode): boolean {
+  return node.type === "function_expression" || node.type === "function" || node.type === "arrow_function";
+}
+
 export class JavaScriptParser extends BaseParser {
   readonly supportedExtensions = [".js", ".jsx", ".mjs", ".cjs"];
   readonly languageName: string = "javascript";
 
+  // tree-sitter-javascript parses JSX natively, so `.js` and `.jsx` share one grammar.
   constructor(language?: unknown) {
     super(language ?? require("tree-sitter-javascript"));
   }
 
-  // ── Public API ──────────────────────────────────────────────
+  // ── Tree extraction ─────────────────────────────────────────
 
-  parse(sourceCode: string, filePath: string, isDependency = false): ParsedFile {
-    const tree = this.parseSource(sourceCode);
+  protected extract(root: TreeSitter.SyntaxNode, filePath: string, isDependency: boolean): ParsedFile {
     const result = this.emptyParsedFile(filePath);
-    const root = tree.rootNode;
+    result.hasErrors = root.hasError;
 
     this.extractFunctions(root, result, isDependency);
     this.extractClasses(root, result, isDependency);
     this.extractImports(root, result);
+    this.extractExports(root, result);
     this.extractCalls(root, result);
+    this.extractRenders(root, result);
     if (!isDependency) {
       this.extractVariables(root, result);
     }
@@ -37,34 +49,25 @@ export class JavaScriptParser extends BaseParser {
     return result;
   }
 
-  preScan(files: { filePath: string; sourceCode: string }[]): ImportsMap {
-    const map: ImportsMap = new Map();
-
-    for (const { filePath, sourceCode } of files) {
-      const tree = this.parseSource(sourceCode);
-      const root = tree.rootNode;
-
-      this.collectExportedSymbols(root, filePath, map);
+  protected collectSymbols(root: TreeSitter.SyntaxNode, filePath: string, map: ImportsMap): void {
+    this.collectExportedSymbols(root, filePath, map);
 
-      for (const node of root.descendantsOfType("function_declaration")) {
-        const name = this.getFieldText(node, "name");
-        if (name) {
-          const lineNumber = node.startPosition.row + 1;
-          if (!map.has(name)) map.set(name, []);
-          map.get(name)!.push({ filePath, lineNumber });
-        }
+    for (const node of root.descendantsOfType("function_declaration")) {
+      const name = this.getFieldText(node, "name");
+      if (name) {
+        const lineNumber = node.startPosition.row + 1;
+        if (!map.has(name)) map.set(name, []);
+        map.get(name)!.push({ filePath, lineNumber });
       }
-      for (const node of root.descendantsOfType("class_declaration")) {
-        const name = this.getFieldText(node, "name");
-        if (name) {
-          const lineNumber = node.startPosition.row + 1;
-          if (!map.has(name)) map.set(name, []);
-          map.get(name)!.push({ filePath, lineNumber });
-        }
+    }
+    for (const node of root.descendantsOfType("class_declaration")) {
+      const name = this.getFieldText(node, "name");
+      if (name) {
+        const lineNumber = node.startPosition.row + 1;
+        if (!map.has(name)) map.set(name, []);
+        map.get(name)!.push({ filePath, lineNumber });
       }
     }
-
-    return map;
   }
 
   // ── Extract functions ───────────────────────────────────────
@@ -96,6 +99,12 @@ export class JavaScriptParser extends BaseParser {
       const fn = this.parseMethodDefinition(node, isDependency);
       if (fn) result.functions.push(fn);
     }
+
+    for (const node of root.namedChildren) {
+      for (const { name, site, fnNode } of this.commonJSFunctions(node)) {
+        result.functions.push(this.parseAssignedFunction(name, site, fnNode, isDependency));
+      }
+    }
   }
 
   protected parseFunctionDeclaration(
@@ -121,6 +130,7 @@ export class JavaScriptParser extends BaseParser {
       context: this.findEnclosingFunction(node)?.name,
       classContext: this.findEnclosingClass(node),
       isAsync,
+      ...this.extractSignatureTypes(node),
     };
   }
 
@@ -148,6 +158,66 @@ export class JavaScriptParser extends BaseParser {
       context: this.findEnclosingFunction(varNode)?.name,
       classContext: this.findEnclosingClass(varNode),
       isAsync,
+      ...this.extractSignatureTypes(fnNode),
+    };
+  }
+
+  /**
+   * Functions assigned to `exports.x`, `module.exports` or a key of the
+   * object assigned to it, named as they are exported. An anonymous
+   * `module.exports = function () {}` is the `default` function.
+   */
+  protected commonJSFunctions(
+    node: TreeSitter.SyntaxNode,
+  ): { name: string; site: TreeSitter.SyntaxNode; fnNode: TreeSitter.SyntaxNode }[] {
+    const assignment = node.type === "expression_statement" ? node.namedChild(0) : null;
+    if (assignment?.type !== "assignment_expression") return [];
+    const left = assignment.childForFieldName("left");
+    const right = assignment.childForFieldName("right");
+    if (left?.type !== "member_expression" || !right) return [];
+
+    if (left.text === "module.exports") {
+      if (isFunctionValue(right)) return [{ name: this.getFieldText(right, "name") ?? "default", site: node, fnNode: right }];
+      if (right.type !== "object") return [];
+      return right.namedChildren.flatMap((prop) => {
+        const key = prop.type === "pair" ? prop.childForFieldName("key") : null;
+        const value = prop.childForFieldName("value");
+        return key?.type === "property_identifier" && value && isFunctionValue(value)
+          ? [{ name: key.text, site: prop, fnNode: value }]
+          : [];
+      });
+    }
+
+    const object = left.childForFieldName("object")?.text;
+    const property = this.getFieldText(left, "property");
+    if ((object === "exports" || object === "module.exports") && property && isFunctionValue(right)) {
+      return [{ name: property, site: node, fnNode: right }];
+    }
+    return [];
+  }
+
+  /** A function expression bound to `name` by `site` (an assignment or object key). */
+  protected parseAssignedFunction(
+    name: string,
+    site: TreeSitter.SyntaxNode,
+    fnNode: TreeSitter.SyntaxNode,
+    isDependency: boolean,
+  ): ParsedFunction {
+    const params = fnNode.childForFieldName("parameters");
+    const args = params ? this.extractParamNames(params) : [];
+    const body = fnNode.childForFieldName("body");
+    const isAsync = fnNode.children.some((c) => c.type === "async");
+
+    return {
+      name,
+      lineNumber: site.startPosition.row + 1,
+      endLine: fnNode.endPosition.row + 1,
+      args,
+      source: isDependency ? undefined : site.text,
+      docstring: this.extractDocstring(site),
+      cyclomaticComplexity: body ? this.calculateCyclomaticComplexity(body) : 1,
+      isAsync,
+      ...this.extractSignatureTypes(fnNode),
     };
   }
 
@@ -163,18 +233,15 @@ export class JavaScriptParser extends BaseParser {
     const body = node.childForFieldName("body");
     const isAsync = node.children.some((c) => c.type === "async");
 
+    const isStatic = node.children.some((c) => c.type === "static");
     let kind: ParsedFunction["kind"];
     const firstChild = node.child(0);
     if (firstChild?.text === "get") kind = "getter";
     else if (firstChild?.text === "set") kind = "setter";
-    else if (firstChild?.text === "static") kind = "static";
+    else if (isStatic) kind = "static";
     if (name === "constructor") kind = "constructor";
 
-    const decorators: string[] = [];
-    const prev = node.previousNamedSibling;
-    if (prev?.type === "decorator") {
-      decorators.push(prev.text);
-    }
+    const decorators = this.extractDecorators(node);
 
     return {
       name,
@@ -188,6 +255,10 @@ export class JavaScriptParser extends BaseParser {
       isAsync,
       kind,
       decorators: decorators.length > 0 ? decorators : undefined,
+      isMethod: node.parent?.type === "class_body" || undefined,
+      visibility: this.memberVisibility(node, node.childForFieldName("name")),
+      isStatic: isStatic || undefined,
+      ...this.extractSignatureTypes(node),
     };
   }
 
@@ -236,6 +307,9 @@ export class JavaScriptParser extends BaseParser {
       }
     }
 
+    const properties = this.extractClassProperties(node);
+    const decorators = this.extractDecorators(node);
+
     return {
       name,
       lineNumber: node.startPosition.row + 1,
@@ -243,9 +317,58 @@ export class JavaScriptParser extends BaseParser {
       bases,
       source: isDependency ? undefined : node.text,
       docstring: this.extractDocstring(node),
+      decorators: decorators.length > 0 ? decorators : undefined,
+      properties: properties.length > 0 ? properties : undefined,
     };
   }
 
+  /** Class fields (`name = 1`, `static #count`, TS `private readonly x: T`). */
+  protected extractClassProperties(classNode: TreeSitter.SyntaxNode): ParsedProperty[] {
+    const properties: ParsedProperty[] = [];
+    for (const member of classNode.childForFieldName("body")?.namedChildren ?? []) {
+      if (member.type !== "field_definition" && member.type !== "public_field_definition") continue;
+      const nameNode = member.childForFieldName("property") ?? member.childForFieldName("name");
+      if (!nameNode) continue;
+      const decorators = this.extractDecorators(member);
+
+      properties.push({
+        name: nameNode.text,
+        lineNumber: member.startPosition.row + 1,
+        visibility: this.memberVisibility(member, nameNode),
+        isStatic: member.children.some((c) => c.type === "static") || undefined,
+        isReadonly: member.children.some((c) => c.type === "readonly") || undefined,
+        decorators: decorators.length > 0 ? decorators : undefined,
+        ...this.extractPropertyTypes(member),
+      });
+    }
+    return properties;
+  }
+
+  /**
+   * Decorators as written, outermost first. Class and field decorators are
+   * children of the declaration (or of the `export` wrapping a class);
+   * method decorators precede the method in the class body.
+   */
+  protected extractDecorators(node: TreeSitter.SyntaxNode): string[] {
+    const decorators: string[] = [];
+    if (node.type === "method_definition") {
+      for (let prev = node.previousNamedSibling; prev?.type === "decorator"; prev = prev.previousNamedSibling) {
+        decorators.unshift(prev.text);
+      }
+      return decorators;
+    }
+    const owners = node.parent?.type === "export_statement" ? [node.parent, node] : [node];
+    for (const owner of owners) {
+      decorators.push(...owner.children.filter((c) => c.type === "decorator").map((c) => c.text));
+    }
+    return decorators;
+  }
+
+  /** `#name` members are private; everything else is public in plain JavaScript. */
+  protected memberVisibility(_member: TreeSitter.SyntaxNode, nameNode?: TreeSitter.SyntaxNode | null): Visibility {
+    return nameNode?.type === "private_property_identifier" ? "private" : "public";
+  }
+
   // ── Extract imports ─────────────────────────────────────────
 
   protected extractImports(
@@ -258,22 +381,59 @@ export class JavaScriptParser extends BaseParser {
 
     for (const node of root.descendantsOfType("call_expression")) {
       const fn = node.childForFieldName("function");
-      if (fn?.text === "require") {
-        const args = node.childForFieldName("arguments");
-        if (args && args.namedChildCount > 0) {
-          const srcNode = args.namedChild(0)!;
-          const source = srcNode.text.replace(/['"]/g, "");
-          let name = source;
-          if (node.parent?.type === "variable_declarator") {
-            name = this.getFieldText(node.parent, "name") ?? source;
+      if (fn?.text === "require" || fn?.type === "import") {
+        this.parseModuleCall(node, fn.type === "import", result);
+      }
+    }
+  }
+
+  /**
+   * `require("x")` and dynamic `import("x")`. The binding the result is
+   * assigned to names the import (destructuring names each member); a call
+   * whose result is not bound imports the module under its specifier.
+   */
+  protected parseModuleCall(
+    node: TreeSitter.SyntaxNode,
+    isDynamic: boolean,
+    result: ParsedFile,
+  ): void {
+    const srcNode = node.childForFieldName("arguments")?.namedChild(0);
+    const isLiteral =
+      srcNode?.type === "string" ||
+      (srcNode?.type === "template_string" && !srcNode.namedChildren.some((c) => c.type === "template_substitution"));
+    if (!srcNode || !isLiteral) return; // computed specifiers name no module we can follow
+
+    const source = srcNode.text.slice(1, -1);
+    const lineNumber = node.startPosition.row + 1;
+    const flags = isDynamic ? { isDynamic: true } : {};
+    const value = node.parent?.type === "await_expression" ? node.parent : node;
+    const binding = value.parent?.type === "variable_declarator" ? value.parent.childForFieldName("name") : null;
+
+    if (binding?.type === "object_pattern") {
+      for (const prop of binding.namedChildren) {
+        if (prop.type === "shorthand_property_identifier_pattern") {
+          result.imports.push({ name: prop.text, source, lineNumber, ...flags });
+        } else if (prop.type === "pair_pattern") {
+          const key = this.getFieldText(prop, "key");
+          const local = prop.childForFieldName("value");
+          if (key && local?.type === "identifier") {
+            result.imports.push({ name: local.text, source, alias: key, lineNumber, ...flags });
           }
-          result.imports.push({
-            name,
-            source,
-            lineNumber: node.startPosition.row + 1,
-          });
+        } else if (prop.type === "rest_pattern" && prop.namedChild(0)) {
+          result.imports.push({ name: prop.namedChild(0)!.text, source, lineNumber, isNamespace: true, ...flags });
         }
       }
+    } else if (binding?.type === "identifier") {
+      // `require` returns `module.exports`, the default export; `import()` the namespace
+      result.imports.push({
+        name: binding.text,
+        source,
+        lineNumber,
+        ...(isDynamic ? { isNamespace: true } : { isDefault: true }),
+        ...flags,
+      });
+    } else {
+      result.imports.push({ name: source, source, lineNumber, ...flags });
     }
   }
 
@@ -319,6 +479,100 @@ export class JavaScriptParser extends BaseParser {
     }
   }
 
+  // ── Extract exports ─────────────────────────────────────────
+
+  /** Top-level exports; those inside namespaces and ambient modules are not the file's. */
+  protected extractExports(
+    root: TreeSitter.SyntaxNode,
+    result: ParsedFile,
+  ): void {
+    const exports = root.namedChildren.flatMap((node) =>
+      node.type === "export_statement" ? this.parseExportStatement(node) : this.parseCommonJSExport(node),
+    );
+    if (exports.length > 0) result.exports = exports;
+  }
+
+  /**
+   * `module.exports = ...` is the default export, and an object literal
+   * also exports each of its keys; `exports.x = ...` exports `x`.
+   */
+  protected parseCommonJSExport(node: TreeSitter.SyntaxNode): ParsedExport[] {
+    const assignment = node.type === "expression_statement" ? node.namedChild(0) : null;
+    if (assignment?.type !== "assignment_expression") return [];
+    const left = assignment.childForFieldName("left");
+    const right = assignment.childForFieldName("right");
+    if (left?.type !== "member_expression" || !right) return [];
+
+    const lineNumber = node.startPosition.row + 1;
+    const binding = (value: TreeSitter.SyntaxNode | null) => (value?.type === "identifier" ? value.text : undefined);
+
+    if (left.text === "module.exports") {
+      // A named function expression is a Function of that name.
+      const localName = isFunctionValue(right) ? this.getFieldText(right, "name") : binding(right);
+      const exports: ParsedExport[] = [{ name: "default", localName, lineNumber }];
+      if (right.type !== "object") return exports;
+      for (const prop of right.namedChildren) {
+        const propLine = prop.startPosition.row + 1;
+        if (prop.type === "shorthand_property_identifier") {
+          exports.push({ name: prop.text, localName: prop.text, lineNumber: propLine });
+        } else if (prop.type === "pair" || prop.type === "method_definition") {
+          const key = prop.childForFieldName(prop.type === "pair" ? "key" : "name");
+          if (key?.type !== "property_identifier") continue;
+          exports.push({ name: key.text, localName: binding(prop.childForFieldName("value")), lineNumber: propLine });
+        }
+      }
+      return exports;
+    }
+
+    const object = left.childForFieldName("object")?.text;
+    const property = this.getFieldText(left, "property");
+    if ((object === "exports" || object === "module.exports") && property) {
+      return [{ name: property, localName: binding(right), lineNumber }];
+    }
+    return [];
+  }
+
+  protected parseExportStatement(node: TreeSitter.SyntaxNode): ParsedExport[] {
+    const lineNumber = node.startPosition.row + 1;
+    const source = node.childForFieldName("source")?.text.replace(/['"]/g, "");
+    const isDefault = node.children.some((c) => c.type === "default");
+    const declaration = node.childForFieldName("declaration");
+    const value = node.childForFieldName("value");
+    const exports: ParsedExport[] = [];
+
+    if (declaration) {
+      const names =
+        declaration.type === "lexical_declaration" || declaration.type === "variable_declaration"
+          ? declaration.namedChildren
+              .filter((d) => d.type === "variable_declarator" && d.childForFieldName("name")?.type === "identifier")
+              .map((d) => this.getFieldText(d, "name")!)
+          : [this.getFieldText(declaration, "name")].filter((n): n is string => !!n);
+      for (const name of names) {
+        exports.push({ name, lineNumber: declaration.startPosition.row + 1 });
+      }
+      if (isDefault) exports.push({ name: "default", localName: names[0], lineNumber });
+    } else if (value) {
+      // `export default foo` names a binding; any other expression is the export itself
+      exports.push({ name: "default", localName: value.type === "identifier" ? value.text : undefined, lineNumber });
+    } else {
+      const clause = node.namedChildren.find((c) => c.type === "export_clause");
+      for (const spec of clause?.namedChildren ?? []) {
+        const localName = this.getFieldText(spec, "name");
+        if (spec.type !== "export_specifier" || !localName) continue;
+        const alias = this.getFieldText(spec, "alias");
+        exports.push({ name: alias ?? localName, localName, source, lineNumber: spec.startPosition.row + 1 });
+      }
+      const namespaceExport = node.namedChildren.find((c) => c.type === "namespace_export");
+      if (namespaceExport?.namedChild(0)) {
+        exports.push({ name: namespaceExport.namedChild(0)!.text, localName: "*", source, lineNumber });
+      } else if (!clause && source) {
+        exports.push({ name: "*", source, lineNumber });
+      }
+    }
+
+    return exports;
+  }
+
   // ── Extract calls ───────────────────────────────────────────
 
   protected extractCalls(
@@ -370,7 +624,7 @@ export class JavaScriptParser extends BaseParser {
       name = fnNode.text;
     }
 
-    if (name === "require") return null;
+    if (name === "require" || fnNode.type === "import") return null; // module loads are imports
 
     const argsNode = node.childForFieldName("arguments");
     const args = argsNode ? this.extractArgTexts(argsNode) : [];
@@ -387,6 +641,33 @@ export class JavaScriptParser extends BaseParser {
     };
   }
 
+  // ── Extract JSX renders ─────────────────────────────────────
+
+  /**
+   * JSX elements of components (`<UserCard name={n} />`) with the props
+   * they pass by name. Lower-case tags are DOM elements, and member tags
+   * (`<UI.Card>`, `<Ctx.Provider>`) name no single definition.
+   */
+  protected extractRenders(
+    root: TreeSitter.SyntaxNode,
+    result: ParsedFile,
+  ): void {
+    const renders: ParsedRender[] = [];
+    for (const node of root.descendantsOfType(["jsx_opening_element", "jsx_self_closing_element"])) {
+      const nameNode = node.childForFieldName("name");
+      if (nameNode?.type !== "identifier" || !/^[A-Z]/.test(nameNode.text)) continue;
+      const caller = this.findEnclosingFunction(node);
+      renders.push({
+        component: nameNode.text,
+        lineNumber: node.startPosition.row + 1,
+        props: node.namedChildren.filter((c) => c.type === "jsx_attribute").map((attr) => attr.namedChild(0)!.text),
+        callerName: caller?.name,
+        callerLineNumber: caller?.lineNumber,
+      });
+    }
+    if (renders.length > 0) result.renders = renders;
+  }
+
   // ── Extract variables ───────────────────────────────────────
 
   protected extractVariables(
@@ -426,10 +707,34 @@ export class JavaScriptParser extends BaseParser {
         type,
         context,
         classContext,
+        ...this.extractVariableTypes(node),
       });
     }
   }
 
+  // ── Type annotations (TypeScript overrides) ─────────────────
+
+  /** Parameter and return types of a function node; plain JavaScript has none. */
+  protected extractSignatureTypes(
+    _fnNode: TreeSitter.SyntaxNode,
+  ): Pick<ParsedFunction, "paramTypes" | "returnType" | "usesTypes"> {
+    return {};
+  }
+
+  /** Declared type of a class field. */
+  protected extractPropertyTypes(
+    _member: TreeSitter.SyntaxNode,
+  ): Pick<ParsedProperty, "type" | "usesTypes"> {
+    return {};
+  }
+
+  /** Types named in a variable declarator's annotation. */
+  protected extractVariableTypes(
+    _node: TreeSitter.SyntaxNode,
+  ): Pick<ParsedVariable, "usesTypes"> {
+    return {};
+  }
+
   // ── Helpers ─────────────────────────────────────────────────
 
   protected extractParamNames(paramsNode: TreeSitter.SyntaxNode): string[] {
@@ -470,24 +775,10 @@ export class JavaScriptParser extends BaseParser {
     filePath: string,
     map: ImportsMap,
   ): void {
-    for (const node of root.descendantsOfType("export_statement")) {
-      const declaration = node.childForFieldName("declaration");
-      if (declaration) {
-        const name = this.getFieldText(declaration, "name");
-        if (name) {
-          const lineNumber = declaration.startPosition.row + 1;
-          if (!map.has(name)) map.set(name, []);
-          map.get(name)!.push({ filePath, lineNumber });
-        }
-      }
-      for (const spec of node.descendantsOfType("export_specifier")) {
-        const name = this.getFieldText(spec, "name");
-        if (name) {
-          const lineNumber = spec.startPosition.row + 1;
-          if (!map.has(name)) map.set(name, []);
-          map.get(name)!.push({ filePath, lineNumber });
-        }
-      }
-    }
+    const exports = [
+      ...root.descendantsOfType("export_statement").flatMap((node) => this.parseExportStatement(node)),
+      ...root.namedChildren.flatMap((node) => this.parseCommonJSExport(node)),
+    ];
+    addExportSymbols(map, filePath, exports);
   }
 }
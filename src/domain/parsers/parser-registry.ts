@@ -0,0 +1,81 @@
+import { extname } from "node:path";
+import { JavaScriptParser } from "./javascript.js";
+import { TypeScriptParser } from "./typescript.js";
+import { PHPParser } from "./php.js";
+import { PythonParser } from "./python.js";
+import { GoParser } from "./go.js";
+import { VueParser, SvelteParser } from "./sfc.js";
+import type { LanguageParser, ImportsMap, ParseResult } from "../types.js";
+
+/**
+ * Routes files to the parser registered for their extension.
+ * The first parser registered for an extension wins.
+ */
+export class ParserRegistry {
+  private readonly byExtension = new Map<string, LanguageParser>();
+
+  constructor(parsers: LanguageParser[]) {
+    for (const parser of parsers) {
+      for (const ext of parser.supportedExtensions) {
+        const key = ext.toLowerCase();
+        if (!this.byExtension.has(key)) this.byExtension.set(key, parser);
+      }
+    }
+  }
+
+  /** All extensions handled by at least one registered parser. */
+  get supportedExtensions(): string[] {
+    return Array.from(this.byExtension.keys());
+  }
+
+  getParserForFile(filePath: string): LanguageParser | undefined {
+    return this.byExtension.get(extname(filePath).toLowerCase());
+  }
+
+  /** Parse a file and collect its pre-scan symbols in one pass; null if unsupported. */
+  parseWithSymbols(filePath: string, sourceCode: string, isDependency = false): ParseResult | null {
+    const parser = this.getParserForFile(filePath);
+    return parser ? parser.parseWithSymbols(sourceCode, filePath, isDependency) : null;
+  }
+
+  /**
+   * Groups files by parser, runs each parser's preScan and merges the
+   * results into a single ImportsMap. Files without a parser are ignored.
+   */
+  preScan(files: { filePath: string; sourceCode: string }[]): ImportsMap {
+    const groups = new Map<LanguageParser, { filePath: string; sourceCode: string }[]>();
+    for (const file of files) {
+      const parser = this.getParserForFile(file.filePath);
+      if (!parser) continue;
+      if (!groups.has(parser)) groups.set(parser, []);
+      groups.get(parser)!.push(file);
+    }
+
+    const combined: ImportsMap = new Map();
+    for (const [parser, group] of groups) {
+      mergeImportsMap(combined, parser.preScan(group));
+    }
+    return combined;
+  }
+}
+
+/** Appends every location of `source` into `target`. */
+export function mergeImportsMap(target: ImportsMap, source: ImportsMap): void {
+  for (const [name, locations] of source) {
+    if (!target.has(name)) target.set(name, []);
+    target.get(name)!.push(...locations);
+  }
+}
+
+/** Registry with every language parser shipped by code-graph. */
+export function createDefaultParserRegistry(): ParserRegistry {
+  return new ParserRegistry([
+    new JavaScriptParser(),
+    new TypeScriptParser(),
+    new PHPParser(),
+    new PythonParser(),
+    new GoParser(),
+    new VueParser(),
+    new SvelteParser(),
+  ]);
+}
@@ -5,11 +5,16 @@ import type {
   ParsedFile,
   ParsedFunction,
   ParsedClass,
+  ParsedProperty,
   ImportsMap,
+  Visibility,
 } from "../types.js";
 
 const require = createRequire(import.meta.url);
 
+/** Nodes naming a class in `extends` / `implements`: `A`, `\X\A`, `namespace\A`. */
+const PHP_CLASS_NAME_TYPES = new Set(["name", "qualified_name", "relative_name"]);
+
 export class PHPParser extends BaseParser {
   readonly supportedExtensions = [".php"];
   readonly languageName = "php";
@@ -19,14 +24,14 @@ export class PHPParser extends BaseParser {
     super(phpGrammar.php);
   }
 
-  // ── Public API ──────────────────────────────────────────────
+  // ── Tree extraction ─────────────────────────────────────────
 
-  parse(sourceCode: string, filePath: string, isDependency = false): ParsedFile {
-    const tree = this.parseSource(sourceCode);
+  protected extract(root: TreeSitter.SyntaxNode, filePath: string, isDependency: boolean): ParsedFile {
     const result = this.emptyParsedFile(filePath);
     result.lang = "php";
-    const root = tree.rootNode;
+    result.hasErrors = root.hasError;
 
+    this.extractNamespaces(root, result);
     this.extractFunctions(root, result, isDependency);
     this.extractClasses(root, result, isDependency);
     this.extractImports(root, result);
@@ -38,51 +43,69 @@ export class PHPParser extends BaseParser {
     return result;
   }
 
-  preScan(files: { filePath: string; sourceCode: string }[]): ImportsMap {
-    const map: ImportsMap = new Map();
+  protected collectSymbols(root: TreeSitter.SyntaxNode, filePath: string, map: ImportsMap): void {
+    const add = (node: TreeSitter.SyntaxNode, fqn: (name: string) => string | undefined) => {
+      const name = this.getFieldText(node, "name");
+      if (!name) return;
+      if (!map.has(name)) map.set(name, []);
+      map.get(name)!.push({ filePath, lineNumber: node.startPosition.row + 1, fqn: fqn(name) });
+    };
+    for (const node of root.descendantsOfType("function_definition")) {
+      add(node, (name) => this.qualify(node, name));
+    }
+    for (const node of root.descendantsOfType("method_declaration")) {
+      add(node, (name) => this.methodFqn(node, name));
+    }
+    for (const type of ["class_declaration", "interface_declaration", "trait_declaration"]) {
+      for (const node of root.descendantsOfType(type)) {
+        add(node, (name) => this.qualify(node, name));
+      }
+    }
+  }
 
-    for (const { filePath, sourceCode } of files) {
-      const tree = this.parseSource(sourceCode);
-      const root = tree.rootNode;
+  // ── Extract namespaces ──────────────────────────────────────
+
+  /**
+   * `namespace A\B;` (up to the next namespace statement) and
+   * `namespace A\B { ... }` blocks. Unnamed (global) blocks are skipped.
+   */
+  private extractNamespaces(root: TreeSitter.SyntaxNode, result: ParsedFile): void {
+    const definitions = root.namedChildren.filter((n) => n.type === "namespace_definition");
+    const namespaces = definitions.flatMap((node, i) => {
+      const name = this.getFieldText(node, "name");
+      if (!name) return [];
+      const next = definitions[i + 1];
+      const endLine = node.childForFieldName("body")
+        ? node.endPosition.row + 1
+        : next ? next.startPosition.row : root.endPosition.row + 1;
+      return [{ name, lineNumber: node.startPosition.row + 1, endLine, docstring: this.extractDocstring(node) }];
+    });
+    if (namespaces.length > 0) result.namespaces = namespaces;
+  }
 
-      for (const node of root.descendantsOfType("function_definition")) {
-        const name = this.getFieldText(node, "name");
-        if (name) {
-          if (!map.has(name)) map.set(name, []);
-          map.get(name)!.push({ filePath, lineNumber: node.startPosition.row + 1 });
-        }
-      }
-      for (const node of root.descendantsOfType("method_declaration")) {
-        const name = this.getFieldText(node, "name");
-        if (name) {
-          if (!map.has(name)) map.set(name, []);
-          map.get(name)!.push({ filePath, lineNumber: node.startPosition.row + 1 });
-        }
-      }
-      for (const node of root.descendantsOfType("class_declaration")) {
-        const name = this.getFieldText(node, "name");
-        if (name) {
-          if (!map.has(name)) map.set(name, []);
-          map.get(name)!.push({ filePath, lineNumber: node.startPosition.row + 1 });
-        }
-      }
-      for (const node of root.descendantsOfType("interface_declaration")) {
-        const name = this.getFieldText(node, "name");
-        if (name) {
-          if (!map.has(name)) map.set(name, []);
-          map.get(name)!.push({ filePath, lineNumber: node.startPosition.row + 1 });
-        }
-      }
-      for (const node of root.descendantsOfType("trait_declaration")) {
-        const name = this.getFieldText(node, "name");
-        if (name) {
-          if (!map.has(name)) map.set(name, []);
-          map.get(name)!.push({ filePath, lineNumber: node.startPosition.row + 1 });
-        }
-      }
+  /** The namespace a declaration belongs to: its `namespace { }` block or the last `namespace X;` before it. */
+  private phpNamespaceOf(node: TreeSitter.SyntaxNode): string | undefined {
+    let statement = node;
+    while (statement.parent && statement.parent.type !== "program") {
+      statement = statement.parent;
+      if (statement.type === "namespace_definition") return this.getFieldText(statement, "name");
+    }
+    for (let sibling = statement.previousNamedSibling; sibling; sibling = sibling.previousNamedSibling) {
+      if (sibling.type === "namespace_definition") return this.getFieldText(sibling, "name");
     }
+    return undefined;
+  }
+
+  /** `name` qualified with the namespace the node is declared in. */
+  private qualify(node: TreeSitter.SyntaxNode, name: string): string {
+    const namespace = this.phpNamespaceOf(node);
+    return namespace ? `${namespace}\\${name}` : name;
+  }
 
-    return map;
+  /** `Ns\Class::method` */
+  private methodFqn(node: TreeSitter.SyntaxNode, name: string): string | undefined {
+    const className = this.findEnclosingClass(node);
+    return className ? `${this.qualify(node, className)}::${name}` : undefined;
   }
 
   // ── Extract functions ───────────────────────────────────────
@@ -123,6 +146,8 @@ export class PHPParser extends BaseParser {
       cyclomaticComplexity: body ? this.calculateCyclomaticComplexity(body) : 1,
       context: this.findEnclosingFunction(node)?.name,
       classContext: this.findEnclosingClass(node),
+      namespace: this.phpNamespaceOf(node),
+      fqn: this.qualify(node, name),
     };
   }
 
@@ -142,11 +167,7 @@ export class PHPParser extends BaseParser {
     if (modifiers.length > 0) kind = "static";
     if (name === "__construct") kind = "constructor";
 
-    const decorators: string[] = [];
-    const attributes = node.descendantsOfType("attribute_list");
-    for (const attr of attributes) {
-      decorators.push(attr.text);
-    }
+    const decorators = this.extractPHPAttributes(node);
 
     return {
       name,
@@ -157,8 +178,13 @@ export class PHPParser extends BaseParser {
       docstring: this.extractDocstring(node),
       cyclomaticComplexity: body ? this.calculateCyclomaticComplexity(body) : 1,
       classContext: this.findEnclosingClass(node),
+      namespace: this.phpNamespaceOf(node),
+      fqn: this.methodFqn(node, name),
       kind,
-      decorators: decorators.length > 0 ? decorators : undefined,
+      decorators,
+      isMethod: true,
+      visibility: this.phpVisibility(node),
+      isStatic: node.namedChildren.some((c) => c.type === "static_modifier") || undefined,
     };
   }
 
@@ -198,7 +224,7 @@ export class PHPParser extends BaseParser {
     if (baseClause) {
       for (let i = 0; i < baseClause.namedChildCount; i++) {
         const child = baseClause.namedChild(i)!;
-        if (child.type === "name" || child.type === "qualified_name") {
+        if (PHP_CLASS_NAME_TYPES.has(child.type)) {
           bases.push(child.text);
         }
       }
@@ -208,7 +234,7 @@ export class PHPParser extends BaseParser {
     for (const ic of implClause) {
       for (let i = 0; i < ic.namedChildCount; i++) {
         const child = ic.namedChild(i)!;
-        if (child.type === "name" || child.type === "qualified_name") {
+        if (PHP_CLASS_NAME_TYPES.has(child.type)) {
           impls.push(child.text);
         }
       }
@@ -227,6 +253,11 @@ export class PHPParser extends BaseParser {
       source: isDependency ? undefined : node.text,
       docstring: this.extractDocstring(node),
       isAbstract,
+      traits: this.extractPHPTraitUses(node),
+      decorators: this.extractPHPAttributes(node),
+      namespace: this.phpNamespaceOf(node),
+      fqn: this.qualify(node, name),
+      properties: this.extractPHPProperties(node),
     };
   }
 
@@ -242,7 +273,7 @@ export class PHPParser extends BaseParser {
     for (const bc of baseClause) {
       for (let i = 0; i < bc.namedChildCount; i++) {
         const child = bc.namedChild(i)!;
-        if (child.type === "name" || child.type === "qualified_name") {
+        if (PHP_CLASS_NAME_TYPES.has(child.type)) {
           bases.push(child.text);
         }
       }
@@ -256,6 +287,8 @@ export class PHPParser extends BaseParser {
       source: isDependency ? undefined : node.text,
       docstring: this.extractDocstring(node),
       isInterface: true,
+      namespace: this.phpNamespaceOf(node),
+      fqn: this.qualify(node, name),
     };
   }
 
@@ -273,9 +306,77 @@ export class PHPParser extends BaseParser {
       bases: [],
       source: isDependency ? undefined : node.text,
       docstring: this.extractDocstring(node),
+      isTrait: true,
+      traits: this.extractPHPTraitUses(node),
+      namespace: this.phpNamespaceOf(node),
+      fqn: this.qualify(node, name),
+      properties: this.extractPHPProperties(node),
     };
   }
 
+  /** `#[...]` attribute groups on the declaration itself, not on its parameters. */
+  private extractPHPAttributes(node: TreeSitter.SyntaxNode): string[] | undefined {
+    const groups = node.namedChildren
+      .filter((c) => c.type === "attribute_list")
+      .flatMap((list) => list.namedChildren.filter((c) => c.type === "attribute_group"))
+      .map((group) => group.text);
+    return groups.length > 0 ? groups : undefined;
+  }
+
+  /** Traits named by `use A, B { ... };` statements in the class body. */
+  private extractPHPTraitUses(node: TreeSitter.SyntaxNode): string[] | undefined {
+    const traits = (node.childForFieldName("body")?.namedChildren ?? [])
+      .filter((decl) => decl.type === "use_declaration")
+      .flatMap((decl) => decl.namedChildren.filter((c) => c.type === "name" || c.type === "qualified_name"))
+      .map((c) => c.text);
+    return traits.length > 0 ? traits : undefined;
+  }
+
+  /** Declared properties and promoted constructor parameters, named without `$`. */
+  private extractPHPProperties(node: TreeSitter.SyntaxNode): ParsedProperty[] | undefined {
+    const properties: ParsedProperty[] = [];
+    const body = node.childForFieldName("body");
+
+    for (const decl of body?.namedChildren ?? []) {
+      if (decl.type !== "property_declaration") continue;
+      const modifiers = {
+        type: this.getFieldText(decl, "type"),
+        visibility: this.phpVisibility(decl),
+        isStatic: decl.namedChildren.some((c) => c.type === "static_modifier") || undefined,
+        isReadonly: decl.namedChildren.some((c) => c.type === "readonly_modifier") || undefined,
+      };
+      for (const element of decl.namedChildren) {
+        if (element.type !== "property_element") continue;
+        const name = element.childForFieldName("name")?.text.replace(/^\$/, "");
+        if (name) properties.push({ name, lineNumber: element.startPosition.row + 1, ...modifiers });
+      }
+    }
+
+    const ctor = body?.namedChildren.find(
+      (m) => m.type === "method_declaration" && this.getFieldText(m, "name") === "__construct",
+    );
+    for (const param of ctor?.childForFieldName("parameters")?.namedChildren ?? []) {
+      if (param.type !== "property_promotion_parameter") continue;
+      const name = this.getFieldText(param, "name")?.replace(/^\$/, "");
+      if (!name) continue;
+      properties.push({
+        name,
+        lineNumber: param.startPosition.row + 1,
+        type: this.getFieldText(param, "type"),
+        visibility: (this.getFieldText(param, "visibility")?.toLowerCase() as Visibility | undefined) ?? "public",
+        isReadonly: param.childForFieldName("readonly") ? true : undefined,
+      });
+    }
+
+    return properties.length > 0 ? properties : undefined;
+  }
+
+  /** `public`/`protected`/`private`; members without one (or with `var`) are public. */
+  private phpVisibility(node: TreeSitter.SyntaxNode): Visibility {
+    const modifier = node.namedChildren.find((c) => c.type === "visibility_modifier");
+    return (modifier?.text.toLowerCase() as Visibility | undefined) ?? "public";
+  }
+
   // ── Extract imports ─────────────────────────────────────────
 
   private extractImports(
@@ -283,11 +384,15 @@ export class PHPParser extends BaseParser {
     result: ParsedFile,
   ): void {
     for (const node of root.descendantsOfType("namespace_use_declaration")) {
+      // `use A\\{B, C as D}` prefixes every clause of the group
+      const groupPrefix = node.childForFieldName("body")
+        ? node.namedChildren.find((c) => c.type === "namespace_name")?.text
+        : undefined;
       for (const clause of node.descendantsOfType("namespace_use_clause")) {
         const qName = clause.descendantsOfType("qualified_name")[0];
-        const nameNode = qName ?? clause.namedChild(0);
+        const nameNode = qName ?? clause.namedChildren.find((c) => c.type === "name");
         if (!nameNode) continue;
-        const fullName = nameNode.text;
+        const fullName = (groupPrefix ? `${groupPrefix}\\${nameNode.text}` : nameNode.text).replace(/^\\/, "");
         const parts = fullName.split("\\");
         const shortName = parts[parts.length - 1]!;
 
@@ -0,0 +1,331 @@
+import { createRequire } from "node:module";
+import type TreeSitter from "tree-sitter";
+import { BaseParser } from "./base-parser.js";
+import type {
+  ParsedFile,
+  ParsedFunction,
+  ParsedClass,
+  ParsedCall,
+  ImportsMap,
+} from "../types.js";
+
+const require = createRequire(import.meta.url);
+
+export class PythonParser extends BaseParser {
+  readonly supportedExtensions = [".py"];
+  readonly languageName: string = "python";
+
+  constructor(language?: unknown) {
+    super(language ?? require("tree-sitter-python"));
+  }
+
+  // ── Tree extraction ─────────────────────────────────────────
+
+  protected extract(root: TreeSitter.SyntaxNode, filePath: string, isDependency: boolean): ParsedFile {
+    const result = this.emptyParsedFile(filePath);
+    result.hasErrors = root.hasError;
+
+    this.extractFunctions(root, result, isDependency);
+    this.extractClasses(root, result, isDependency);
+    this.extractImports(root, result);
+    this.extractCalls(root, result);
+    if (!isDependency) {
+      this.extractVariables(root, result);
+    }
+
+    return result;
+  }
+
+  protected collectSymbols(root: TreeSitter.SyntaxNode, filePath: string, map: ImportsMap): void {
+    for (const type of ["function_definition", "class_definition"]) {
+      for (const node of root.descendantsOfType(type)) {
+        const name = this.getFieldText(node, "name");
+        if (name) {
+          // Decorated definitions start at their first decorator, as parsed symbols do.
+          const outer = node.parent?.type === "decorated_definition" ? node.parent : node;
+          if (!map.has(name)) map.set(name, []);
+          map.get(name)!.push({ filePath, lineNumber: outer.startPosition.row + 1 });
+        }
+      }
+    }
+  }
+
+  // ── Extract functions ───────────────────────────────────────
+
+  protected extractFunctions(
+    root: TreeSitter.SyntaxNode,
+    result: ParsedFile,
+    isDependency: boolean,
+  ): void {
+    for (const node of root.descendantsOfType("function_definition")) {
+      const fn = this.parseFunctionDefinition(node, isDependency);
+      if (fn) result.functions.push(fn);
+    }
+  }
+
+  protected parseFunctionDefinition(
+    node: TreeSitter.SyntaxNode,
+    isDependency: boolean,
+  ): ParsedFunction | null {
+    const name = this.getFieldText(node, "name");
+    if (!name) return null;
+
+    const classContext = this.findEnclosingClass(node);
+    const decorators = this.extractDecorators(node);
+    const outer = node.parent?.type === "decorated_definition" ? node.parent : node;
+    // def → block → class_definition (through decorated_definition when decorated)
+    const isMethod = outer.parent?.parent?.type === "class_definition";
+
+    const params = node.childForFieldName("parameters");
+    let args = params ? this.extractParamNames(params) : [];
+    const isStatic = decorators.includes("@staticmethod");
+    if (isMethod && !isStatic && (args[0] === "self" || args[0] === "cls")) {
+      args = args.slice(1);
+    }
+
+    let kind: ParsedFunction["kind"];
+    if (isMethod) {
+      if (name === "__init__") kind = "constructor";
+      else if (isStatic || decorators.includes("@classmethod")) kind = "static";
+      else if (decorators.includes("@property")) kind = "getter";
+      else if (decorators.some((d) => d.endsWith(".setter"))) kind = "setter";
+    }
+
+    const body = node.childForFieldName("body");
+
+    return {
+      name,
+      lineNumber: outer.startPosition.row + 1,
+      endLine: node.endPosition.row + 1,
+      args,
+      source: isDependency ? undefined : outer.text,
+      docstring: this.extractDocstring(node),
+      cyclomaticComplexity: body ? this.calculateCyclomaticComplexity(body) : 1,
+      context: this.findEnclosingFunction(node)?.name,
+      classContext,
+      isMethod: isMethod || undefined,
+      decorators: decorators.length > 0 ? decorators : undefined,
+      isAsync: node.children.some((c) => c.type === "async"),
+      kind,
+    };
+  }
+
+  // ── Extract classes ─────────────────────────────────────────
+
+  protected extractClasses(
+    root: TreeSitter.SyntaxNode,
+    result: ParsedFile,
+    isDependency: boolean,
+  ): void {
+    for (const node of root.descendantsOfType("class_definition")) {
+      const cls = this.parseClassDefinition(node, isDependency);
+      if (cls) result.classes.push(cls);
+    }
+  }
+
+  protected parseClassDefinition(
+    node: TreeSitter.SyntaxNode,
+    isDependency: boolean,
+  ): ParsedClass | null {
+    const name = this.getFieldText(node, "name");
+    if (!name) return null;
+
+    // `class A(Base, mod.Mixin, metaclass=Meta)`: keyword arguments are not bases
+    const bases: string[] = [];
+    const superclasses = node.childForFieldName("superclasses");
+    for (const arg of superclasses?.namedChildren ?? []) {
+      if (arg.type === "identifier") {
+        bases.push(arg.text);
+      } else if (arg.type === "attribute") {
+        const attr = this.getFieldText(arg, "attribute");
+        if (attr) bases.push(attr);
+      }
+    }
+
+    const decorators = this.extractDecorators(node);
+    const outer = node.parent?.type === "decorated_definition" ? node.parent : node;
+
+    return {
+      name,
+      lineNumber: outer.startPosition.row + 1,
+      endLine: node.endPosition.row + 1,
+      bases,
+      source: isDependency ? undefined : outer.text,
+      docstring: this.extractDocstring(node),
+      isAbstract: bases.includes("ABC") || undefined,
+      decorators: decorators.length > 0 ? decorators : undefined,
+    };
+  }
+
+  // ── Extract imports ─────────────────────────────────────────
+
+  protected extractImports(
+    root: TreeSitter.SyntaxNode,
+    result: ParsedFile,
+  ): void {
+    // `import os.path` / `import numpy as np`
+    for (const node of root.descendantsOfType("import_statement")) {
+      const lineNumber = node.startPosition.row + 1;
+      for (const child of node.namedChildren) {
+        if (child.type === "dotted_name") {
+          result.imports.push({ name: child.text, source: child.text, lineNumber, isNamespace: true });
+        } else if (child.type === "aliased_import") {
+          const source = this.getFieldText(child, "name");
+          const alias = this.getFieldText(child, "alias");
+          if (source && alias) {
+            result.imports.push({ name: alias, source, lineNumber, isNamespace: true });
+          }
+        }
+      }
+    }
+
+    // `from pkg.mod import a, b as c` / `from . import x` / `from mod import *`
+    for (const node of root.descendantsOfType("import_from_statement")) {
+      const source = this.getFieldText(node, "module_name");
+      if (!source) continue;
+      const lineNumber = node.startPosition.row + 1;
+      for (const child of node.childrenForFieldName("name")) {
+        if (child.type === "dotted_name") {
+          result.imports.push({ name: child.text, source, lineNumber });
+        } else if (child.type === "aliased_import") {
+          const importedName = this.getFieldText(child, "name");
+          const alias = this.getFieldText(child, "alias");
+          if (importedName && alias) {
+            result.imports.push({ name: alias, source, alias: importedName, lineNumber });
+          }
+        }
+      }
+      if (node.namedChildren.some((c) => c.type === "wildcard_import")) {
+        result.imports.push({ name: "*", source, lineNumber, isNamespace: true });
+      }
+    }
+  }
+
+  // ── Extract calls ───────────────────────────────────────────
+
+  protected extractCalls(
+    root: TreeSitter.SyntaxNode,
+    result: ParsedFile,
+  ): void {
+    for (const node of root.descendantsOfType("call")) {
+      const call = this.parseCall(node);
+      if (call) result.calls.push(call);
+    }
+  }
+
+  protected parseCall(node: TreeSitter.SyntaxNode): ParsedCall | null {
+    const fnNode = node.childForFieldName("function");
+    if (!fnNode) return null;
+
+    let name: string;
+    let fullCallName: string | undefined;
+    let inferredObjType: string | undefined;
+
+    if (fnNode.type === "attribute") {
+      name = this.getFieldText(fnNode, "attribute") ?? fnNode.text;
+      fullCallName = fnNode.text;
+      inferredObjType = this.getFieldText(fnNode, "object");
+    } else if (fnNode.type === "identifier") {
+      name = fnNode.text;
+    } else {
+      return null; // e.g. `handlers[key]()` or `make()()`
+    }
+
+    const argsNode = node.childForFieldName("arguments");
+    const args = argsNode ? this.extractArgTexts(argsNode) : [];
+    const caller = this.findEnclosingFunction(node);
+
+    return {
+      name,
+      lineNumber: node.startPosition.row + 1,
+      args,
+      callerName: caller?.name,
+      callerLineNumber: caller?.lineNumber,
+      fullCallName,
+      inferredObjType,
+    };
+  }
+
+  // ── Extract variables ───────────────────────────────────────
+
+  /** Module-level assignments; locals and class attributes are not graph nodes. */
+  protected extractVariables(
+    root: TreeSitter.SyntaxNode,
+    result: ParsedFile,
+  ): void {
+    for (const stmt of root.namedChildren) {
+      if (stmt.type !== "expression_statement") continue;
+      const node = stmt.namedChild(0);
+      if (node?.type !== "assignment") continue;
+
+      const left = node.childForFieldName("left");
+      if (!left) continue;
+      const names = left.type === "identifier"
+        ? [left.text]
+        : left.type === "pattern_list" || left.type === "tuple_pattern"
+          ? left.namedChildren.filter((c) => c.type === "identifier").map((c) => c.text)
+          : [];
+
+      const value = this.getFieldText(node, "right");
+      const type = this.getFieldText(node, "type");
+      for (const name of names) {
+        result.variables.push({
+          name,
+          lineNumber: node.startPosition.row + 1,
+          value: value?.substring(0, 200),
+          type,
+        });
+      }
+    }
+  }
+
+  // ── Helpers ─────────────────────────────────────────────────
+
+  /** The first statement of a body, when it is a string literal. */
+  protected extractDocstring(node: TreeSitter.SyntaxNode): string | undefined {
+    const first = node.childForFieldName("body")?.namedChild(0);
+    if (first?.type === "expression_statement" && first.namedChild(0)?.type === "string") {
+      return first.namedChild(0)!.text;
+    }
+    return undefined;
+  }
+
+  protected extractDecorators(node: TreeSitter.SyntaxNode): string[] {
+    if (node.parent?.type !== "decorated_definition") return [];
+    return node.parent.namedChildren
+      .filter((c) => c.type === "decorator")
+      .map((c) => c.text);
+  }
+
+  protected extractParamNames(paramsNode: TreeSitter.SyntaxNode): string[] {
+    const names: string[] = [];
+    for (const param of paramsNode.namedChildren) {
+      switch (param.type) {
+        case "identifier":
+          names.push(param.text);
+          break;
+        case "default_parameter":
+        case "typed_default_parameter": {
+          const name = this.getFieldText(param, "name");
+          if (name) names.push(name);
+          break;
+        }
+        case "typed_parameter": {
+          const inner = param.namedChild(0);
+          if (inner) names.push(inner.text);
+          break;
+        }
+        case "list_splat_pattern":
+        case "dictionary_splat_pattern":
+          names.push(param.text);
+          break;
+        // `*` and `/` separators carry no name
+      }
+    }
+    return names;
+  }
+
+  protected extractArgTexts(argsNode: TreeSitter.SyntaxNode): string[] {
+    return argsNode.namedChildren.map((arg) => arg.text.substring(0, 100));
+  }
+}
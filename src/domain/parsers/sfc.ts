@@ -0,0 +1,148 @@
+import { basename, extname } from "node:path";
+import { JavaScriptParser } from "./javascript.js";
+import { TypeScriptParser } from "./typescript.js";
+import type {
+  LanguageParser,
+  ParsedFile,
+  ParseResult,
+  ImportsMap,
+} from "../types.js";
+
+const SCRIPT_BLOCK = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+const STYLE_BLOCK = /<style\b[^>]*>[\s\S]*?<\/style\s*>/gi;
+const HTML_COMMENT = /<!--[\s\S]*?-->/g;
+const TAG_NAME = /<([A-Za-z][\w.-]*)/g;
+
+/**
+ * Base for single-file component formats (Vue, Svelte): the `<script>`
+ * blocks are handed to the JS/TS parsers and the file itself becomes a
+ * component that records the child components its markup uses.
+ */
+export abstract class SingleFileComponentParser implements LanguageParser {
+  abstract readonly supportedExtensions: string[];
+  abstract readonly languageName: string;
+
+  private readonly scriptParsers = {
+    javascript: new JavaScriptParser(),
+    typescript: new TypeScriptParser("typescript"),
+    tsx: new TypeScriptParser("tsx"),
+  };
+
+  parse(sourceCode: string, filePath: string, isDependency = false): ParsedFile {
+    return this.parseWithSymbols(sourceCode, filePath, isDependency).parsed;
+  }
+
+  preScan(files: { filePath: string; sourceCode: string }[]): ImportsMap {
+    const map: ImportsMap = new Map();
+    for (const { filePath, sourceCode } of files) {
+      for (const [name, locations] of this.parseWithSymbols(sourceCode, filePath, true).symbols) {
+        if (!map.has(name)) map.set(name, []);
+        map.get(name)!.push(...locations);
+      }
+    }
+    return map;
+  }
+
+  parseWithSymbols(sourceCode: string, filePath: string, isDependency = false): ParseResult {
+    const { script, lang } = this.extractScript(sourceCode);
+    const { parsed, symbols } = this.scriptParsers[lang].parseWithSymbols(script, filePath, isDependency);
+    parsed.lang = this.languageName;
+
+    const name = this.componentNameForFile(filePath);
+    parsed.components = [{
+      name,
+      lineNumber: 1,
+      endLine: sourceCode.replace(/\n$/, "").split("\n").length,
+      children: this.extractChildComponents(sourceCode),
+    }];
+    if (!symbols.has(name)) symbols.set(name, []);
+    symbols.get(name)!.push({ filePath, lineNumber: 1 });
+
+    // The component is the file's default export, whatever `<script>` says,
+    // so `import Card from "./UserCard.vue"` resolves to `UserCard`.
+    const exports = (parsed.exports ?? []).filter((exp) => exp.name !== "default");
+    parsed.exports = [...exports, { name: "default", localName: name, lineNumber: 1 }];
+    symbols.set("default", [{ filePath, lineNumber: 1, exportOf: name }]);
+
+    return { parsed, symbols };
+  }
+
+  /** Markup tag → component name, or undefined for HTML and built-in elements. */
+  protected abstract componentNameForTag(tag: string): string | undefined;
+
+  /** `UserCard.vue` → `UserCard`. */
+  protected componentNameForFile(filePath: string): string {
+    return basename(filePath, extname(filePath));
+  }
+
+  /**
+   * The `<script>` blocks with everything around them blanked out, so the
+   * script parsers report the line numbers of the original file. Several
+   * blocks (`<script>` + `<script setup>`) are parsed as one program.
+   */
+  protected extractScript(source: string): { script: string; lang: "javascript" | "typescript" | "tsx" } {
+    let script = "";
+    let lang: "javascript" | "typescript" | "tsx" = "javascript";
+    let last = 0;
+    for (const match of source.matchAll(SCRIPT_BLOCK)) {
+      const contentStart = match.index! + "<script".length + match[1].length + ">".length;
+      script += blank(source.slice(last, contentStart)) + match[2];
+      last = contentStart + match[2].length;
+
+      const attr = /\blang\s*=\s*["']?(\w+)/i.exec(match[1])?.[1]?.toLowerCase();
+      if (attr === "tsx") lang = "tsx";
+      else if ((attr === "ts" || attr === "typescript") && lang !== "tsx") lang = "typescript";
+    }
+    return { script: script + blank(source.slice(last)), lang };
+  }
+
+  /** Distinct child components used in the markup, in order of first use. */
+  protected extractChildComponents(source: string): string[] {
+    const markup = source
+      .replace(SCRIPT_BLOCK, "")
+      .replace(STYLE_BLOCK, "")
+      .replace(HTML_COMMENT, "");
+    const children = new Set<string>();
+    for (const match of markup.matchAll(TAG_NAME)) {
+      const name = this.componentNameForTag(match[1]);
+      if (name) children.add(name);
+    }
+    return [...children];
+  }
+}
+
+const VUE_BUILT_INS = new Set([
+  "component", "transition", "transition-group", "keep-alive", "teleport", "suspense", "slot", "template",
+]);
+
+export class VueParser extends SingleFileComponentParser {
+  readonly supportedExtensions = [".vue"];
+  readonly languageName = "vue";
+
+  /** `<UserCard>` and `<user-card>` both name the `UserCard` component. */
+  protected componentNameForTag(tag: string): string | undefined {
+    if (VUE_BUILT_INS.has(kebabCase(tag))) return undefined;
+    if (/^[A-Z]/.test(tag)) return tag;
+    if (tag.includes("-")) return tag.split("-").map((p) => p.charAt(0).toUpperCase() + p.slice(1)).join("");
+    return undefined;
+  }
+}
+
+export class SvelteParser extends SingleFileComponentParser {
+  readonly supportedExtensions = [".svelte"];
+  readonly languageName = "svelte";
+
+  /** Svelte components are capitalised; lowercase and `svelte:*` tags are elements. */
+  protected componentNameForTag(tag: string): string | undefined {
+    return /^[A-Z]/.test(tag) ? tag : undefined;
+  }
+}
+
+/** Replace everything but line breaks with spaces. */
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, " ");
+}
+
+function kebabCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, "$1-$2").toLowerCase();
+}
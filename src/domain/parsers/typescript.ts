@@ -1,36 +1,69 @@
 import { createRequire } from "node:module";
+import { extname } from "node:path";
 import type TreeSitter from "tree-sitter";
 import { JavaScriptParser } from "./javascript.js";
 import type {
   ParsedFile,
+  ParsedFunction,
   ParsedClass,
+  ParsedEnum,
+  ParsedProperty,
+  ParsedVariable,
+  Visibility,
 } from "../types.js";
 
 const require = createRequire(import.meta.url);
 
+/** Line span of one namespace block. */
+interface NamespaceBlock {
+  name: string;
+  start: number;
+  end: number;
+}
+
 export class TypeScriptParser extends JavaScriptParser {
   override readonly supportedExtensions = [".ts", ".tsx"];
   override readonly languageName = "typescript";
 
+  private readonly grammars: { typescript: unknown; tsx: unknown };
+
+  /**
+   * `variant` is the grammar used when no file path is known. Files are
+   * otherwise parsed with the dialect matching their extension, since the
+   * plain TypeScript grammar cannot read JSX and the TSX grammar rejects
+   * `<T>value` type assertions.
+   */
   constructor(variant: "typescript" | "tsx" = "typescript") {
     const tsGrammars = require("tree-sitter-typescript");
     super(variant === "tsx" ? tsGrammars.tsx : tsGrammars.typescript);
+    this.grammars = { typescript: tsGrammars.typescript, tsx: tsGrammars.tsx };
+  }
+
+  protected override grammarForFile(filePath: string): unknown {
+    switch (extname(filePath).toLowerCase()) {
+      case ".tsx":
+        return this.grammars.tsx;
+      case ".ts":
+        return this.grammars.typescript;
+      default:
+        return super.grammarForFile(filePath);
+    }
   }
 
   // ── Overrides ───────────────────────────────────────────────
 
-  override parse(sourceCode: string, filePath: string, isDependency = false): ParsedFile {
-    // Single parse — reuse the tree for both base JS extraction and TS-specific
-    const tree = this.parseSource(sourceCode);
-    const root = tree.rootNode;
+  protected override extract(root: TreeSitter.SyntaxNode, filePath: string, isDependency: boolean): ParsedFile {
     const result = this.emptyParsedFile(filePath);
     result.lang = "typescript";
+    result.hasErrors = root.hasError;
 
     // Base JS extractions using the already-parsed tree
     this.extractFunctions(root, result, isDependency);
     this.extractClasses(root, result, isDependency);
     this.extractImports(root, result);
+    this.extractExports(root, result);
     this.extractCalls(root, result);
+    this.extractRenders(root, result);
     if (!isDependency) {
       this.extractVariables(root, result);
     }
@@ -38,8 +71,11 @@ export class TypeScriptParser extends JavaScriptParser {
     // TS-specific extractions (same tree, no re-parse)
     this.extractInterfaces(root, result, isDependency);
     this.extractAbstractClasses(root, result, isDependency);
-    this.extractTypeAliases(root, result);
+    const namespaceBlocks = this.extractNamespaces(root, result);
+    this.extractTypeAliases(root, result, isDependency);
+    this.extractEnums(root, result, isDependency);
     this.augmentClassesWithImplements(root, result);
+    this.assignNamespaces(result, namespaceBlocks);
 
     return result;
   }
@@ -113,6 +149,8 @@ export class TypeScriptParser extends JavaScriptParser {
         }
       }
 
+      const properties = this.extractClassProperties(node);
+      const decorators = this.extractDecorators(node);
       result.classes.push({
         name,
         lineNumber: node.startPosition.row + 1,
@@ -121,6 +159,8 @@ export class TypeScriptParser extends JavaScriptParser {
         source: isDependency ? undefined : node.text,
         docstring: this.extractDocstring(node),
         isAbstract: true,
+        decorators: decorators.length > 0 ? decorators : undefined,
+        properties: properties.length > 0 ? properties : undefined,
       });
     }
   }
@@ -128,20 +168,158 @@ export class TypeScriptParser extends JavaScriptParser {
   private extractTypeAliases(
     root: TreeSitter.SyntaxNode,
     result: ParsedFile,
+    isDependency: boolean,
   ): void {
+    result.typeAliases = [];
     for (const node of root.descendantsOfType("type_alias_declaration")) {
       const name = this.getFieldText(node, "name");
       if (!name) continue;
 
-      result.variables.push({
+      result.typeAliases.push({
         name,
         lineNumber: node.startPosition.row + 1,
-        type: "type",
+        endLine: node.endPosition.row + 1,
         value: node.childForFieldName("value")?.text?.substring(0, 200),
+        source: isDependency ? undefined : node.text,
+        docstring: this.extractDocstring(this.declarationNode(node)),
+        namespace: this.enclosingNamespace(node),
       });
     }
   }
 
+  private extractEnums(
+    root: TreeSitter.SyntaxNode,
+    result: ParsedFile,
+    isDependency: boolean,
+  ): void {
+    result.enums = [];
+    for (const node of root.descendantsOfType("enum_declaration")) {
+      const name = this.getFieldText(node, "name");
+      if (!name) continue;
+
+      const members: ParsedEnum["members"] = [];
+      for (const member of node.childForFieldName("body")?.namedChildren ?? []) {
+        if (member.type === "enum_assignment") {
+          const memberName = this.getFieldText(member, "name");
+          if (memberName) members.push({ name: memberName, value: this.getFieldText(member, "value") });
+        } else if (member.type === "property_identifier" || member.type === "string") {
+          members.push({ name: member.text });
+        }
+      }
+
+      result.enums.push({
+        name,
+        lineNumber: node.startPosition.row + 1,
+        endLine: node.endPosition.row + 1,
+        members,
+        isConst: node.children.some((c) => c.type === "const") || undefined,
+        source: isDependency ? undefined : node.text,
+        docstring: this.extractDocstring(this.declarationNode(node)),
+        namespace: this.enclosingNamespace(node),
+      });
+    }
+  }
+
+  /**
+   * `namespace`, `declare namespace`, `declare module "x"` and `declare global`
+   * blocks. Returns the line span of every block, including the merged ones.
+   */
+  private extractNamespaces(
+    root: TreeSitter.SyntaxNode,
+    result: ParsedFile,
+  ): NamespaceBlock[] {
+    result.namespaces = [];
+    const spans: NamespaceBlock[] = [];
+    const blocks = [
+      ...root.descendantsOfType("internal_module"),
+      ...root.descendantsOfType("module"),
+      ...root.descendantsOfType("ambient_declaration").filter((n) => this.isGlobalAugmentation(n)),
+    ].sort((a, b) => a.startIndex - b.startIndex);
+
+    for (const node of blocks) {
+      const name = this.namespaceName(node);
+      if (!name) continue;
+      const parent = this.enclosingNamespace(node);
+      const fullName = parent ? `${parent}.${name}` : name;
+      spans.push({ name: fullName, start: node.startPosition.row + 1, end: node.endPosition.row + 1 });
+      if (result.namespaces.some((ns) => ns.name === fullName)) continue; // merged declaration
+
+      result.namespaces.push({
+        name: fullName,
+        lineNumber: node.startPosition.row + 1,
+        endLine: node.endPosition.row + 1,
+        isAmbient: this.isAmbient(node) || undefined,
+        isModule: (node.type === "module" && node.childForFieldName("name")?.type === "string") || undefined,
+        docstring: this.extractDocstring(this.declarationNode(node)),
+        namespace: parent,
+      });
+    }
+    return spans;
+  }
+
+  /**
+   * Functions, classes and variables come from the JavaScript extractors,
+   * which keep no syntax nodes; each one is placed in the innermost namespace
+   * block spanning its line.
+   */
+  private assignNamespaces(result: ParsedFile, blocks: NamespaceBlock[]): void {
+    if (blocks.length === 0) return;
+    const innermostFirst = [...blocks].sort((a, b) => (a.end - a.start) - (b.end - b.start));
+    const namespaceAt = (line: number) =>
+      innermostFirst.find((b) => b.start <= line && line <= b.end)?.name;
+
+    for (const symbol of [...result.functions, ...result.classes, ...result.variables]) {
+      symbol.namespace = namespaceAt(symbol.lineNumber);
+    }
+  }
+
+  /** Qualified name of the namespace blocks around a node, outermost first. */
+  private enclosingNamespace(node: TreeSitter.SyntaxNode): string | undefined {
+    const names: string[] = [];
+    for (let current = node.parent; current; current = current.parent) {
+      if (
+        current.type === "internal_module" ||
+        current.type === "module" ||
+        this.isGlobalAugmentation(current)
+      ) {
+        const name = this.namespaceName(current);
+        if (name) names.unshift(name);
+      }
+    }
+    return names.length > 0 ? names.join(".") : undefined;
+  }
+
+  private namespaceName(node: TreeSitter.SyntaxNode): string | undefined {
+    if (this.isGlobalAugmentation(node)) return "global";
+    return this.getFieldText(node, "name")?.replace(/['"]/g, "");
+  }
+
+  /** `declare global { ... }` */
+  private isGlobalAugmentation(node: TreeSitter.SyntaxNode): boolean {
+    return node.type === "ambient_declaration" && node.children.some((c) => c.type === "global");
+  }
+
+  private isAmbient(node: TreeSitter.SyntaxNode): boolean {
+    for (let current: TreeSitter.SyntaxNode | null = node; current; current = current.parent) {
+      if (current.type === "ambient_declaration") return true;
+    }
+    return false;
+  }
+
+  /** The statement carrying a declaration's doc comment (`export ...`, `declare ...`, `namespace ...`). */
+  private declarationNode(node: TreeSitter.SyntaxNode): TreeSitter.SyntaxNode {
+    const parent = node.parent;
+    if (
+      parent &&
+      (parent.type === "export_statement" ||
+        parent.type === "ambient_declaration" ||
+        parent.type === "expression_statement")
+    ) {
+      return parent;
+    }
+    return node;
+  }
+
   private augmentClassesWithImplements(
     root: TreeSitter.SyntaxNode,
     result: ParsedFile,
@@ -188,6 +366,110 @@ export class TypeScriptParser extends JavaScriptParser {
     }
   }
 
+  // ── Type annotations ────────────────────────────────────────
+
+  protected override extractSignatureTypes(
+    fnNode: TreeSitter.SyntaxNode,
+  ): Pick<ParsedFunction, "paramTypes" | "returnType" | "usesTypes"> {
+    const paramTypes: Record<string, string> = {};
+    const usesTypes = new Set<string>();
+
+    for (const param of fnNode.childForFieldName("parameters")?.namedChildren ?? []) {
+      if (param.type !== "required_parameter" && param.type !== "optional_parameter") continue;
+      const pattern = param.childForFieldName("pattern");
+      const type = this.annotatedType(param, "type");
+      if (!pattern || !type) continue;
+      paramTypes[pattern.text] = type.text;
+      for (const name of this.referencedTypeNames(type, fnNode)) usesTypes.add(name);
+    }
+
+    const returnType = this.annotatedType(fnNode, "return_type");
+    if (returnType) {
+      for (const name of this.referencedTypeNames(returnType, fnNode)) usesTypes.add(name);
+    }
+
+    return {
+      paramTypes: Object.keys(paramTypes).length > 0 ? paramTypes : undefined,
+      returnType: returnType?.text,
+      usesTypes: usesTypes.size > 0 ? [...usesTypes] : undefined,
+    };
+  }
+
+  protected override extractPropertyTypes(
+    member: TreeSitter.SyntaxNode,
+  ): Pick<ParsedProperty, "type" | "usesTypes"> {
+    const type = this.annotatedType(member, "type");
+    const usesTypes = type ? this.referencedTypeNames(type, member) : [];
+    return { type: type?.text, usesTypes: usesTypes.length > 0 ? usesTypes : undefined };
+  }
+
+  protected override extractVariableTypes(
+    node: TreeSitter.SyntaxNode,
+  ): Pick<ParsedVariable, "usesTypes"> {
+    const type = this.annotatedType(node, "type");
+    const usesTypes = type ? this.referencedTypeNames(type, node) : [];
+    return { usesTypes: usesTypes.length > 0 ? usesTypes : undefined };
+  }
+
+  // ── Class members ───────────────────────────────────────────
+
+  /** Fields, plus constructor parameter properties (`constructor(private readonly repo: Repo)`). */
+  protected override extractClassProperties(classNode: TreeSitter.SyntaxNode): ParsedProperty[] {
+    const properties = super.extractClassProperties(classNode);
+
+    const ctor = classNode.childForFieldName("body")?.namedChildren.find(
+      (m) => m.type === "method_definition" && this.getFieldText(m, "name") === "constructor",
+    );
+    for (const param of ctor?.childForFieldName("parameters")?.namedChildren ?? []) {
+      const modifier = param.namedChildren.find((c) => c.type === "accessibility_modifier");
+      const isReadonly = param.children.some((c) => c.type === "readonly");
+      const pattern = param.childForFieldName("pattern");
+      if ((!modifier && !isReadonly) || !pattern) continue;
+
+      properties.push({
+        name: pattern.text,
+        lineNumber: param.startPosition.row + 1,
+        visibility: (modifier?.text as Visibility | undefined) ?? "public",
+        isReadonly: isReadonly || undefined,
+        ...this.extractPropertyTypes(param),
+      });
+    }
+    return properties;
+  }
+
+  protected override memberVisibility(member: TreeSitter.SyntaxNode, nameNode?: TreeSitter.SyntaxNode | null): Visibility {
+    const modifier = member.namedChildren.find((c) => c.type === "accessibility_modifier");
+    return (modifier?.text as Visibility | undefined) ?? super.memberVisibility(member, nameNode);
+  }
+
+  /** The type inside a `: T` annotation field. */
+  private annotatedType(node: TreeSitter.SyntaxNode, field: string): TreeSitter.SyntaxNode | undefined {
+    const annotation = node.childForFieldName(field);
+    return annotation?.namedChild(0) ?? undefined;
+  }
+
+  /**
+   * Named types mentioned in a type (`Promise<Result[]>` → Promise, Result),
+   * leaving out type parameters declared around `scope`. Qualified names
+   * (`ns.Type`) keep their last segment.
+   */
+  private referencedTypeNames(type: TreeSitter.SyntaxNode, scope: TreeSitter.SyntaxNode): string[] {
+    const typeParams = new Set<string>();
+    for (let current: TreeSitter.SyntaxNode | null = scope; current; current = current.parent) {
+      for (const param of current.childForFieldName("type_parameters")?.namedChildren ?? []) {
+        const name = this.getFieldText(param, "name");
+        if (name) typeParams.add(name);
+      }
+    }
+
+    const names = new Set<string>();
+    const candidates = type.type === "type_identifier" ? [type] : type.descendantsOfType("type_identifier");
+    for (const id of candidates) {
+      if (!typeParams.has(id.text)) names.add(id.text);
+    }
+    return [...names];
+  }
+
   protected override extractParamNames(paramsNode: TreeSitter.SyntaxNode): string[] {
     const names: string[] = [];
     for (let i = 0; i < paramsNode.namedChildCount; i++) {
@@ -0,0 +1,96 @@
+import type { ParsedCall, ParsedImport, ImportsMap, SymbolLocation } from "./types.js";
+
+/** A PSR-4 autoload entry of composer.json: classes under `prefix` live below `dir`. */
+export interface Psr4Mapping {
+  /** Namespace prefix without leading or trailing backslash; empty for the fallback directory. */
+  prefix: string;
+  dir: string;
+}
+
+/**
+ * The fully-qualified name a class (or qualified function) name written in
+ * `namespace` stands for, by PHP's rules: `\A\B` is already qualified,
+ * `namespace\B` is relative to the current namespace, a first segment
+ * matching a `use` import is replaced by what it imports, and anything
+ * else is relative to the current namespace.
+ */
+export function qualifyPhpName(name: string, namespace: string | undefined, imports: ParsedImport[]): string {
+  if (name.startsWith("\\")) return name.slice(1);
+  if (/^namespace\\/i.test(name)) return joinNamespace(namespace, name.slice("namespace\\".length));
+  const [first, ...rest] = name.split("\\");
+  const imported = imports.find((imp) => imp.name.toLowerCase() === first.toLowerCase() && isPhpName(imp.source));
+  if (imported) return [imported.source.replace(/^\\/, ""), ...rest].join("\\");
+  return joinNamespace(namespace, name);
+}
+
+/**
+ * Fully-qualified names a call may target, most likely first; undefined
+ * for calls a name cannot pin down (`$obj->method()`, `new`, `self::`).
+ * An unqualified function call falls back to the global function, as PHP
+ * does at runtime.
+ */
+export function phpCallCandidates(
+  call: ParsedCall,
+  namespace: string | undefined,
+  imports: ParsedImport[],
+): string[] | undefined {
+  if (call.fullCallName?.startsWith("new ")) return undefined;
+  if (call.inferredObjType !== undefined) {
+    const scope = call.inferredObjType;
+    if (!call.fullCallName?.includes("::") || scope.startsWith("$") || relativeScope(call)) return undefined;
+    return [`${qualifyPhpName(scope, namespace, imports)}::${call.name}`];
+  }
+  const name = call.name;
+  const imported = imports.some((imp) => imp.name.toLowerCase() === name.split("\\")[0].toLowerCase());
+  if (name.includes("\\") || imported || !namespace) return [qualifyPhpName(name, namespace, imports)];
+  return [`${namespace}\\${name}`, name];
+}
+
+/** `self`, `static` or `parent` for calls scoped to the calling class or its parent. */
+export function relativeScope(call: ParsedCall): "self" | "static" | "parent" | undefined {
+  if (!call.fullCallName?.includes("::")) return undefined;
+  const scope = call.inferredObjType?.toLowerCase();
+  return scope === "self" || scope === "static" || scope === "parent" ? scope : undefined;
+}
+
+/** The first candidate some file defines, matched case-insensitively like PHP does. */
+export function findByFqn(fqns: string[], importsMap: ImportsMap): (SymbolLocation & { name: string }) | undefined {
+  for (const fqn of fqns) {
+    const name = shortName(fqn);
+    const location = importsMap.get(name)?.find((l) => l.fqn?.toLowerCase() === fqn.toLowerCase());
+    if (location) return { ...location, name };
+  }
+  return undefined;
+}
+
+/** The file PSR-4 autoloading loads a class from, trying the longest matching prefix first. */
+export function resolvePsr4(
+  fqn: string,
+  mappings: Psr4Mapping[],
+  isFile: (path: string) => boolean,
+): string | undefined {
+  const className = fqn.replace(/^\\/, "");
+  const matching = mappings
+    .filter((m) => m.prefix === "" || className.startsWith(`${m.prefix}\\`))
+    .sort((a, b) => b.prefix.length - a.prefix.length);
+  for (const mapping of matching) {
+    const relativePath = (mapping.prefix ? className.slice(mapping.prefix.length + 1) : className).replace(/\\/g, "/");
+    const path = `${mapping.dir.replace(/\/+$/, "")}/${relativePath}.php`;
+    if (isFile(path)) return path;
+  }
+  return undefined;
+}
+
+/** `App\Models\User::find` → `find`, `App\Models\User` → `User`. */
+export function shortName(fqn: string): string {
+  return fqn.split("::").pop()!.split("\\").pop()!;
+}
+
+function joinNamespace(namespace: string | undefined, name: string): string {
+  return namespace ? `${namespace}\\${name}` : name;
+}
+
+/** `use` imports name classes and functions; includes name files. */
+function isPhpName(source: string): boolean {
+  return /^\\?[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*(?:\\[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)*$/.test(source);
+}
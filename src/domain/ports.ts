@@ -1,6 +1,8 @@
 import type {
   IndexJob,
+  IndexPhase,
   ParsedFile,
+  ParseResult,
   ImportsMap,
   GraphStats,
   SearchResult,
@@ -9,9 +11,16 @@ import type {
   DeadCodeResult,
   ImporterResult,
   ComplexityResult,
+  TypeUsageResult,
+  DecoratedResult,
+  RouteResult,
+  RendererResult,
   SymbolSummary,
   SemanticSearchResult,
   AskResult,
+  RepoFileFilter,
+  IndexPlan,
+  IndexOptions,
 } from "./types.js";
 
 // ── Outbound ports ──────────────────────────────────────────────
@@ -22,10 +31,42 @@ export interface GlobOptions {
   ignore?: string[];
 }
 
+/** A commit that a FileSystem reads from instead of the working tree. */
+export interface Revision {
+  commit: string;
+  ref: string;
+}
+
 export interface FileSystem {
+  /** Set when files come from a git commit rather than the working tree. */
+  readonly revision?: Revision;
   readFile(filePath: string): Promise<string>;
   exists(filePath: string): boolean;
+  /** Size of a file in bytes. */
+  fileSize(filePath: string): Promise<number>;
   glob(patterns: string[], options: GlobOptions): Promise<string[]>;
+  /** Git object id of a file's content, when known without reading the file. */
+  blobId?(filePath: string): string | undefined;
+  /** Release processes or handles held for reading files. */
+  close?(): Promise<void>;
+}
+
+/** Opens a directory as it was at a git revision (branch, tag or SHA). */
+export interface RevisionSource {
+  open(dirPath: string, ref: string): Promise<FileSystem>;
+}
+
+/** One node for a bulk MERGE: `key` identifies it, `props` are SET on it. */
+export interface NodeRow {
+  key: Record<string, unknown>;
+  props?: Record<string, unknown>;
+}
+
+/** One relationship for a bulk MERGE between two existing nodes. */
+export interface RelationshipRow {
+  from: Record<string, unknown>;
+  to: Record<string, unknown>;
+  props?: Record<string, unknown>;
 }
 
 export type QueryResultRow = Record<string, unknown>;
@@ -36,6 +77,7 @@ export interface GraphReader {
   vectorSearch(embedding: number[], limit: number): Promise<SemanticSearchResult[]>;
   getContentHash(label: string, key: Record<string, unknown>): Promise<string | null>;
   getRepositoryFileHashes(repoPath: string): Promise<Record<string, string>>;
+  getRepositoryFilePhases(repoPath: string): Promise<Record<string, IndexPhase>>;
   getImportsMapForFiles(filePaths: string[]): Promise<ImportsMap>;
 }
 
@@ -56,6 +98,20 @@ export interface GraphWriter {
     props?: Record<string, unknown>,
   ): Promise<void>;
 
+  /** Bulk equivalent of mergeNode: one round-trip per chunk of rows. */
+  mergeNodes(label: string, rows: NodeRow[]): Promise<void>;
+
+  /** Bulk equivalent of mergeRelationship: one round-trip per chunk of rows. */
+  mergeRelationships(
+    fromLabel: string,
+    toLabel: string,
+    relType: string,
+    rows: RelationshipRow[],
+  ): Promise<void>;
+
+  /** Record the last indexing phase completed by each file (resume checkpoint). */
+  setFilePhase(filePaths: string[], phase: IndexPhase): Promise<void>;
+
   deleteFileNodes(filePath: string): Promise<void>;
   deleteRepository(repoPath: string): Promise<void>;
   deleteAll(): Promise<void>;
@@ -89,11 +145,21 @@ export interface Logger {
   debug(msg: string, ...args: unknown[]): void;
 }
 
+/** Parses files off the calling thread. Resolves null for unsupported files. */
+export interface ParserPool {
+  parse(filePath: string, sourceCode: string, isDependency?: boolean): Promise<ParseResult | null>;
+  close(): Promise<void>;
+}
+
 export interface JobStore {
   create(job: IndexJob): void;
   get(id: string): IndexJob | undefined;
   getAll(): IndexJob[];
   update(id: string, partial: Partial<IndexJob>): void;
+  /** Request cancellation of a running job. Returns false if it is not running. */
+  cancel(id: string): boolean;
+  /** Cancellation token for a running job; aborted once `cancel` is called. */
+  getSignal(id: string): AbortSignal | undefined;
 }
 
 // ── Inbound ports (use cases) ───────────────────────────────────
@@ -102,10 +168,13 @@ export interface LanguageParser {
   supportedExtensions: string[];
   parse(source: string, filePath: string, isDependency?: boolean): ParsedFile;
   preScan(files: { filePath: string; sourceCode: string }[]): ImportsMap;
+  parseWithSymbols(source: string, filePath: string, isDependency?: boolean): ParseResult;
 }
 
 export interface IndexCode {
-  indexDirectory(dirPath: string, isDependency?: boolean): Promise<string>;
+  indexDirectory(dirPath: string, isDependency?: boolean, options?: IndexOptions): Promise<string>;
+  /** Dry run: the plan indexDirectory would follow. No writes, no LLM calls. */
+  planIndex(dirPath: string, isDependency?: boolean, options?: IndexOptions): Promise<IndexPlan>;
   indexFile(
     filePath: string,
     repoPath: string,
@@ -114,6 +183,8 @@ export interface IndexCode {
   ): Promise<ParsedFile | null>;
   removeFile(filePath: string): Promise<void>;
   collectFiles(dirPath: string): Promise<string[]>;
+  /** Path rules from the repository's .codegraph.json and .gitignore. */
+  getFileFilter(repoPath: string): Promise<RepoFileFilter>;
 }
 
 export interface SearchCode {
@@ -130,6 +201,11 @@ export interface AnalyzeCode {
   findImporters(name: string, limit: number): Promise<ImporterResult[]>;
   moduleDeps(name: string, limit: number): Promise<string[]>;
   findComplexity(name: string, limit: number): Promise<ComplexityResult[]>;
+  findTypeUsages(name: string, limit: number): Promise<TypeUsageResult[]>;
+  findDecorated(name: string, limit: number): Promise<DecoratedResult[]>;
+  findRenderers(name: string, limit: number): Promise<RendererResult[]>;
+  listRoutes(limit: number, repoPath?: string, path?: string): Promise<RouteResult[]>;
+  traceRoute(path: string, method: string | undefined, depth: number, limit: number): Promise<string[][]>;
   mostComplexFunctions(limit: number, repoPath?: string): Promise<ComplexityResult[]>;
   calculateComplexity(name: string, path?: string): Promise<ComplexityResult[]>;
 }
@@ -0,0 +1,146 @@
+import { parseDecorators } from "./decorators.js";
+import type { ParsedCall, ParsedFile, ParsedRoute } from "./types.js";
+
+const HTTP_METHODS = new Set(["get", "post", "put", "patch", "delete", "options", "head", "all"]);
+const NEST_METHOD_DECORATORS = new Set(["Get", "Post", "Put", "Patch", "Delete", "Options", "Head", "All"]);
+/** Receivers Express routes are usually registered on: `app`, `router`, `adminRouter`, `apiApp`. */
+const EXPRESS_RECEIVER = /^(?:app|router|\w*(?:App|Router))$/;
+/** The `Route` facade, imported or fully qualified. */
+const LARAVEL_FACADE = /^\\?(?:Illuminate\\Support\\Facades\\)?Route$/;
+
+/**
+ * HTTP routes a file declares, read from what the language parsers already
+ * extract: Express `app.get(path, ...handlers)` calls, NestJS `@Get()`
+ * methods of `@Controller()` classes and Laravel `Route::get(path, action)`
+ * calls. Prefixes applied by mounting routers (`app.use("/api", router)`)
+ * or by Laravel route groups are not followed.
+ */
+export function extractRoutes(parsed: ParsedFile): ParsedRoute[] {
+  switch (parsed.lang) {
+    case "javascript":
+    case "typescript":
+      return [...expressRoutes(parsed.calls), ...nestRoutes(parsed)];
+    case "php":
+      return laravelRoutes(parsed.calls);
+    default:
+      return [];
+  }
+}
+
+function expressRoutes(calls: ParsedCall[]): ParsedRoute[] {
+  const routes: ParsedRoute[] = [];
+  for (const call of calls) {
+    if (!HTTP_METHODS.has(call.name) || call.fullCallName !== `${call.inferredObjType}.${call.name}`) continue;
+    if (!EXPRESS_RECEIVER.test(call.inferredObjType ?? "")) continue;
+    // `app.get("port")` reads a setting; a route needs a path and a handler.
+    const path = stringLiteral(call.args[0]);
+    if (call.args.length < 2 || !(path?.startsWith("/") || path === "*")) continue;
+
+    const handler = call.args[call.args.length - 1];
+    const named = /^[\w$]+(?:\.[\w$]+)*$/.test(handler);
+    routes.push({
+      method: call.name.toUpperCase(),
+      path,
+      lineNumber: call.lineNumber,
+      framework: "express",
+      handler: named ? handler : undefined,
+      handlerName: named ? handler.split(".").pop() : undefined,
+    });
+  }
+  return routes;
+}
+
+function nestRoutes(parsed: ParsedFile): ParsedRoute[] {
+  const routes: ParsedRoute[] = [];
+  for (const cls of parsed.classes) {
+    const controller = parseDecorators(cls.decorators).find((d) => d.name === "Controller");
+    if (!controller) continue;
+    const prefix = decoratorPath(controller.arguments);
+
+    for (const fn of parsed.functions) {
+      if (!fn.isMethod || fn.classContext !== cls.name) continue;
+      if (fn.lineNumber < cls.lineNumber || fn.lineNumber > cls.endLine) continue;
+      for (const decorator of parseDecorators(fn.decorators)) {
+        if (!NEST_METHOD_DECORATORS.has(decorator.name)) continue;
+        routes.push({
+          method: decorator.name.toUpperCase(),
+          path: joinPaths(prefix, decoratorPath(decorator.arguments)),
+          lineNumber: fn.lineNumber,
+          framework: "nestjs",
+          handler: `${cls.name}.${fn.name}`,
+          handlerName: fn.name,
+          handlerClass: cls.name,
+          handlerLine: fn.lineNumber,
+        });
+      }
+    }
+  }
+  return routes;
+}
+
+function laravelRoutes(calls: ParsedCall[]): ParsedRoute[] {
+  const routes: ParsedRoute[] = [];
+  for (const call of calls) {
+    if (!LARAVEL_FACADE.test(call.inferredObjType ?? "") || !call.fullCallName?.includes("::")) continue;
+
+    let methods: string[];
+    let args = call.args;
+    if (call.name.toLowerCase() === "match") {
+      methods = [...(args[0] ?? "").matchAll(/['"](\w+)['"]/g)].map((m) => m[1].toUpperCase());
+      args = args.slice(1);
+    } else if (call.name.toLowerCase() === "any") {
+      methods = ["ALL"];
+    } else if (HTTP_METHODS.has(call.name.toLowerCase())) {
+      methods = [call.name.toUpperCase()];
+    } else {
+      continue;
+    }
+    const path = stringLiteral(args[0]);
+    if (path === undefined) continue;
+
+    const action = laravelAction(args[1]);
+    for (const method of methods) {
+      routes.push({
+        method,
+        path: joinPaths(path),
+        lineNumber: call.lineNumber,
+        framework: "laravel",
+        handler: action && `${action.className}@${action.method}`,
+        handlerName: action?.method,
+        handlerClass: action?.className,
+      });
+    }
+  }
+  return routes;
+}
+
+/** `[UserController::class, 'index']` or `'UserController@index'`; closures name no handler. */
+function laravelAction(arg: string | undefined): { className: string; method: string } | undefined {
+  if (!arg) return undefined;
+  const tuple = /^\[\s*([\w\\]+)::class\s*,\s*['"](\w+)['"]\s*\]$/.exec(arg.trim());
+  if (tuple) return { className: tuple[1], method: tuple[2] };
+  const action = /^([\w\\]+)@(\w+)$/.exec(stringLiteral(arg) ?? "");
+  return action ? { className: action[1].replace(/\\\\/g, "\\"), method: action[2] } : undefined;
+}
+
+/** The path argument of a NestJS decorator: `"cats"`, `{ path: "cats" }`, or none. */
+function decoratorPath(args: string | undefined): string {
+  if (!args) return "";
+  const literal = stringLiteral(args);
+  if (literal !== undefined) return literal;
+  const option = /\bpath\s*:\s*(['"`])(.*?)\1/.exec(args);
+  return option ? option[2] : "";
+}
+
+/** Joins route segments into one `/`-led path without doubled or trailing slashes. */
+function joinPaths(...segments: string[]): string {
+  const joined = segments.flatMap((s) => s.split("/")).filter(Boolean).join("/");
+  return `/${joined}`;
+}
+
+/** The value of a string literal without interpolation, or undefined for any other expression. */
+function stringLiteral(text: string | undefined): string | undefined {
+  const match = /^(['"`])((?:[^\\]|\\.)*?)\1$/s.exec(text?.trim() ?? "");
+  if (!match || (match[1] === "`" && match[2].includes("${"))) return undefined;
+  return match[2];
+}
@@ -1,26 +1,57 @@
-import type { ParsedFile, ImportsMap } from "./types.js";
+import { posix } from "node:path";
+import type { ParsedFile, ParsedExport, ImportsMap, SymbolLocation } from "./types.js";
+
+const MODULE_EXTENSIONS = [".ts", ".tsx", ".d.ts", ".js", ".jsx", ".mjs", ".cjs", ".vue", ".svelte"];
+
+/**
+ * Files a module specifier imported from `fromPath` may refer to. The
+ * default, `moduleCandidates`, knows relative paths only; indexing passes
+ * one that also applies tsconfig `paths` and workspace packages.
+ */
+export type ModuleResolver = (source: string, fromPath: string) => string[];
+
+/** Where a name is defined, under the definition's own name. */
+export interface ResolvedSymbol {
+  name: string;
+  filePath: string;
+  lineNumber: number;
+  /** No definition was found, so the location is the export statement that names it. */
+  atExport?: boolean;
+}
 
 /**
  * Resolve a symbol name to its definition location using:
- * 1. The parsed file's imports
+ * 1. The parsed file's imports, following the modules `resolveModule`
+ *    finds for them through re-exporting (barrel) modules to the
+ *    defining file
  * 2. The global ImportsMap from pre-scanning
  *
+ * The result carries the definition's own name, which differs from `name`
+ * for aliased imports (`import { a as b }`) and renamed re-exports.
+ *
  * Pure function — no side effects, no I/O.
  */
 export function resolveSymbol(
   name: string,
   parsed: ParsedFile,
   importsMap: ImportsMap,
-): { filePath: string; lineNumber: number } | undefined {
+  resolveModule: ModuleResolver = moduleCandidates,
+): ResolvedSymbol | undefined {
   // 1. Check imports of this file
   const imp = parsed.imports.find((i) => i.name === name || i.alias === name);
   if (imp) {
-    const locations =
-      importsMap.get(name) ??
-      importsMap.get(imp.name) ??
-      (imp.alias ? importsMap.get(imp.alias) : undefined);
-    if (locations && locations.length > 0) {
-      return locations[0];
+    if (!imp.isNamespace) {
+      const exported = imp.isDefault ? "default" : imp.alias ?? imp.name;
+      for (const candidate of resolveModule(imp.source, parsed.path)) {
+        const found = resolveExport(exported, candidate, importsMap, resolveModule);
+        if (found) return found;
+      }
+    }
+
+    const importedName = [name, imp.name, imp.alias].find((n) => n && importsMap.get(n)?.length);
+    if (importedName) {
+      const locations = importsMap.get(importedName)!;
+      return definitionOf(importedName, locations, importsMap, resolveModule) ?? exportSite(importedName, locations[0]);
     }
   }
 
@@ -28,9 +59,136 @@ export function resolveSymbol(
   const globalLocations = importsMap.get(name);
   if (globalLocations && globalLocations.length > 0) {
     // Prefer a different file over same file
-    const external = globalLocations.find((l) => l.filePath !== parsed.path);
-    return external ?? globalLocations[0];
+    const definitions = globalLocations.filter((l) => l.exportOf === undefined);
+    if (definitions.length > 0) {
+      const definition = definitions.find((l) => l.filePath !== parsed.path) ?? definitions[0];
+      return { name, filePath: definition.filePath, lineNumber: definition.lineNumber };
+    }
+    return definitionOf(name, globalLocations, importsMap, resolveModule) ?? exportSite(name, globalLocations[0]);
+  }
+
+  return undefined;
+}
+
+/**
+ * The definition behind `name` as exported by the module at `filePath`,
+ * following renamed exports, `export ... from` re-exports and `export *`
+ * barrels. `name` is the definition's own name, which renames may change.
+ */
+export function resolveExport(
+  name: string,
+  filePath: string,
+  importsMap: ImportsMap,
+  resolveModule: ModuleResolver = moduleCandidates,
+  seen = new Set<string>(),
+): ResolvedSymbol | undefined {
+  const key = `${filePath}\0${name}`;
+  if (seen.has(key)) return undefined; // re-export cycle
+  seen.add(key);
+
+  const locations = (importsMap.get(name) ?? []).filter((l) => l.filePath === filePath);
+  const definition = locations.find((l) => l.exportOf === undefined);
+  if (definition) return { name, filePath, lineNumber: definition.lineNumber };
+
+  for (const location of locations) {
+    const found = followExport(name, location, importsMap, resolveModule, seen);
+    if (found) return found;
+  }
+
+  // `export * from` forwards every name but the default export.
+  if (name !== "default") {
+    for (const star of importsMap.get("*") ?? []) {
+      if (star.filePath !== filePath || !star.from) continue;
+      for (const candidate of resolveModule(star.from, filePath)) {
+        const found = resolveExport(name, candidate, importsMap, resolveModule, seen);
+        if (found) return found;
+      }
+    }
   }
 
   return undefined;
 }
+
+/**
+ * Files a relative or absolute module specifier may refer to, most
+ * specific first: the path itself, with a source extension (`./a.js` is
+ * often `./a.ts`) and as a directory index. Package specifiers have none.
+ */
+export function moduleCandidates(source: string, fromPath: string): string[] {
+  if (!source.startsWith(".") && !source.startsWith("/")) return [];
+  const base = posix.resolve(posix.dirname(fromPath), source);
+  const stem = base.replace(/\.[cm]?jsx?$/, "");
+  return [
+    base,
+    ...MODULE_EXTENSIONS.map((ext) => stem + ext),
+    ...MODULE_EXTENSIONS.map((ext) => `${base}/index${ext}`),
+  ];
+}
+
+/**
+ * Record a module's exports in an imports map. Declarations exported in
+ * place are definitions; every other export points at the binding it
+ * stands for, which `resolveExport` follows.
+ */
+export function addExportSymbols(map: ImportsMap, filePath: string, exports: ParsedExport[]): void {
+  for (const exp of exports) {
+    const location: SymbolLocation =
+      exp.localName === undefined && exp.source === undefined
+        ? { filePath, lineNumber: exp.lineNumber }
+        : { filePath, lineNumber: exp.lineNumber, exportOf: exp.localName ?? exp.name, from: exp.source };
+    if (!map.has(exp.name)) map.set(exp.name, []);
+    map.get(exp.name)!.push(location);
+  }
+}
+
+/** Follow the first export among `locations` that leads to a definition. */
+function definitionOf(
+  name: string,
+  locations: SymbolLocation[],
+  importsMap: ImportsMap,
+  resolveModule: ModuleResolver,
+): ResolvedSymbol | undefined {
+  for (const location of locations) {
+    const found =
+      location.exportOf === undefined
+        ? { name, filePath: location.filePath, lineNumber: location.lineNumber }
+        : followExport(name, location, importsMap, resolveModule, new Set([`${location.filePath}\0${name}`]));
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/** An export statement standing in for a definition no scanned file holds. */
+function exportSite(name: string, location: SymbolLocation): ResolvedSymbol {
+  return {
+    name: location.exportOf && location.exportOf !== "*" ? location.exportOf : name,
+    filePath: location.filePath,
+    lineNumber: location.lineNumber,
+    atExport: location.exportOf !== undefined || undefined,
+  };
+}
+
+function followExport(
+  name: string,
+  location: SymbolLocation,
+  importsMap: ImportsMap,
+  resolveModule: ModuleResolver,
+  seen: Set<string>,
+): ResolvedSymbol | undefined {
+  const target = location.exportOf!;
+
+  // `export * as ns from` defines the namespace object at the export itself.
+  if (target === "*") return { name, filePath: location.filePath, lineNumber: location.lineNumber };
+
+  if (location.from === undefined) {
+    // A local binding we have no definition for (e.g. one imported and
+    // exported again) is best located at its export.
+    return resolveExport(target, location.filePath, importsMap, resolveModule, seen) ?? exportSite(name, location);
+  }
+
+  for (const candidate of resolveModule(location.from, location.filePath)) {
+    const found = resolveExport(target, candidate, importsMap, resolveModule, seen);
+    if (found) return found;
+  }
+  return undefined;
+}
@@ -1,20 +1,30 @@
 // ── Parsed entities ──────────────────────────────────────────────
 
-export type SupportedLanguage = "javascript" | "typescript" | "php";
+export type SupportedLanguage = "javascript" | "typescript" | "php" | "python" | "go" | "vue" | "svelte";
+
+export type Visibility = "public" | "protected" | "private";
 
 export interface ParsedFunction {
   name: string;
   lineNumber: number;
   endLine: number;
   args: string[];
+  paramTypes?: Record<string, string>; // arg name → annotated type
+  returnType?: string;
+  usesTypes?: string[]; // type names mentioned in the signature
   source?: string;
   docstring?: string;
   cyclomaticComplexity: number;
   context?: string;
   classContext?: string;
+  namespace?: string; // enclosing TypeScript namespace / ambient module, or PHP namespace
+  fqn?: string; // PHP: `Ns\func`, or `Ns\Class::method` for methods
   decorators?: string[];
   isAsync?: boolean;
   kind?: "getter" | "setter" | "static" | "constructor";
+  isMethod?: boolean; // declared directly in the body of `classContext`
+  visibility?: Visibility;
+  isStatic?: boolean;
 }
 
 export interface ParsedClass {
@@ -27,6 +37,23 @@ export interface ParsedClass {
   docstring?: string;
   isAbstract?: boolean;
   isInterface?: boolean;
+  isTrait?: boolean;
+  traits?: string[]; // PHP traits the class body `use`s, as written
+  decorators?: string[];
+  namespace?: string;
+  fqn?: string; // PHP: `Ns\Class`
+  properties?: ParsedProperty[];
+}
+
+export interface ParsedProperty {
+  name: string;
+  lineNumber: number;
+  type?: string;
+  usesTypes?: string[];
+  visibility?: Visibility;
+  isStatic?: boolean;
+  isReadonly?: boolean;
+  decorators?: string[];
 }
 
 export interface ParsedImport {
@@ -36,6 +63,22 @@ export interface ParsedImport {
   lineNumber: number;
   isDefault?: boolean;
   isNamespace?: boolean;
+  /** Loaded at runtime with `import()` rather than a static import. */
+  isDynamic?: boolean;
+}
+
+/**
+ * One name a module exports. Declarations exported in place only carry a
+ * name; `export { a as b }` and `export default a` name the local binding,
+ * and `export ... from` re-exports name the module they come from.
+ */
+export interface ParsedExport {
+  /** Name importers use: `default` for the default export, `*` for `export * from`. */
+  name: string;
+  /** The exported binding, in this module or in `source`; `*` for `export * as ns from`. */
+  localName?: string;
+  source?: string;
+  lineNumber: number;
 }
 
 export interface ParsedCall {
@@ -55,6 +98,73 @@ export interface ParsedVariable {
   type?: string;
   context?: string;
   classContext?: string;
+  namespace?: string;
+  usesTypes?: string[];
+}
+
+export interface ParsedTypeAlias {
+  name: string;
+  lineNumber: number;
+  endLine: number;
+  value?: string;
+  source?: string;
+  docstring?: string;
+  namespace?: string;
+}
+
+export interface ParsedEnum {
+  name: string;
+  lineNumber: number;
+  endLine: number;
+  members: { name: string; value?: string }[];
+  isConst?: boolean;
+  source?: string;
+  docstring?: string;
+  namespace?: string;
+}
+
+/**
+ * A `namespace` block, `declare namespace` / `declare module "x"` or
+ * `declare global`. Dotted names (`namespace A.B`) and nesting are kept in
+ * `name`; declarations merging into the same namespace share one node.
+ */
+export interface ParsedNamespace {
+  name: string;
+  lineNumber: number;
+  endLine: number;
+  isAmbient?: boolean; // `declare ...`
+  isModule?: boolean; // `declare module "x"`: augments or declares a module
+  docstring?: string;
+  namespace?: string; // enclosing namespace
+}
+
+/** A single-file component (`.vue`, `.svelte`) and the child components its markup uses. */
+export interface ParsedComponent {
+  name: string;
+  lineNumber: number;
+  endLine: number;
+  children: string[];
+}
+
+/** A JSX element rendering a component, inside the function that renders it. */
+export interface ParsedRender {
+  component: string; // element name as written, e.g. "UserCard"
+  lineNumber: number;
+  props: string[]; // attribute names; spread props are not listed
+  callerName?: string;
+  callerLineNumber?: number;
+}
+
+/** An HTTP route a framework registers, found by `extractRoutes`. */
+export interface ParsedRoute {
+  method: string; // upper-case HTTP method; "ALL" for routes that answer any
+  path: string; // as declared, with the controller prefix for NestJS
+  lineNumber: number;
+  framework: "express" | "nestjs" | "laravel";
+  handler?: string; // as written: "listUsers", "users.update", "CatsController.findOne", "UserController@index"
+  handlerName?: string; // function or method the handler names
+  handlerClass?: string; // class of a handler method, as written
+  handlerLine?: number; // set when the handler is defined in the same file
 }
 
 export interface ParsedFile {
@@ -67,11 +177,29 @@ export interface ParsedFile {
   imports: ParsedImport[];
   calls: ParsedCall[];
   variables: ParsedVariable[];
+  components?: ParsedComponent[];
+  renders?: ParsedRender[];
+  typeAliases?: ParsedTypeAlias[];
+  enums?: ParsedEnum[];
+  namespaces?: ParsedNamespace[];
+  exports?: ParsedExport[];
+  hasErrors?: boolean; // tree-sitter produced ERROR/MISSING nodes
 }
 
 // ── Cross-file symbol resolution ────────────────────────────────
 
-export type ImportsMap = Map<string, { filePath: string; lineNumber: number }[]>;
+export interface SymbolLocation {
+  filePath: string;
+  lineNumber: number;
+  /** Set when the file exports the name without defining it: the binding it stands for. */
+  exportOf?: string;
+  /** Module specifier the binding is re-exported from. */
+  from?: string;
+  /** PHP: fully-qualified name of the class or function defined here. */
+  fqn?: string;
+}
+
+export type ImportsMap = Map<string, SymbolLocation[]>;
 
 // ── Parser interface (receives source string, not file path) ────
 
@@ -80,21 +208,85 @@ export interface LanguageParser {
   readonly languageName: string;
   parse(sourceCode: string, filePath: string, isDependency?: boolean): ParsedFile;
   preScan(files: { filePath: string; sourceCode: string }[]): ImportsMap;
+  parseWithSymbols(sourceCode: string, filePath: string, isDependency?: boolean): ParseResult;
+}
+
+/** A parsed file together with its pre-scan symbols, from a single parse. */
+export interface ParseResult {
+  parsed: ParsedFile;
+  symbols: ImportsMap;
+}
+
+// ── Repository config (.codegraph.json) ─────────────────────────
+
+export interface RepoConfig {
+  /** Globs (relative to the repo root) of files to index; all supported files when unset. */
+  include?: string[];
+  /** Globs excluded in addition to the built-in ones (node_modules, vendor, dist, ...). */
+  exclude: string[];
+  /** Languages to index; every registered language when unset. */
+  languages?: SupportedLanguage[];
+  /** Files larger than this many bytes are skipped. */
+  maxFileSize?: number;
+  /** Generate LLM descriptions and embeddings for symbols, files and directories. */
+  descriptions: boolean;
+  /** Index as a dependency (no source stored) unless the caller says otherwise. */
+  dependency: boolean;
+}
+
+/** Path rules of a repository, shared by full indexing and the file watcher. */
+export interface RepoFileFilter {
+  /** Whether a file passes the include/exclude globs, .gitignore and enabled languages. */
+  acceptsFile(filePath: string): boolean;
+  /** Whether a file or directory is excluded outright. */
+  isExcluded(path: string): boolean;
 }
 
 // ── Indexing job ────────────────────────────────────────────────
 
+/** Last indexing phase a file completed; stored on File nodes as `index_phase`. */
+export type IndexPhase = "parsed" | "linked" | "described";
+
 export interface IndexJob {
   id: string;
   path: string;
-  status: "running" | "completed" | "failed";
+  status: "running" | "completed" | "failed" | "cancelled";
   filesTotal: number;
   filesProcessed: number;
+  filesRemoved?: number; // graph files whose source no longer exists
+  checkpoints?: Record<string, IndexPhase>; // file path → last phase completed in this job
+  ref?: string; // git ref indexed instead of the working tree
+  commit?: string; // commit SHA `ref` resolved to
   startedAt: Date;
   completedAt?: Date;
   error?: string;
 }
 
+/** Options of a full index run. */
+export interface IndexOptions {
+  /** Index this git revision (branch, tag or SHA) instead of the working tree. */
+  ref?: string;
+}
+
+// ── Index plan (dry run) ────────────────────────────────────────
+
+/** What `indexDirectory` would do, computed without writing to the graph. */
+export interface IndexPlan {
+  path: string;
+  ref?: string;
+  commit?: string;
+  dirtyFiles: string[]; // new or changed since the last run
+  unchangedFiles: string[];
+  resumedFiles: string[]; // unchanged, but a previous run stopped before finishing them
+  deletedFiles: string[]; // in the graph, no longer on disk
+  languages: Record<string, { files: number; dirty: number }>;
+  descriptions: {
+    enabled: boolean;
+    files: number; // files that would get a new description
+    symbols: number; // functions and classes whose source changed since their description
+  };
+}
+
 // ── Graph stats ─────────────────────────────────────────────────
 
 
@@ -166,6 +358,42 @@ export interface ImporterResult {
   importedName: string;
 }
 
+export interface TypeUsageResult {
+  kind: string; // "function", "property" or "variable"
+  name: string;
+  path: string;
+  lineNumber?: number;
+  className?: string; // owning class of a property
+}
+
+export interface DecoratedResult {
+  kind: string; // "function", "class" or "property"
+  name: string;
+  path: string;
+  lineNumber?: number;
+  className?: string; // owning class of a method or property
+  decorator: string; // decorator name as written, e.g. "Get" or "app.route"
+  arguments?: string;
+}
+
+export interface RendererResult {
+  name: string; // function rendering the component
+  path: string;
+  lineNumber?: number; // line of the JSX element
+  props: string[];
+}
+
+export interface RouteResult {
+  method: string;
+  path: string;
+  framework: string;
+  filePath: string;
+  lineNumber?: number;
+  handler?: string; // as written in the route declaration
+  handlerPath?: string; // file of the resolved handler function
+  handlerLine?: number;
+}
+
 export interface ComplexityResult {
   name: string;
   path: string;
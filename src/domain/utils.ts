@@ -1,3 +1,4 @@
+import crypto from "node:crypto";
 
 /**
  * Executes an array of factory functions in parallel with a limited concurrency.
@@ -55,3 +56,15 @@ export async function mapWithConcurrency<T, R>(
     await Promise.all(workers);
     return results;
 }
+
+/**
+ * Git's object id for a file holding `content` (`git hash-object`), used as
+ * the File content hash so a git revision's tree supplies it without reads.
+ */
+export function gitBlobId(content: string): string {
+    return crypto
+        .createHash("sha1")
+        .update(`blob ${Buffer.byteLength(content)}\0`)
+        .update(content)
+        .digest("hex");
+}
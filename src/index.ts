@@ -6,11 +6,25 @@ export type {
   ParsedFunction,
   ParsedClass,
   ParsedImport,
+  ParsedExport,
   ParsedCall,
   ParsedVariable,
+  ParsedProperty,
+  Visibility,
+  ParsedComponent,
+  ParsedTypeAlias,
+  ParsedEnum,
+  ParsedNamespace,
+  ParseResult,
   ImportsMap,
+  SymbolLocation,
   LanguageParser,
   IndexJob,
+  IndexPhase,
+  IndexPlan,
+  IndexOptions,
+  RepoConfig,
+  RepoFileFilter,
   GraphStats,
   SupportedLanguage,
   SearchResult,
@@ -19,6 +33,10 @@ export type {
   DeadCodeResult,
   ImporterResult,
   ComplexityResult,
+  TypeUsageResult,
+  DecoratedResult,
+  RouteResult,
+  RendererResult,
 } from "./domain/types.js";
 
 // ── Domain ports ────────────────────────────────────────────────
@@ -27,8 +45,13 @@ export type {
   GraphReader,
   GraphWriter,
   GraphRepository,
+  NodeRow,
+  RelationshipRow,
   Logger,
   JobStore,
+  ParserPool,
+  Revision,
+  RevisionSource,
   IndexCode,
   SearchCode, // Added SearchCode type export
   AnalyzeCode,
@@ -37,10 +60,19 @@ export type {
 } from "./domain/ports.js";
 
 // ── Domain ──────────────────────────────────────────────────────
-export { resolveSymbol } from "./domain/symbol-resolver.js";
+export { resolveSymbol, resolveExport, moduleCandidates } from "./domain/symbol-resolver.js";
+export type { ModuleResolver, ResolvedSymbol } from "./domain/symbol-resolver.js";
+export { resolveModulePath, isPackageSpecifier } from "./domain/module-resolver.js";
+export type { PackageManifest, TsConfigPaths, Workspace } from "./domain/module-resolver.js";
+export { qualifyPhpName, resolvePsr4 } from "./domain/php-resolver.js";
+export type { Psr4Mapping } from "./domain/php-resolver.js";
 export { JavaScriptParser } from "./domain/parsers/javascript.js";
 export { TypeScriptParser } from "./domain/parsers/typescript.js";
 export { PHPParser } from "./domain/parsers/php.js";
+export { PythonParser } from "./domain/parsers/python.js";
+export { GoParser } from "./domain/parsers/go.js";
+export { SingleFileComponentParser, VueParser, SvelteParser } from "./domain/parsers/sfc.js";
+export { ParserRegistry, createDefaultParserRegistry } from "./domain/parsers/parser-registry.js";
 
 // ── Application ─────────────────────────────────────────────────
 export { IndexCodeService } from "./application/index-code.js";
@@ -50,11 +82,16 @@ export { WatchFilesService } from "./application/watch-files.js";
 export { ManageRepositoriesService } from "./application/manage-repositories.js";
 export { DoctorService } from "./application/doctor.js";
 export { InMemoryJobStore } from "./application/job-store.js";
+export { loadRepoConfig, createRepoFileFilter, REPO_CONFIG_FILE } from "./application/repo-config.js";
+export { loadWorkspace } from "./application/workspace.js";
 
 // ── Infrastructure ──────────────────────────────────────────────
 export { Neo4jGraphRepository } from "./infrastructure/neo4j-graph-repository.js";
 export { NodeFileSystem } from "./infrastructure/node-filesystem.js";
 export { ConsoleLogger } from "./infrastructure/console-logger.js";
+export { WorkerParserPool } from "./infrastructure/worker-parser-pool.js";
+export { GitFileSystem, GitRevisionSource } from "./infrastructure/git-filesystem.js";
+export type { WorkerParserPoolOptions } from "./infrastructure/worker-parser-pool.js";
 
 // ── Composition ─────────────────────────────────────────────────
 export { loadConfig } from "./config.js";
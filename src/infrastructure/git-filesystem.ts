@@ -0,0 +1,197 @@
+import { execFile, spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+import { promisify } from "node:util";
+import { resolve, relative, sep } from "node:path";
+import picomatch from "picomatch";
+import type { FileSystem, GlobOptions, Revision, RevisionSource } from "../domain/ports.js";
+
+const execFileAsync = promisify(execFile);
+
+/** Blobs can be large; the default 1 MB stdout buffer is not enough. */
+const MAX_BUFFER = 256 * 1024 * 1024;
+
+interface TreeEntry {
+  blob: string;
+  size: number;
+}
+
+interface PendingRead {
+  blob: string;
+  resolve: (content: string) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * One `git cat-file --batch` process answering blob reads in the order they
+ * were asked. It is started on the first read and unref'd while idle, so it
+ * never keeps the process alive on its own.
+ */
+class BlobReader {
+  private child?: ChildProcessWithoutNullStreams;
+  private readonly pending: PendingRead[] = [];
+  private buffer: Buffer = Buffer.alloc(0);
+
+  constructor(private readonly cwd: string) { }
+
+  read(blob: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = this.start();
+      this.pending.push({ blob, resolve, reject });
+      this.setRef(true);
+      child.stdin.write(`${blob}\n`);
+    });
+  }
+
+  async close(): Promise<void> {
+    const child = this.child;
+    if (!child) return;
+    const exited = new Promise((resolve) => child.once("close", resolve));
+    child.stdin.end();
+    await exited;
+  }
+
+  private start(): ChildProcessWithoutNullStreams {
+    if (this.child) return this.child;
+    const child = spawn("git", ["cat-file", "--batch"], { cwd: this.cwd });
+    child.stdout.on("data", (chunk: Buffer) => {
+      this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+      this.drain();
+    });
+    child.stderr.resume();
+    child.stdin.on("error", (err) => this.fail(err));
+    child.on("error", (err) => this.fail(err));
+    child.on("close", () => this.fail(new Error("git cat-file exited")));
+    this.child = child;
+    return child;
+  }
+
+  /** Settle every read whose reply (`<sha> blob <size>\n<content>\n`) has fully arrived. */
+  private drain(): void {
+    while (this.pending.length > 0) {
+      const newline = this.buffer.indexOf(10);
+      if (newline === -1) return;
+      const [, type, size] = this.buffer.subarray(0, newline).toString().split(" ");
+      if (type !== "blob") {
+        // `<sha> missing`: the reply is the header alone
+        this.buffer = this.buffer.subarray(newline + 1);
+        const { blob, reject } = this.pending.shift()!;
+        reject(new Error(`git object ${blob} is not a readable blob`));
+        continue;
+      }
+      const end = newline + 1 + Number(size);
+      if (this.buffer.length < end + 1) return;
+      const content = this.buffer.subarray(newline + 1, end).toString("utf8");
+      this.buffer = this.buffer.subarray(end + 1);
+      this.pending.shift()!.resolve(content);
+    }
+    this.setRef(false);
+  }
+
+  private fail(err: Error): void {
+    this.child = undefined;
+    this.buffer = Buffer.alloc(0);
+    for (const { reject } of this.pending.splice(0)) reject(err);
+  }
+
+  private setRef(active: boolean): void {
+    const child = this.child;
+    if (!child) return;
+    for (const handle of [child, child.stdin, child.stdout, child.stderr] as { ref(): void; unref(): void }[]) {
+      if (active) handle.ref();
+      else handle.unref();
+    }
+  }
+}
+
+/**
+ * Read-only view of a directory as it was at a commit, served from the git
+ * object database with `git ls-tree` / `git cat-file --batch`. Paths are the
+ * same absolute paths the working tree would have, so the graph keys do not
+ * change, and the tree's blob ids are the files' content hashes.
+ */
+export class GitFileSystem implements FileSystem {
+  private readonly blobs: BlobReader;
+
+  private constructor(
+    root: string,
+    readonly revision: Revision,
+    private readonly entries: Map<string, TreeEntry>,
+  ) {
+    this.blobs = new BlobReader(root);
+  }
+
+  /** Resolve `ref` to a commit and list the files under `dirPath` at that commit. */
+  static async open(dirPath: string, ref: string): Promise<GitFileSystem> {
+    const root = resolve(dirPath);
+    const git = async (args: string[]) =>
+      (await execFileAsync("git", args, { cwd: root, maxBuffer: MAX_BUFFER, encoding: "utf8" })).stdout;
+
+    let commit: string;
+    try {
+      commit = (await git(["rev-parse", "--verify", "--end-of-options", `${ref}^{commit}`])).trim();
+    } catch {
+      throw new Error(`Unknown git revision "${ref}" in ${root}`);
+    }
+
+    // Without --full-tree, ls-tree lists the current directory with relative paths.
+    const entries = new Map<string, TreeEntry>();
+    const listing = await git(["ls-tree", "-r", "-l", "-z", commit]);
+    for (const line of listing.split("\0")) {
+      const tab = line.indexOf("\t");
+      if (tab === -1) continue;
+      const [mode, type, blob, size] = line.slice(0, tab).split(/\s+/);
+      // Skip submodules and symlinks: neither has source to parse.
+      if (type !== "blob" || mode === "120000") continue;
+      entries.set(resolve(root, line.slice(tab + 1)), { blob, size: Number(size) });
+    }
+
+    return new GitFileSystem(root, { commit, ref }, entries);
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    const entry = this.entries.get(resolve(filePath));
+    if (!entry) {
+      throw new Error(`${filePath} does not exist at ${this.revision.ref} (${this.revision.commit.slice(0, 12)})`);
+    }
+    return this.blobs.read(entry.blob);
+  }
+
+  blobId(filePath: string): string | undefined {
+    return this.entries.get(resolve(filePath))?.blob;
+  }
+
+  /** Stop the `git cat-file` process; a later read starts a new one. */
+  async close(): Promise<void> {
+    await this.blobs.close();
+  }
+
+  exists(filePath: string): boolean {
+    return this.entries.has(resolve(filePath));
+  }
+
+  async fileSize(filePath: string): Promise<number> {
+    const entry = this.entries.get(resolve(filePath));
+    if (!entry) throw new Error(`${filePath} does not exist at ${this.revision.ref}`);
+    return entry.size;
+  }
+
+  /** Same matching rules as fast-glob's defaults (dotfiles are not matched). */
+  async glob(patterns: string[], options: GlobOptions): Promise<string[]> {
+    const cwd = resolve(options.cwd);
+    const isMatch = picomatch(patterns);
+    const isIgnored = options.ignore?.length ? picomatch(options.ignore, { dot: true }) : () => false;
+
+    const matches: string[] = [];
+    for (const filePath of this.entries.keys()) {
+      const rel = relative(cwd, filePath).split(sep).join("/");
+      if (rel.startsWith("..") || !isMatch(rel) || isIgnored(rel)) continue;
+      matches.push(options.absolute === false ? rel : filePath);
+    }
+    return matches.sort();
+  }
+}
+
+export class GitRevisionSource implements RevisionSource {
+  open(dirPath: string, ref: string): Promise<FileSystem> {
+    return GitFileSystem.open(dirPath, ref);
+  }
+}
@@ -1,7 +1,8 @@
 import { AsyncLocalStorage } from "node:async_hooks";
 import neo4j, { type Driver, type Session, type ManagedTransaction } from "neo4j-driver";
-import type { GraphRepository, QueryResultRows } from "../domain/ports.js";
-import type { SemanticSearchResult, ImportsMap } from "../domain/types.js";
+import type { GraphRepository, NodeRow, QueryResultRows, RelationshipRow } from "../domain/ports.js";
+import type { SemanticSearchResult, ImportsMap, IndexPhase, ParsedExport } from "../domain/types.js";
+import { addExportSymbols } from "../domain/symbol-resolver.js";
 
 // ── Schema DDL ──────────────────────────────────────────────────
 
@@ -9,17 +10,27 @@ const SCHEMA_STATEMENTS = [
   "CREATE CONSTRAINT repo_path IF NOT EXISTS FOR (r:Repository) REQUIRE r.path IS UNIQUE",
   "CREATE CONSTRAINT file_path IF NOT EXISTS FOR (f:File) REQUIRE f.path IS UNIQUE",
   "CREATE CONSTRAINT dir_path IF NOT EXISTS FOR (d:Directory) REQUIRE d.path IS UNIQUE",
+  "CREATE CONSTRAINT package_path IF NOT EXISTS FOR (p:Package) REQUIRE p.path IS UNIQUE",
   "CREATE CONSTRAINT module_name IF NOT EXISTS FOR (m:Module) REQUIRE m.name IS UNIQUE",
+  "CREATE CONSTRAINT decorator_name IF NOT EXISTS FOR (d:Decorator) REQUIRE d.name IS UNIQUE",
   "CREATE CONSTRAINT func_unique IF NOT EXISTS FOR (f:Function) REQUIRE (f.name, f.path, f.line_number) IS UNIQUE",
   "CREATE CONSTRAINT class_unique IF NOT EXISTS FOR (c:Class) REQUIRE (c.name, c.path, c.line_number) IS UNIQUE",
   "CREATE CONSTRAINT var_unique IF NOT EXISTS FOR (v:Variable) REQUIRE (v.name, v.path, v.line_number) IS UNIQUE",
+  "CREATE CONSTRAINT property_unique IF NOT EXISTS FOR (p:Property) REQUIRE (p.name, p.class_name, p.path) IS UNIQUE",
+  "CREATE CONSTRAINT type_alias_unique IF NOT EXISTS FOR (t:TypeAlias) REQUIRE (t.name, t.path, t.line_number) IS UNIQUE",
+  "CREATE CONSTRAINT enum_unique IF NOT EXISTS FOR (e:Enum) REQUIRE (e.name, e.path, e.line_number) IS UNIQUE",
+  "CREATE CONSTRAINT namespace_unique IF NOT EXISTS FOR (n:Namespace) REQUIRE (n.name, n.path) IS UNIQUE",
+  "CREATE CONSTRAINT component_unique IF NOT EXISTS FOR (c:Component) REQUIRE (c.name, c.path) IS UNIQUE",
+  "CREATE CONSTRAINT route_unique IF NOT EXISTS FOR (r:Route) REQUIRE (r.method, r.path, r.file_path, r.line_number) IS UNIQUE",
   "CREATE INDEX func_lang IF NOT EXISTS FOR (f:Function) ON (f.lang)",
   "CREATE INDEX class_lang IF NOT EXISTS FOR (c:Class) ON (c.lang)",
+  "CREATE INDEX func_fqn IF NOT EXISTS FOR (f:Function) ON (f.fqn)",
+  "CREATE INDEX class_fqn IF NOT EXISTS FOR (c:Class) ON (c.fqn)",
 ];
 
 const FULLTEXT_INDEX = `
   CREATE FULLTEXT INDEX code_search IF NOT EXISTS
-  FOR (n:Function|Class|Variable) ON EACH [n.name]
+  FOR (n:Function|Class|Variable|TypeAlias|Enum|Namespace) ON EACH [n.name]
 `;
 
 const VECTOR_INDEXES = [
@@ -35,6 +46,9 @@ const VECTOR_INDEXES = [
    OPTIONS {indexConfig: { \`vector.dimensions\`: 384, \`vector.similarity_function\`: 'cosine' }}`
 ];
 
+/** Max rows sent in a single UNWIND statement. */
+const UNWIND_CHUNK_SIZE = 1000;
+
 // ── Repository implementation ───────────────────────────────────
 
 export class Neo4jGraphRepository implements GraphRepository {
@@ -155,14 +169,28 @@ export class Neo4jGraphRepository implements GraphRepository {
     return hashes;
   }
 
+  async getRepositoryFilePhases(repoPath: string): Promise<Record<string, IndexPhase>> {
+    const rows = await this.runQuery(
+      `MATCH (r:Repository {path: $path})-[:CONTAINS]->(f:File)
+       WHERE f.index_phase IS NOT NULL
+       RETURN f.path as path, f.index_phase as phase`,
+      { path: repoPath }
+    );
+    const phases: Record<string, IndexPhase> = {};
+    for (const row of rows) {
+      if (row.path) phases[row.path as string] = row.phase as IndexPhase;
+    }
+    return phases;
+  }
+
   async getImportsMapForFiles(filePaths: string[]): Promise<ImportsMap> {
     const map: ImportsMap = new Map();
     if (filePaths.length === 0) return map;
 
     const rows = await this.runQuery(
       `MATCH (f:File)-[:CONTAINS]->(s)
-       WHERE f.path IN $paths AND (s:Function OR s:Class OR s:Variable)
-       RETURN s.name as name, f.path as filePath, s.line_number as lineNumber`,
+       WHERE f.path IN $paths AND (s:Function OR s:Class OR s:Variable OR s:TypeAlias OR s:Enum OR s:Component)
+       RETURN s.name as name, f.path as filePath, s.line_number as lineNumber, s.fqn as fqn`,
       { paths: filePaths }
     );
 
@@ -173,10 +201,20 @@ export class Neo4jGraphRepository implements GraphRepository {
 
       if (name && filePath) {
         if (!map.has(name)) map.set(name, []);
-        map.get(name)!.push({ filePath, lineNumber });
+        map.get(name)!.push(row.fqn ? { filePath, lineNumber, fqn: row.fqn as string } : { filePath, lineNumber });
       }
     }
 
+    // Re-exports and renamed exports have no node of their own in the file.
+    const files = await this.runQuery(
+      `MATCH (f:File) WHERE f.path IN $paths AND f.exports IS NOT NULL
+       RETURN f.path as filePath, f.exports as exports`,
+      { paths: filePaths }
+    );
+    for (const row of files) {
+      addExportSymbols(map, row.filePath as string, JSON.parse(row.exports as string) as ParsedExport[]);
+    }
+
     return map;
   }
 
@@ -235,9 +273,70 @@ export class Neo4jGraphRepository implements GraphRepository {
     );
   }
 
+  async mergeNodes(label: string, rows: NodeRow[]): Promise<void> {
+    const groups = groupRows(rows, (r) => Object.keys(r.key));
+    for (const { fields, rows: groupRows } of groups) {
+      const keyClause = fields.map((k) => `${k}: row.key.${k}`).join(", ");
+      for (const chunk of chunks(groupRows)) {
+        await this.runWriteQuery(
+          `UNWIND $rows AS row
+           MERGE (n:${label} {${keyClause}})
+           SET n += row.props`,
+          { rows: chunk.map((r) => ({ key: r.key, props: definedProps(r.props) })) },
+        );
+      }
+    }
+  }
+
+  async mergeRelationships(
+    fromLabel: string,
+    toLabel: string,
+    relType: string,
+    rows: RelationshipRow[],
+  ): Promise<void> {
+    // Relationship props are part of the MERGE pattern (as in mergeRelationship),
+    // so rows are grouped by the exact set of keys and props they carry.
+    const groups = groupRows(rows, (r) => [
+      ...Object.keys(r.from).map((k) => `from.${k}`),
+      ...Object.keys(r.to).map((k) => `to.${k}`),
+      ...Object.keys(definedProps(r.props)).map((k) => `props.${k}`),
+    ]);
+    for (const { fields, rows: groupRows } of groups) {
+      const clauseFor = (prefix: string) =>
+        fields
+          .filter((f) => f.startsWith(`${prefix}.`))
+          .map((f) => `${f.slice(prefix.length + 1)}: row.${f}`)
+          .join(", ");
+      const propClause = clauseFor("props");
+      for (const chunk of chunks(groupRows)) {
+        await this.runWriteQuery(
+          `UNWIND $rows AS row
+           MATCH (a:${fromLabel} {${clauseFor("from")}}), (b:${toLabel} {${clauseFor("to")}})
+           MERGE (a)-[:${relType}${propClause ? ` {${propClause}}` : ""}]->(b)`,
+          { rows: chunk.map((r) => ({ from: r.from, to: r.to, props: definedProps(r.props) })) },
+        );
+      }
+    }
+  }
+
+  async setFilePhase(filePaths: string[], phase: IndexPhase): Promise<void> {
+    if (filePaths.length === 0) return;
+    await this.runWriteQuery(
+      `UNWIND $paths AS path
+       MATCH (f:File {path: path})
+       SET f.index_phase = $phase`,
+      { paths: filePaths, phase },
+    );
+  }
+
   async deleteFileNodes(filePath: string): Promise<void> {
+    // DETACH also drops CALLS/INHERITS/IMPLEMENTS edges pointing into the file
+    // from elsewhere; parameters hang off functions, not the file, so they are
+    // collected explicitly.
     await this.runWriteQuery(
-      `MATCH (f:File {path: $path})-[:CONTAINS]->(n) DETACH DELETE n`,
+      `MATCH (f:File {path: $path})-[:CONTAINS]->(n)
+       OPTIONAL MATCH (n)-[:HAS_PARAMETER]->(p:Parameter)
+       DETACH DELETE p, n`,
       { path: filePath },
     );
     await this.runWriteQuery(
@@ -316,3 +415,33 @@ export class Neo4jGraphRepository implements GraphRepository {
     );
   }
 }
+
+// ── Bulk write helpers ──────────────────────────────────────────
+
+function definedProps(props: Record<string, unknown> = {}): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(props)) {
+    if (v !== undefined) result[k] = v;
+  }
+  return result;
+}
+
+/** Group rows whose Cypher pattern is identical (same field names). */
+function groupRows<T>(rows: T[], fieldsOf: (row: T) => string[]): { fields: string[]; rows: T[] }[] {
+  const groups = new Map<string, { fields: string[]; rows: T[] }>();
+  for (const row of rows) {
+    const fields = fieldsOf(row).sort();
+    const signature = fields.join("|");
+    if (!groups.has(signature)) groups.set(signature, { fields, rows: [] });
+    groups.get(signature)!.rows.push(row);
+  }
+  return Array.from(groups.values());
+}
+
+function chunks<T>(items: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += UNWIND_CHUNK_SIZE) {
+    result.push(items.slice(i, i + UNWIND_CHUNK_SIZE));
+  }
+  return result;
+}
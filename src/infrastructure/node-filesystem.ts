@@ -1,4 +1,4 @@
-import { readFile } from "node:fs/promises";
+import { readFile, stat } from "node:fs/promises";
 import { existsSync } from "node:fs";
 import fg from "fast-glob";
 import type { FileSystem, GlobOptions } from "../domain/ports.js";
@@ -12,6 +12,10 @@ export class NodeFileSystem implements FileSystem {
     return existsSync(filePath);
   }
 
+  async fileSize(filePath: string): Promise<number> {
+    return (await stat(filePath)).size;
+  }
+
   async glob(patterns: string[], options: GlobOptions): Promise<string[]> {
     return fg(patterns, {
       cwd: options.cwd,
@@ -0,0 +1,17 @@
+import { parentPort } from "node:worker_threads";
+import { createDefaultParserRegistry } from "../domain/parsers/parser-registry.js";
+import type { ParserTask, ParserReply } from "./worker-parser-pool.js";
+
+// Entry point of each WorkerParserPool thread: one parse per file, returning
+// the ParsedFile and its pre-scan symbols.
+const registry = createDefaultParserRegistry();
+
+parentPort?.on("message", (task: ParserTask) => {
+  let reply: ParserReply;
+  try {
+    reply = { id: task.id, result: registry.parseWithSymbols(task.filePath, task.sourceCode, task.isDependency) };
+  } catch (err) {
+    reply = { id: task.id, error: err instanceof Error ? err.message : String(err) };
+  }
+  parentPort!.postMessage(reply);
+});
@@ -0,0 +1,132 @@
+import { Worker } from "node:worker_threads";
+import { availableParallelism } from "node:os";
+import { existsSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import type { ParserPool } from "../domain/ports.js";
+import type { ParseResult } from "../domain/types.js";
+import { createDefaultParserRegistry, type ParserRegistry } from "../domain/parsers/parser-registry.js";
+
+/** Message sent to a parser worker. */
+export interface ParserTask {
+  id: number;
+  filePath: string;
+  sourceCode: string;
+  isDependency: boolean;
+}
+
+/** Message sent back by a parser worker. */
+export interface ParserReply {
+  id: number;
+  result?: ParseResult | null;
+  error?: string;
+}
+
+export interface WorkerParserPoolOptions {
+  /** Number of worker threads. Defaults to the available CPUs. */
+  size?: number;
+  /** Compiled worker script. Defaults to parser-worker.js next to this module. */
+  workerUrl?: URL;
+}
+
+interface PendingTask {
+  task: ParserTask;
+  resolve: (result: ParseResult | null) => void;
+  reject: (err: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  current?: PendingTask;
+}
+
+/**
+ * Parses files on `worker_threads` so tree-sitter work runs in parallel
+ * with the main thread and with itself. Workers are started on demand and
+ * unref'd while idle, so an unused pool never keeps the process alive.
+ *
+ * When the worker script is not on disk (e.g. running from the TypeScript
+ * sources), files are parsed in-process instead.
+ */
+export class WorkerParserPool implements ParserPool {
+  readonly size: number;
+  private readonly workerUrl: URL;
+  private readonly inProcess: boolean;
+  private readonly workers: PoolWorker[] = [];
+  private readonly queue: PendingTask[] = [];
+  private fallback?: ParserRegistry;
+  private nextId = 0;
+
+  constructor(options: WorkerParserPoolOptions = {}) {
+    this.size = Math.max(1, options.size ?? availableParallelism());
+    this.workerUrl = options.workerUrl ?? new URL("./parser-worker.js", import.meta.url);
+    this.inProcess = !existsSync(fileURLToPath(this.workerUrl));
+  }
+
+  async parse(filePath: string, sourceCode: string, isDependency = false): Promise<ParseResult | null> {
+    if (this.inProcess) {
+      this.fallback ??= createDefaultParserRegistry();
+      return this.fallback.parseWithSymbols(filePath, sourceCode, isDependency);
+    }
+
+    return new Promise((resolve, reject) => {
+      const task = { id: this.nextId++, filePath, sourceCode, isDependency };
+      this.queue.push({ task, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  async close(): Promise<void> {
+    const workers = this.workers.splice(0);
+    for (const pending of this.queue.splice(0)) {
+      pending.reject(new Error("Parser pool closed"));
+    }
+    await Promise.all(workers.map(({ worker }) => worker.terminate()));
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let idle = this.workers.find((w) => !w.current);
+      if (!idle && this.workers.length < this.size) idle = this.spawn();
+      if (!idle) return;
+
+      idle.current = this.queue.shift()!;
+      idle.worker.ref();
+      idle.worker.postMessage(idle.current.task);
+    }
+  }
+
+  private spawn(): PoolWorker {
+    const entry: PoolWorker = { worker: new Worker(this.workerUrl) };
+
+    entry.worker.on("message", (reply: ParserReply) => {
+      const pending = entry.current;
+      entry.current = undefined;
+      entry.worker.unref();
+      if (pending) {
+        if (reply.error) pending.reject(new Error(reply.error));
+        else pending.resolve(reply.result ?? null);
+      }
+      this.dispatch();
+    });
+
+    // A crashed worker fails its current file only; the next dispatch replaces it.
+    entry.worker.on("error", (err) => {
+      entry.current?.reject(err);
+      entry.current = undefined;
+    });
+    entry.worker.on("exit", () => {
+      this.remove(entry);
+      entry.current?.reject(new Error("Parser worker exited"));
+      entry.current = undefined;
+      this.dispatch();
+    });
+
+    this.workers.push(entry);
+    return entry;
+  }
+
+  private remove(entry: PoolWorker): void {
+    const index = this.workers.indexOf(entry);
+    if (index !== -1) this.workers.splice(index, 1);
+  }
+}